@@ -42,6 +42,12 @@ const Layout = () => {
               <li>
                 <Link to="/wallets">Wallets</Link>
               </li>
+              <li>
+                <Link to="/portfolio">Portfolio</Link>
+              </li>
+              <li>
+                <Link to="/operations">Operations</Link>
+              </li>
             </ul>
           </nav>
           <div className="theme-toggle-container">
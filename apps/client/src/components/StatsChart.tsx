@@ -0,0 +1,108 @@
+import { useState, type MouseEvent } from "react";
+import type { StatsHistoryPoint } from "../lib/stats";
+import "./StatsChart.css";
+
+interface StatsChartProps {
+  title: string;
+  points: StatsHistoryPoint[];
+  format: (value: number) => string;
+  // Line color, e.g. var(--bitcoin-color)
+  color: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = 8;
+
+/**
+ * Line chart of a rolled-up metric: the bucket averages as a line over the min-max band.
+ * Hovering shows the values of the nearest bucket.
+ */
+const StatsChart = ({ title, points, format, color }: StatsChartProps) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (points.length === 0) {
+    return (
+      <div className="stats-chart">
+        <div className="stats-chart-header"><h4>{title}</h4></div>
+        <div className="stats-chart-empty">No data for this range yet</div>
+      </div>
+    );
+  }
+
+  const times = points.map((point) => new Date(point.timestamp).getTime());
+  const firstTime = times[0];
+  const timeSpan = Math.max(times[times.length - 1] - firstTime, 1);
+  const low = Math.min(...points.map((point) => point.min));
+  const high = Math.max(...points.map((point) => point.max));
+  // A flat series is drawn through the middle
+  const valueSpan = high - low || Math.abs(high) || 1;
+  const floor = high === low ? low - valueSpan / 2 : low;
+
+  const x = (index: number) => points.length === 1
+    ? WIDTH / 2
+    : PADDING + ((times[index] - firstTime) / timeSpan) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - floor) / valueSpan) * (HEIGHT - 2 * PADDING);
+
+  const line = points.map((point, index) => `${x(index)},${y(point.avg)}`).join(" ");
+  const band = [
+    ...points.map((point, index) => `${x(index)},${y(point.max)}`),
+    ...points.map((point, index) => `${x(index)},${y(point.min)}`).reverse(),
+  ].join(" ");
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const position = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    let nearest = 0;
+    points.forEach((_, index) => {
+      if (Math.abs(x(index) - position) < Math.abs(x(nearest) - position)) nearest = index;
+    });
+    setHoverIndex(nearest);
+  };
+
+  const latest = points[points.length - 1];
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <div className="stats-chart">
+      <div className="stats-chart-header">
+        <h4>{title}</h4>
+        <span className="stats-chart-latest">{format(latest.last)}</span>
+      </div>
+      <svg
+        className="stats-chart-plot"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+        role="img"
+        aria-label={`${title} chart`}
+      >
+        <polygon points={band} fill={color} fillOpacity={0.15} stroke="none" />
+        <polyline points={line} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {hoverIndex !== null && (
+          <line
+            x1={x(hoverIndex)}
+            x2={x(hoverIndex)}
+            y1={0}
+            y2={HEIGHT}
+            className="stats-chart-cursor"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="stats-chart-footer">
+        {hovered ? (
+          <span>
+            {new Date(hovered.timestamp).toLocaleString()}: avg {format(hovered.avg)}, min {format(hovered.min)},
+            max {format(hovered.max)}
+          </span>
+        ) : (
+          <span>Low {format(low)} · High {format(high)}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsChart;
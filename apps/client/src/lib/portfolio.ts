@@ -0,0 +1,45 @@
+import { API_BASE_URL } from "./constants";
+import { formatUsd } from "./stats";
+import type {
+  Portfolio,
+  PortfolioActivity,
+  PortfolioChainHolding,
+  PortfolioChange,
+  PortfolioWalletHolding,
+} from "../../../shared/portfolio";
+
+export type { Portfolio, PortfolioActivity, PortfolioChainHolding, PortfolioChange, PortfolioWalletHolding };
+
+/**
+ * A USD change with its sign and percentage, e.g. "+$120.00 (+2.5%)"
+ */
+export function formatChange(change: PortfolioChange | null): string {
+  if (change === null) return "-";
+  const sign = change.change_usd < 0 ? "-" : "+";
+  const usd = `${sign}${formatUsd(Math.abs(change.change_usd))}`;
+  if (change.change_percent === null) return usd;
+  return `${usd} (${sign}${Math.abs(change.change_percent).toFixed(1)}%)`;
+}
+
+/**
+ * CSS modifier of a change: "positive", "negative" or "" when flat or unknown
+ */
+export function changeDirection(change: PortfolioChange | null): string {
+  if (change === null || change.change_usd === 0) return "";
+  return change.change_usd > 0 ? "positive" : "negative";
+}
+
+/**
+ * Share of the portfolio (0 to 1) as a percentage
+ */
+export function formatAllocation(allocation: number | null): string {
+  return allocation === null ? "-" : `${(allocation * 100).toFixed(1)}%`;
+}
+
+export async function fetchPortfolio(): Promise<Portfolio> {
+  const response = await fetch(`${API_BASE_URL}/portfolio`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch portfolio: ${response.statusText}`);
+  }
+  return await response.json();
+}
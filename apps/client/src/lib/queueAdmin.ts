@@ -0,0 +1,119 @@
+import { API_BASE_URL } from './constants';
+
+/**
+ * Types and calls for the server's queue admin API (/api/queue)
+ */
+
+export type QueuePriorityName = 'user_critical' | 'critical' | 'user' | 'system';
+
+export interface QueueItemSummary {
+  id: string;
+  description: string;
+  operation: string | null;
+  priority: QueuePriorityName;
+  status: 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+  isCritical: boolean;
+  page: string | null;
+  callers: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  deadline: string | null;
+  estimatedWaitMs: number | null;
+  attempts: number;
+  error: string | null;
+}
+
+export interface ApiKeyStatus {
+  id: string;
+  requestsPerMinute: number;
+  dailyBudget: number;
+  dailySpent: number;
+  dailyRemaining: number;
+  totalRequests: number;
+  totalErrors: number;
+  lastErrorStatus: number | null;
+  coolingDown: boolean;
+  cooldownUntil: string | null;
+}
+
+export interface QueueStatus {
+  queueLength: number;
+  processing: boolean;
+  paused: boolean;
+  exclusiveMode: boolean;
+  globalUserPause: boolean;
+  globalUserPauseReason: string;
+  schedulerPaused: boolean;
+  timeUntilNextAllowed: string;
+  rateLimit: {
+    tier: 'free' | 'paid';
+    keys: number;
+    availableKeys: number;
+    dailyBudget: number;
+    dailySpent: number;
+    dailyRemaining: number;
+    dailyResetAt: string;
+    waitMs: number;
+    systemWaitMs: number;
+    userReserveShare: number;
+  };
+  apiKeys: ApiKeyStatus[];
+  totalProcessed: number;
+  totalErrors: number;
+  totalCoalesced: number;
+  totalCacheHits: number;
+  totalCancelled: number;
+  backoffStatus: {
+    consecutiveErrors: number;
+    currentBackoffTime: number;
+    backoffUntil: string | null;
+    maxAttempts: number;
+    lastError: {
+      message: string;
+      status: number | null;
+      retryable: boolean;
+      at: string;
+    } | null;
+  };
+}
+
+export interface QueueSnapshot {
+  status: QueueStatus;
+  items: QueueItemSummary[];
+  history: QueueItemSummary[];
+}
+
+export async function fetchQueueSnapshot(): Promise<QueueSnapshot> {
+  const response = await fetch(`${API_BASE_URL}/queue`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch queue: ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+async function sendQueueCommand(path: string, init: RequestInit): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/queue${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Queue command failed: ${response.statusText}`);
+  }
+}
+
+export type QueueControl = 'pause' | 'resume' | 'exclusive-mode/exit' | 'global-pause/clear';
+
+export function runQueueControl(control: QueueControl): Promise<void> {
+  return sendQueueCommand(`/${control}`, { method: 'POST' });
+}
+
+export function changeQueueItemPriority(id: string, priority: QueuePriorityName): Promise<void> {
+  return sendQueueCommand(`/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ priority }),
+  });
+}
+
+export function cancelQueueItem(id: string): Promise<void> {
+  return sendQueueCommand(`/${id}`, { method: 'DELETE' });
+}
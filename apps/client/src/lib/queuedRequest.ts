@@ -0,0 +1,58 @@
+import { API_BASE_URL } from './constants';
+
+/**
+ * Status of a request waiting in the server's Blockchair queue
+ * (returned by the /status/:requestId endpoints)
+ */
+export interface QueuedRequestStatus {
+  status: 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+  result?: unknown;
+  error?: string | null;
+  estimated_wait_ms: number | null;
+}
+
+/**
+ * Poll a status endpoint until the queued request has finished.
+ * The server stores the result (wallet, transaction, stats) before reporting `done`,
+ * so callers can simply reload the regular endpoint afterwards.
+ * @param statusPath Path below API_BASE_URL, e.g. `/stats/status/<id>`
+ */
+export async function waitForQueuedRequest(
+  statusPath: string,
+  { pollIntervalMs = 5000, timeoutMs = 5 * 60 * 1000, signal }: { pollIntervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<QueuedRequestStatus> {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < timeoutMs) {
+    const response = await fetch(`${API_BASE_URL}${statusPath}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch request status: ${response.statusText}`);
+    }
+
+    const status: QueuedRequestStatus = await response.json();
+    if (status.status === 'done' || status.status === 'error' || status.status === 'cancelled') {
+      return status;
+    }
+
+    // Don't poll much faster than the queue can make progress
+    const delay = Math.max(pollIntervalMs, Math.min(status.estimated_wait_ms ?? 0, 30000));
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (signal?.aborted) {
+      throw new DOMException('Polling aborted', 'AbortError');
+    }
+  }
+
+  throw new Error('Timed out waiting for the queued request');
+}
+
+/**
+ * Cancel a queued request nobody is waiting for anymore, so it doesn't use up an API slot.
+ * Best effort: a request that already finished is left alone.
+ */
+export async function cancelQueuedRequest(requestId: string): Promise<void> {
+  try {
+    await fetch(`${API_BASE_URL}/queue/${requestId}`, { method: 'DELETE' });
+  } catch {
+    // The server drops stale requests on its own as well
+  }
+}
@@ -1,11 +1,15 @@
 import { API_BASE_URL } from './constants';
+import type { BlockchainStats } from './stats';
+import type { TransactionConfirmedEvent } from '../../../shared/transactions';
 
 /**
  * Set up Server-Sent Events connection to receive real-time updates
  */
 export function setupSSE(callbacks: {
-  onStats?: (data: any) => void;
+  onStats?: (data: BlockchainStats) => void;
   onTransactions?: (data: any) => void;
+  onTransactionConfirmed?: (data: TransactionConfirmedEvent) => void;
+  onQueue?: (data: unknown) => void;
   onConnected?: (data: any) => void;
   onError?: (error: any) => void;
 }) {
@@ -35,6 +39,28 @@ export function setupSSE(callbacks: {
     });
   }
   
+  if (callbacks.onTransactionConfirmed) {
+    eventSource.addEventListener('transaction_confirmed', (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        callbacks.onTransactionConfirmed?.(data);
+      } catch (error) {
+        console.error('Error parsing transaction_confirmed data:', error);
+      }
+    });
+  }
+  
+  if (callbacks.onQueue) {
+    eventSource.addEventListener('queue', (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        callbacks.onQueue?.(data);
+      } catch (error) {
+        console.error('Error parsing queue data:', error);
+      }
+    });
+  }
+  
   if (callbacks.onConnected) {
     eventSource.addEventListener('connected', (event) => {
       try {
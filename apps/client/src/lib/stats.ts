@@ -0,0 +1,126 @@
+import { API_BASE_URL } from "./constants";
+import type {
+  BlockchainStats,
+  StatsHistory,
+  StatsHistoryPoint,
+  StatsMetric,
+  StatsResolution,
+} from "../../../shared/stats";
+
+export type { BlockchainStats, StatsHistory, StatsHistoryPoint, StatsMetric };
+
+/**
+ * Placeholder while the server has no stats (or can't be reached)
+ */
+export const emptyStats = (): BlockchainStats => ({
+  bitcoin_blocks: 0,
+  bitcoin_blocks_24h: null,
+  bitcoin_hashrate: "0",
+  bitcoin_difficulty: null,
+  bitcoin_mempool_transactions: 0,
+  bitcoin_market_price_usd: 0,
+  bitcoin_average_transaction_fee_usd_24h: null,
+  bitcoin_volume_24h: null,
+  bitcoin_suggested_fee: null,
+  ethereum_blocks: 0,
+  ethereum_blocks_24h: null,
+  ethereum_hashrate: "0",
+  ethereum_difficulty: null,
+  ethereum_mempool_transactions: 0,
+  ethereum_market_price_usd: 0,
+  ethereum_average_transaction_fee_usd_24h: null,
+  ethereum_volume_24h: null,
+  ethereum_suggested_fee: null,
+  timestamp: new Date().toISOString(),
+});
+
+const HASHRATE_UNITS = ["H/s", "kH/s", "MH/s", "GH/s", "TH/s", "PH/s", "EH/s", "ZH/s"];
+
+/**
+ * Hashes per second in the largest unit that keeps the number above 1
+ */
+export function formatHashrate(hashrate: string): string {
+  let value = Number(hashrate) || 0;
+  let unit = 0;
+  while (value >= 1000 && unit < HASHRATE_UNITS.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${value.toFixed(2)} ${HASHRATE_UNITS[unit]}`;
+}
+
+/**
+ * Large numbers in compact notation (e.g. difficulty: 121.5T)
+ */
+export function formatCompact(value: number | null): string {
+  return value === null ? "-" : value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 });
+}
+
+export function formatUsd(value: number | null): string {
+  return value === null ? "-" : `$${value.toFixed(2)}`;
+}
+
+/**
+ * An amount in the chain's smallest unit (satoshi / wei) as whole coins
+ */
+export function formatCoins(amount: string | null, decimals: number, symbol: string): string {
+  if (amount === null) return "-";
+  const coins = Number(amount) / 10 ** decimals;
+  return `${coins.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${symbol}`;
+}
+
+const RESOLUTION_MS: Record<StatsResolution, number> = {
+  "1m": 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Rolled-up metric series for the last `hours` (the server picks the resolution)
+ */
+export async function fetchStatsHistory(hours: number, metrics: StatsMetric[]): Promise<StatsHistory> {
+  const response = await fetch(`${API_BASE_URL}/stats/history?hours=${hours}&metrics=${metrics.join(",")}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch stats history: ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Fold a live snapshot into a history the way the server's rollups do:
+ * into the current bucket, or a new one, dropping buckets that left the window
+ */
+export function appendSnapshot(history: StatsHistory, snapshot: BlockchainStats): StatsHistory {
+  const time = new Date(snapshot.timestamp).getTime();
+  const size = RESOLUTION_MS[history.resolution];
+  const bucket = new Date(Math.floor(time / size) * size).toISOString();
+  const windowMs = new Date(history.to).getTime() - new Date(history.from).getTime();
+  const from = time - windowMs;
+
+  const series: StatsHistory["series"] = {};
+  for (const [metric, points = []] of Object.entries(history.series) as Array<[StatsMetric, StatsHistoryPoint[] | undefined]>) {
+    const raw = snapshot[metric];
+    const value = raw === null ? NaN : Number(raw);
+    const kept = points.filter((point) => new Date(point.timestamp).getTime() + size > from);
+    if (!Number.isFinite(value)) {
+      series[metric] = kept;
+      continue;
+    }
+
+    const last = kept[kept.length - 1];
+    if (last && last.timestamp === bucket) {
+      series[metric] = [...kept.slice(0, -1), {
+        timestamp: bucket,
+        min: Math.min(last.min, value),
+        max: Math.max(last.max, value),
+        avg: (last.avg * last.samples + value) / (last.samples + 1),
+        last: value,
+        samples: last.samples + 1,
+      }];
+    } else {
+      series[metric] = [...kept, { timestamp: bucket, min: value, max: value, avg: value, last: value, samples: 1 }];
+    }
+  }
+
+  return { ...history, from: new Date(from).toISOString(), to: new Date(time).toISOString(), series };
+}
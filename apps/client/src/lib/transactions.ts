@@ -0,0 +1,35 @@
+import type { TransactionFinality, TransactionStatus } from "../../../shared/transactions";
+
+export type { TransactionFinality, TransactionStatus };
+
+// Confirmations after which the server counts a transaction as final
+export const FINAL_CONFIRMATIONS = 6;
+
+export const FINALITY_FILTERS: Array<{ value: TransactionFinality; label: string }> = [
+  { value: "unconfirmed", label: "Unconfirmed" },
+  { value: "confirmed", label: "1+ conf" },
+  { value: "final", label: `${FINAL_CONFIRMATIONS}+ conf` },
+];
+
+export interface ConfirmationBadge {
+  label: string;
+  // CSS modifier: pending, confirmed, final, dropped or replaced
+  level: string;
+}
+
+/**
+ * Badge of a transaction from its status and confirmation count (null: mined, tip unknown)
+ */
+export function confirmationBadge(status: TransactionStatus, confirmations: number | null): ConfirmationBadge {
+  if (status === "dropped" || status === "replaced") {
+    return { label: status === "dropped" ? "Dropped" : "Replaced", level: status };
+  }
+  if (confirmations === 0 || (confirmations === null && status === "pending")) {
+    return { label: "Unconfirmed", level: "pending" };
+  }
+  if (confirmations === null) return { label: "Confirmed", level: "confirmed" };
+  if (confirmations >= FINAL_CONFIRMATIONS) {
+    return { label: `${FINAL_CONFIRMATIONS}+ confirmations`, level: "final" };
+  }
+  return { label: `${confirmations} confirmation${confirmations === 1 ? "" : "s"}`, level: "confirmed" };
+}
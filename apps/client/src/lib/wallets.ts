@@ -0,0 +1,98 @@
+import { API_BASE_URL } from "./constants";
+import type { StatsHistoryPoint } from "./stats";
+import type { NewWatchedWallet, WalletHistory, WalletSnapshot, WatchedWallet } from "../../../shared/wallets";
+
+export type { NewWatchedWallet, WalletHistory, WalletSnapshot, WatchedWallet };
+
+export const CHAIN_UNITS: Record<WatchedWallet["chain"], { decimals: number; symbol: string }> = {
+  BTC: { decimals: 8, symbol: "BTC" },
+  ETH: { decimals: 18, symbol: "ETH" },
+};
+
+/**
+ * Balance in smallest units (satoshi / wei) shown in coins
+ */
+export function formatBalance(amount: string | bigint | null, chain: WatchedWallet["chain"]): string {
+  if (amount === null) return "-";
+  const { decimals, symbol } = CHAIN_UNITS[chain];
+  const coins = Number(amount) / 10 ** decimals;
+  return `${coins.toLocaleString(undefined, { maximumFractionDigits: 8 })} ${symbol}`;
+}
+
+/**
+ * Sum of the known balances per chain, in smallest units
+ */
+export function totalBalances(wallets: WatchedWallet[]): Record<WatchedWallet["chain"], bigint> {
+  const totals = { BTC: 0n, ETH: 0n };
+  for (const wallet of wallets) {
+    if (wallet.balance !== null) totals[wallet.chain] += BigInt(wallet.balance);
+  }
+  return totals;
+}
+
+/**
+ * Balance snapshots as chart points, the balance in coins; one sample per snapshot.
+ * A snapshot holds until the next one, so the chart starts at the window's start and the
+ * latest balance is carried to its end.
+ */
+export function balancePoints(history: WalletHistory): StatsHistoryPoint[] {
+  const { decimals } = CHAIN_UNITS[history.chain];
+  const point = (timestamp: string, balance: string): StatsHistoryPoint => {
+    const coins = Number(balance) / 10 ** decimals;
+    return { timestamp, min: coins, max: coins, avg: coins, last: coins, samples: 1 };
+  };
+  const points = history.snapshots.map((snapshot) =>
+    point(Date.parse(snapshot.taken_at) < Date.parse(history.from) ? history.from : snapshot.taken_at, snapshot.balance)
+  );
+  const latest = history.snapshots[history.snapshots.length - 1];
+  if (latest && Date.parse(latest.taken_at) < Date.parse(history.to)) {
+    points.push(point(history.to, latest.balance));
+  }
+  return points;
+}
+
+export async function fetchWalletHistory(address: string, days: number): Promise<WalletHistory> {
+  const response = await fetch(`${API_BASE_URL}/wallets/${address}/history?days=${days}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch wallet history: ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Error message of a failed watchlist request
+ */
+async function responseError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function addWatchedWallet(wallet: NewWatchedWallet): Promise<{ error?: string }> {
+  const response = await fetch(`${API_BASE_URL}/wallets`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(wallet),
+  });
+  return response.ok ? {} : { error: await responseError(response, "Failed to add wallet") };
+}
+
+export async function updateWatchedWallet(
+  id: number,
+  changes: Pick<NewWatchedWallet, "name" | "notes">
+): Promise<{ error?: string }> {
+  const response = await fetch(`${API_BASE_URL}/wallets/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  return response.ok ? {} : { error: await responseError(response, "Failed to update wallet") };
+}
+
+export async function removeWatchedWallet(id: number): Promise<{ error?: string }> {
+  const response = await fetch(`${API_BASE_URL}/wallets/${id}`, { method: "DELETE" });
+  return response.ok ? {} : { error: await responseError(response, "Failed to remove wallet") };
+}
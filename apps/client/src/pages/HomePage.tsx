@@ -3,19 +3,39 @@ import { useState, useEffect } from "react";
 import { setupSSE } from "../lib/sse";
 import { usePageTracking } from "../lib/pageTracker";
 import { API_BASE_URL } from "../lib/constants";
+import { waitForQueuedRequest } from "../lib/queuedRequest";
+import {
+  appendSnapshot,
+  fetchStatsHistory,
+  formatCoins,
+  formatCompact,
+  formatHashrate,
+  formatUsd,
+  type BlockchainStats,
+  type StatsHistory,
+  type StatsMetric
+} from "../lib/stats";
+import StatsChart from "../components/StatsChart";
 import "./HomePage.css";
 
-interface BlockchainStats {
-  bitcoin_blocks: number;
-  bitcoin_hashrate: number;
-  bitcoin_mempool_transactions: number;
-  bitcoin_market_price_usd: number;
-  ethereum_blocks: number;
-  ethereum_hashrate: number;
-  ethereum_mempool_transactions: number;
-  ethereum_market_price_usd: number;
-  timestamp: string;
-}
+const HISTORY_RANGES = [
+  { label: "1h", hours: 1 },
+  { label: "24h", hours: 24 },
+  { label: "7d", hours: 7 * 24 },
+  { label: "30d", hours: 30 * 24 },
+];
+
+const formatPrice = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+const CHARTS: Array<{ metric: StatsMetric; title: string; format: (value: number) => string; color: string }> = [
+  { metric: "bitcoin_market_price_usd", title: "BTC Price", format: formatPrice, color: "var(--bitcoin-color)" },
+  { metric: "ethereum_market_price_usd", title: "ETH Price", format: formatPrice, color: "var(--ethereum-color)" },
+  { metric: "bitcoin_mempool_transactions", title: "BTC Mempool Txs", format: formatCount, color: "var(--bitcoin-color)" },
+  { metric: "ethereum_mempool_transactions", title: "ETH Mempool Txs", format: formatCount, color: "var(--ethereum-color)" },
+  { metric: "bitcoin_hashrate", title: "BTC Hashrate", format: (value) => formatHashrate(String(value)), color: "var(--bitcoin-color)" },
+  { metric: "ethereum_hashrate", title: "ETH Hashrate", format: (value) => formatHashrate(String(value)), color: "var(--ethereum-color)" },
+];
 
 const HomePage = () => {
   // Initial stats from the loader (always from database, no API calls)
@@ -32,6 +52,10 @@ const HomePage = () => {
   const [dataAge, setDataAge] = useState<'cached' | 'fresh'>('cached');
   // Time since last refresh
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(new Date(initialStats.timestamp));
+  // Charts: selected range and its rolled-up series
+  const [historyHours, setHistoryHours] = useState(24);
+  const [history, setHistory] = useState<StatsHistory | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   // Track page visit for backend optimization
   useEffect(() => {
@@ -39,6 +63,29 @@ const HomePage = () => {
     return cleanup;
   }, []);
 
+  // Load the chart series whenever the range changes (database only, no API calls)
+  useEffect(() => {
+    let cancelled = false;
+    setHistoryError(null);
+    fetchStatsHistory(historyHours, CHARTS.map(({ metric }) => metric))
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((error) => {
+        console.error("Error loading stats history:", error);
+        if (!cancelled) setHistoryError("Couldn't load the charts");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyHours]);
+
+  // A new snapshot updates the numbers and extends the charts
+  const applySnapshot = (snapshot: BlockchainStats) => {
+    setStats(snapshot);
+    setHistory((current) => (current ? appendSnapshot(current, snapshot) : current));
+  };
+
   // DON'T automatically connect to SSE or refresh data
   // Let the user decide when to get fresh data via the refresh button
 
@@ -67,15 +114,24 @@ const HomePage = () => {
       }
       
       const result = await response.json();
-      
-      if (result.success && result.data) {
-        setStats(result.data);
-        setDataAge('fresh');
-        setLastRefreshTime(new Date());
-      } else {
+      if (!result.request_id) {
         throw new Error('Invalid response from refresh endpoint');
       }
       
+      // The refresh is queued; wait until the new stats have been stored
+      const status = await waitForQueuedRequest(`/stats/status/${result.request_id}`);
+      if (status.status !== 'done') {
+        throw new Error(status.error || 'Stats refresh failed');
+      }
+      
+      const latestResponse = await fetch(`${API_BASE_URL}/stats/latest`);
+      if (!latestResponse.ok) {
+        throw new Error(`Failed to load refreshed stats: ${latestResponse.statusText}`);
+      }
+      applySnapshot(await latestResponse.json());
+      setDataAge('fresh');
+      setLastRefreshTime(new Date());
+      
       // Don't automatically reconnect SSE
       // Let the user choose to enable live updates
       
@@ -97,24 +153,9 @@ const HomePage = () => {
       // Connect if currently disconnected
       const cleanup = setupSSE({
         onStats: (data) => {
-          if (data && data.data) {
-            const btcData = data.data.bitcoin?.data || {};
-            const ethData = data.data.ethereum?.data || {};
-            
-            setStats({
-              bitcoin_blocks: btcData.blocks || 0,
-              bitcoin_hashrate: btcData.hashrate_24h || 0,
-              bitcoin_mempool_transactions: btcData.mempool_transactions || 0,
-              bitcoin_market_price_usd: btcData.market_price_usd || 0,
-              ethereum_blocks: ethData.blocks || 0,
-              ethereum_hashrate: ethData.hashrate_24h || 0,
-              ethereum_mempool_transactions: ethData.mempool_transactions || 0,
-              ethereum_market_price_usd: ethData.market_price_usd || 0,
-              timestamp: new Date().toISOString()
-            });
-            setDataAge('fresh');
-            setLastRefreshTime(new Date());
-          }
+          applySnapshot(data);
+          setDataAge('fresh');
+          setLastRefreshTime(new Date(data.timestamp));
         },
         onConnected: () => setConnected(true),
         onError: () => setConnected(false)
@@ -172,12 +213,32 @@ const HomePage = () => {
             </div>
             <div className="stat-item">
               <span className="stat-label">Hashrate</span>
-              <span className="stat-value">{(stats.bitcoin_hashrate / 1e9).toFixed(2)} GH/s</span>
+              <span className="stat-value">{formatHashrate(stats.bitcoin_hashrate)}</span>
             </div>
             <div className="stat-item">
               <span className="stat-label">Mempool Txs</span>
               <span className="stat-value">{stats.bitcoin_mempool_transactions.toLocaleString()}</span>
             </div>
+            <div className="stat-item">
+              <span className="stat-label">Difficulty</span>
+              <span className="stat-value">{formatCompact(stats.bitcoin_difficulty)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Blocks (24h)</span>
+              <span className="stat-value">{stats.bitcoin_blocks_24h?.toLocaleString() ?? '-'}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Avg Fee (24h)</span>
+              <span className="stat-value">{formatUsd(stats.bitcoin_average_transaction_fee_usd_24h)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Volume (24h)</span>
+              <span className="stat-value">{formatCoins(stats.bitcoin_volume_24h, 8, 'BTC')}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Suggested Fee</span>
+              <span className="stat-value">{stats.bitcoin_suggested_fee !== null ? `${stats.bitcoin_suggested_fee} sat/vB` : '-'}</span>
+            </div>
           </div>
         </div>
 
@@ -194,16 +255,65 @@ const HomePage = () => {
             </div>
             <div className="stat-item">
               <span className="stat-label">Hashrate</span>
-              <span className="stat-value">{(stats.ethereum_hashrate / 1e6).toFixed(2)} MH/s</span>
+              <span className="stat-value">{formatHashrate(stats.ethereum_hashrate)}</span>
             </div>
             <div className="stat-item">
               <span className="stat-label">Mempool Txs</span>
               <span className="stat-value">{stats.ethereum_mempool_transactions.toLocaleString()}</span>
             </div>
+            <div className="stat-item">
+              <span className="stat-label">Difficulty</span>
+              <span className="stat-value">{formatCompact(stats.ethereum_difficulty)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Blocks (24h)</span>
+              <span className="stat-value">{stats.ethereum_blocks_24h?.toLocaleString() ?? '-'}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Avg Fee (24h)</span>
+              <span className="stat-value">{formatUsd(stats.ethereum_average_transaction_fee_usd_24h)}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Volume (24h)</span>
+              <span className="stat-value">{formatCoins(stats.ethereum_volume_24h, 18, 'ETH')}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Suggested Fee</span>
+              <span className="stat-value">{stats.ethereum_suggested_fee !== null ? `${stats.ethereum_suggested_fee} gwei` : '-'}</span>
+            </div>
           </div>
         </div>
       </div>
 
+      <section className="history-section">
+        <div className="history-header">
+          <h3>History</h3>
+          <div className="history-ranges">
+            {HISTORY_RANGES.map(({ label, hours }) => (
+              <button
+                key={label}
+                className={`history-range-button ${hours === historyHours ? "active" : ""}`}
+                onClick={() => setHistoryHours(hours)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {historyError && <div className="history-error">{historyError}</div>}
+        <div className="history-charts">
+          {CHARTS.map(({ metric, title, format, color }) => (
+            <StatsChart
+              key={metric}
+              title={title}
+              points={history?.series[metric] ?? []}
+              format={format}
+              color={color}
+            />
+          ))}
+        </div>
+      </section>
+
       <div className="last-updated">
         Last updated: {lastRefreshTime ? lastRefreshTime.toLocaleString() : 'Unknown'}
         {connected && <span className="update-indicator"></span>}
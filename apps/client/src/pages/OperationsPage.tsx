@@ -0,0 +1,251 @@
+import { useLoaderData } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { setupSSE } from "../lib/sse";
+import {
+  cancelQueueItem,
+  changeQueueItemPriority,
+  fetchQueueSnapshot,
+  runQueueControl,
+  type QueueControl,
+  type QueueItemSummary,
+  type QueuePriorityName,
+  type QueueSnapshot
+} from "../lib/queueAdmin";
+import "./OperationsPage.css";
+
+const PRIORITY_LABELS: Record<QueuePriorityName, string> = {
+  user_critical: "User critical",
+  critical: "Critical",
+  user: "User",
+  system: "System",
+};
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleTimeString() : "-");
+
+const formatWait = (ms: number | null) => {
+  if (ms === null) return "-";
+  if (ms < 1000) return "now";
+  return `${Math.round(ms / 1000)}s`;
+};
+
+/**
+ * Live view of the server's Blockchair request queue, with the controls to
+ * reprioritize or cancel items and to get a stuck queue moving again
+ */
+const OperationsPage = () => {
+  const initialSnapshot = useLoaderData() as QueueSnapshot;
+  const [snapshot, setSnapshot] = useState<QueueSnapshot>(initialSnapshot);
+  const [connected, setConnected] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setSnapshot(await fetchQueueSnapshot());
+    } catch (error) {
+      console.error("Error reloading queue:", error);
+    }
+  }, []);
+
+  // Every queue event reloads the snapshot; bursts of events are folded into one reload
+  useEffect(() => {
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    const cleanup = setupSSE({
+      onQueue: () => {
+        if (reloadTimer) return;
+        reloadTimer = setTimeout(() => {
+          reloadTimer = null;
+          reload();
+        }, 500);
+      },
+      onConnected: () => setConnected(true),
+      onError: () => setConnected(false),
+    });
+    // Waiting times change without events, refresh them now and then
+    const interval = setInterval(reload, 15000);
+
+    return () => {
+      cleanup();
+      clearInterval(interval);
+      if (reloadTimer) clearTimeout(reloadTimer);
+    };
+  }, [reload]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+      await reload();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Action failed");
+    }
+  };
+
+  const { status, items, history } = snapshot;
+  const controls: Array<{ control: QueueControl; label: string; visible: boolean }> = [
+    { control: "pause", label: "Pause queue", visible: !status.paused },
+    { control: "resume", label: "Resume queue", visible: status.paused },
+    { control: "exclusive-mode/exit", label: "Exit exclusive mode", visible: status.exclusiveMode },
+    { control: "global-pause/clear", label: "Clear global pause", visible: status.globalUserPause },
+  ];
+
+  const renderRow = (item: QueueItemSummary, live: boolean) => (
+    <tr key={item.id} className={`queue-row status-${item.status}`}>
+      <td>
+        <div className="queue-description">{item.description}</div>
+        <div className="queue-id">{item.id}</div>
+      </td>
+      <td>
+        {live && item.status === "pending" ? (
+          <select
+            value={item.priority}
+            onChange={(e) => runAction(() => changeQueueItemPriority(item.id, e.target.value as QueuePriorityName))}
+          >
+            {(Object.keys(PRIORITY_LABELS) as QueuePriorityName[]).map((priority) => (
+              <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+            ))}
+          </select>
+        ) : (
+          PRIORITY_LABELS[item.priority]
+        )}
+      </td>
+      <td>
+        <span className={`queue-status-badge ${item.status}`}>{item.status}</span>
+        {item.attempts > 1 && (
+          <span className="queue-attempts"> attempt {item.attempts}/{status.backoffStatus.maxAttempts}</span>
+        )}
+      </td>
+      <td>{formatTime(item.createdAt)}</td>
+      {live ? (
+        <>
+          <td>{item.status === "pending" ? formatWait(item.estimatedWaitMs) : "in flight"}</td>
+          <td>{item.page || "-"}</td>
+          <td>
+            <button className="queue-cancel-button" onClick={() => runAction(() => cancelQueueItem(item.id))}>
+              Cancel
+            </button>
+          </td>
+        </>
+      ) : (
+        <>
+          <td>{formatTime(item.finishedAt)}</td>
+          <td className="queue-error">{item.error || "-"}</td>
+        </>
+      )}
+    </tr>
+  );
+
+  return (
+    <div className="operations-container">
+      <div className="operations-header">
+        <h2>Operations</h2>
+        <span className={`operations-live ${connected ? "connected" : ""}`}>
+          {connected ? "Live" : "Connecting..."}
+        </span>
+      </div>
+
+      <div className="operations-cards">
+        <div className="operations-card">
+          <h3>Queue</h3>
+          <p><strong>{status.queueLength}</strong> waiting{status.processing ? ", 1 in flight" : ""}</p>
+          <p>Next request in {status.timeUntilNextAllowed}</p>
+          <p className="operations-flags">
+            {status.paused && <span className="operations-flag">Paused</span>}
+            {status.exclusiveMode && <span className="operations-flag">Exclusive mode</span>}
+            {status.globalUserPause && (
+              <span className="operations-flag" title={status.globalUserPauseReason}>Global pause</span>
+            )}
+            {status.schedulerPaused && <span className="operations-flag">Scheduler paused</span>}
+          </p>
+        </div>
+        <div className="operations-card">
+          <h3>Quota ({status.rateLimit.tier})</h3>
+          <p><strong>{status.rateLimit.dailyRemaining}</strong> of {status.rateLimit.dailyBudget} left today</p>
+          <p>Resets {new Date(status.rateLimit.dailyResetAt).toLocaleString()}</p>
+          <p>{status.rateLimit.availableKeys} of {status.rateLimit.keys} key(s) available</p>
+          <p>
+            {Math.round(status.rateLimit.userReserveShare * 100)}% reserved for users
+            {status.rateLimit.systemWaitMs > status.rateLimit.waitMs ? `, background waits ${formatWait(status.rateLimit.systemWaitMs)}` : ""}
+          </p>
+        </div>
+        <div className="operations-card">
+          <h3>Backoff</h3>
+          <p><strong>{status.backoffStatus.consecutiveErrors}</strong> consecutive error(s)</p>
+          <p>
+            {status.backoffStatus.backoffUntil
+              ? `Backing off until ${formatTime(status.backoffStatus.backoffUntil)}`
+              : `Current backoff ${Math.round(status.backoffStatus.currentBackoffTime / 1000)}s`}
+          </p>
+          {status.backoffStatus.lastError && (
+            <p className="queue-error" title={status.backoffStatus.lastError.message}>
+              Last error {status.backoffStatus.lastError.status ?? status.backoffStatus.lastError.message}
+              {" "}at {formatTime(status.backoffStatus.lastError.at)}
+              {status.backoffStatus.lastError.retryable ? " (retried)" : ""}
+            </p>
+          )}
+          <p>{status.totalProcessed} sent, {status.totalErrors} failed, {status.totalCancelled} cancelled</p>
+        </div>
+      </div>
+
+      <div className="operations-controls">
+        {controls.filter(({ visible }) => visible).map(({ control, label }) => (
+          <button key={control} className="operations-control-button" onClick={() => runAction(() => runQueueControl(control))}>
+            {label}
+          </button>
+        ))}
+      </div>
+      {actionError && <div className="operations-error">{actionError}</div>}
+
+      {status.apiKeys.length > 1 && (
+        <section>
+          <h3>API keys</h3>
+          <table className="operations-table">
+            <thead>
+              <tr><th>Key</th><th>Spent today</th><th>Requests</th><th>Errors</th><th>State</th></tr>
+            </thead>
+            <tbody>
+              {status.apiKeys.map((key) => (
+                <tr key={key.id}>
+                  <td>{key.id}</td>
+                  <td>{key.dailySpent} / {key.dailyBudget}</td>
+                  <td>{key.totalRequests}</td>
+                  <td>{key.totalErrors}{key.lastErrorStatus ? ` (last ${key.lastErrorStatus})` : ""}</td>
+                  <td>{key.coolingDown ? `Cooling down until ${formatTime(key.cooldownUntil)}` : "Active"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section>
+        <h3>Queued requests</h3>
+        {items.length === 0 ? (
+          <p className="operations-empty">The queue is empty</p>
+        ) : (
+          <table className="operations-table">
+            <thead>
+              <tr><th>Request</th><th>Priority</th><th>Status</th><th>Queued</th><th>Wait</th><th>Page</th><th></th></tr>
+            </thead>
+            <tbody>{items.map((item) => renderRow(item, true))}</tbody>
+          </table>
+        )}
+      </section>
+
+      <section>
+        <h3>Recent requests</h3>
+        {history.length === 0 ? (
+          <p className="operations-empty">No requests since the server started</p>
+        ) : (
+          <table className="operations-table">
+            <thead>
+              <tr><th>Request</th><th>Priority</th><th>Status</th><th>Queued</th><th>Finished</th><th>Error</th></tr>
+            </thead>
+            <tbody>{history.map((item) => renderRow(item, false))}</tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default OperationsPage;
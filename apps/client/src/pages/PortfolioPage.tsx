@@ -0,0 +1,159 @@
+import { Link, useLoaderData, useNavigate } from "react-router-dom";
+import { formatUsd } from "../lib/stats";
+import { formatBalance } from "../lib/wallets";
+import {
+  changeDirection,
+  formatAllocation,
+  formatChange,
+  type Portfolio,
+  type PortfolioChange,
+} from "../lib/portfolio";
+import "./PortfolioPage.css";
+
+const CHAIN_NAMES = { BTC: "Bitcoin", ETH: "Ethereum" };
+
+// Function to format addresses for display
+const formatAddress = (address: string) => `${address.substring(0, 10)}...${address.substring(address.length - 6)}`;
+
+const Change = ({ label, change }: { label: string; change: PortfolioChange | null }) => (
+  <div className="portfolio-change">
+    <span className="portfolio-change-label">{label}</span>
+    <span className={`portfolio-change-value ${changeDirection(change)}`}>{formatChange(change)}</span>
+  </div>
+);
+
+const PortfolioPage = () => {
+  const portfolio = useLoaderData() as Portfolio;
+  const navigate = useNavigate();
+
+  if (portfolio.wallets.length === 0) {
+    return (
+      <div className="portfolio-container">
+        <h2>Portfolio</h2>
+        <div className="portfolio-empty">
+          <p>No wallets tracked yet. <Link to="/wallets">Add a wallet</Link> to build your portfolio.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="portfolio-container">
+      <div className="portfolio-header">
+        <h2>Portfolio</h2>
+        {portfolio.prices_at && (
+          <span className="portfolio-prices-at">
+            Prices as of {new Date(portfolio.prices_at).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <div className="portfolio-total">
+        <div>
+          <h4>Total Value</h4>
+          <p className="portfolio-total-value">{formatUsd(portfolio.total_value_usd)}</p>
+        </div>
+        <Change label="24h" change={portfolio.change_24h} />
+        <Change label="7d" change={portfolio.change_7d} />
+      </div>
+
+      <div className="portfolio-allocation-bar" aria-label="Allocation by chain">
+        {portfolio.chains.map((holding) => holding.allocation ? (
+          <div
+            key={holding.chain}
+            className={`portfolio-allocation-segment ${holding.chain === "BTC" ? "bitcoin" : "ethereum"}`}
+            style={{ width: `${holding.allocation * 100}%` }}
+            title={`${CHAIN_NAMES[holding.chain]} ${formatAllocation(holding.allocation)}`}
+          />
+        ) : null)}
+      </div>
+
+      <div className="portfolio-chains">
+        {portfolio.chains.map((holding) => (
+          <div key={holding.chain} className={`portfolio-chain-card ${holding.chain === "BTC" ? "bitcoin" : "ethereum"}`}>
+            <h4>{CHAIN_NAMES[holding.chain]}</h4>
+            <p className="portfolio-chain-balance">{formatBalance(holding.balance, holding.chain)}</p>
+            <dl>
+              <dt>Value</dt>
+              <dd>{formatUsd(holding.value_usd)}</dd>
+              <dt>Price</dt>
+              <dd>{formatUsd(holding.price_usd)}</dd>
+              <dt>Allocation</dt>
+              <dd>{formatAllocation(holding.allocation)}</dd>
+              <dt>Wallets</dt>
+              <dd>{holding.wallet_count}</dd>
+            </dl>
+            <Change label="24h" change={holding.change_24h} />
+            <Change label="7d" change={holding.change_7d} />
+          </div>
+        ))}
+      </div>
+
+      <h3>Wallets</h3>
+      <div className="portfolio-table-container">
+        <table className="portfolio-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Address</th>
+              <th>Balance</th>
+              <th>Value</th>
+              <th>Allocation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolio.wallets.map((wallet) => (
+              <tr key={wallet.id} onClick={() => navigate(`/wallets/${wallet.address}`)} className="clickable-row">
+                <td>{wallet.name || "Unnamed Wallet"}</td>
+                <td className="address-cell">{formatAddress(wallet.address)}</td>
+                <td>{formatBalance(wallet.balance, wallet.chain)}</td>
+                <td>{formatUsd(wallet.value_usd)}</td>
+                <td>{formatAllocation(wallet.allocation)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3>Recent Activity</h3>
+      {portfolio.recent_activity.length > 0 ? (
+        <div className="portfolio-table-container">
+          <table className="portfolio-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Wallet</th>
+                <th>Transaction</th>
+                <th>Amount</th>
+                <th>Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.recent_activity.map((activity) => (
+                <tr key={`${activity.address}-${activity.hash}`}>
+                  <td>{new Date(activity.time).toLocaleString()}</td>
+                  <td>
+                    <Link to={`/wallets/${activity.address}`}>
+                      {activity.wallet_name || formatAddress(activity.address)}
+                    </Link>
+                  </td>
+                  <td className="address-cell">{formatAddress(activity.hash)}</td>
+                  <td className={activity.balance_change.startsWith("-") ? "negative" : "positive"}>
+                    {formatBalance(activity.balance_change, activity.chain)}
+                  </td>
+                  <td>{formatUsd(activity.value_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="portfolio-empty">
+          <p>No transactions fetched for the watched wallets yet.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioPage;
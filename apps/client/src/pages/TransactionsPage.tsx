@@ -5,6 +5,13 @@ import TransactionModal from "../components/TransactionModal";
 import { API_BASE_URL } from "../lib/constants";
 import "./TransactionsPage.css";
 import { usePageTracking } from "../lib/pageTracker";
+import { setupSSE } from "../lib/sse";
+import {
+  confirmationBadge,
+  FINALITY_FILTERS,
+  type TransactionFinality,
+  type TransactionStatus,
+} from "../lib/transactions";
 
 interface Transaction {
   hash: string;
@@ -15,7 +22,9 @@ interface Transaction {
   fee: string;
   sender: string | null;
   receiver: string | null;
-  status: string;
+  status: TransactionStatus;
+  // null: mined, but the server doesn't know the chain tip yet
+  confirmations: number | null;
   raw_payload?: any;
 }
 
@@ -29,6 +38,11 @@ interface PaginatedResponse {
   };
 }
 
+const ConfirmationStatus = ({ status, confirmations }: { status: TransactionStatus; confirmations: number | null }) => {
+  const { label, level } = confirmationBadge(status, confirmations);
+  return <span className={`status-badge ${level}`}>{label}</span>;
+};
+
 const TransactionsPage = () => {
   const { data: transactions, pagination } = useLoaderData() as PaginatedResponse;
   const [searchParams] = useSearchParams();
@@ -50,6 +64,8 @@ const TransactionsPage = () => {
   const [autoRefreshScheduled, setAutoRefreshScheduled] = useState(false);
   // State for blockchain filter
   const [blockchainFilter, setBlockchainFilter] = useState<'all' | 'BTC' | 'ETH'>('all');
+  // State for finality filter
+  const [finalityFilter, setFinalityFilter] = useState<'all' | TransactionFinality>('all');
   
   const currentPage = parseInt(searchParams.get("page") || "1", 10);
   const sortOrder = searchParams.get("sort") || "desc";
@@ -66,9 +82,10 @@ const TransactionsPage = () => {
       
       // Add chain parameter if filtering is active
       const chainParam = blockchainFilter !== 'all' ? `&chain=${blockchainFilter}` : '';
+      const finalityParam = finalityFilter !== 'all' ? `&finality=${finalityFilter}` : '';
       
-      // Use the standard endpoint with optional chain filter
-      const response = await fetch(`${API_BASE_URL}/transactions?page=${page}&sortOrder=${sortOrder}${chainParam}`);
+      // Use the standard endpoint with optional chain and finality filters
+      const response = await fetch(`${API_BASE_URL}/transactions?page=${page}&sortOrder=${sortOrder}${chainParam}${finalityParam}`);
       
       if (response.ok) {
         const data = await response.json();
@@ -83,12 +100,12 @@ const TransactionsPage = () => {
     } finally {
       setIsRefreshingFromDB(false);
     }
-  }, [searchParams, blockchainFilter]);
+  }, [searchParams, blockchainFilter, finalityFilter]);
 
-  // Apply filter when it changes
+  // Apply filters when they change
   useEffect(() => {
     refreshTransactionsFromDB();
-  }, [blockchainFilter, refreshTransactionsFromDB]);
+  }, [blockchainFilter, finalityFilter, refreshTransactionsFromDB]);
 
   // Function to manually refresh transactions from API
   const refreshTransactionsFromAPI = useCallback(async () => {
@@ -149,6 +166,25 @@ const TransactionsPage = () => {
     }
   }, [autoRefreshScheduled]);
 
+  // Mark pending rows confirmed as soon as the server sees them mined
+  useEffect(() => {
+    const cleanup = setupSSE({
+      onTransactionConfirmed: (event) => {
+        setTransactionData((current) => current.map((tx) => tx.hash === event.hash
+          ? {
+              ...tx,
+              status: "confirmed",
+              block_number: event.block_number,
+              block_time: event.block_time,
+              confirmations: Math.max(tx.confirmations ?? 0, 1),
+            }
+          : tx
+        ));
+      }
+    });
+    return cleanup;
+  }, []);
+
   // Track page visit for backend optimization
   useEffect(() => {
     // Use our page tracking hook to notify the backend
@@ -283,6 +319,26 @@ const TransactionsPage = () => {
               </button>
             </div>
           </div>
+          <div className="finality-filter">
+            <span>Finality: </span>
+            <div className="filter-buttons">
+              <button 
+                className={`filter-button ${finalityFilter === 'all' ? 'active' : ''}`}
+                onClick={() => setFinalityFilter('all')}
+              >
+                All
+              </button>
+              {FINALITY_FILTERS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`filter-button ${finalityFilter === value ? 'active' : ''}`}
+                  onClick={() => setFinalityFilter(value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           <button
             onClick={refreshTransactionsFromDB}
             className="refresh-button db-refresh"
@@ -323,6 +379,7 @@ const TransactionsPage = () => {
               <th>Amount</th>
               <th>Fee</th>
               <th>Time</th>
+              <th>Status</th>
             </tr>
           </thead>
           <tbody>
@@ -362,6 +419,9 @@ const TransactionsPage = () => {
                 <td>{formatCryptoValue(tx.value, tx.chain)} {tx.chain}</td>
                 <td>{formatCryptoValue(tx.fee, tx.chain)} {tx.chain}</td>
                 <td>{new Date(tx.block_time).toLocaleString()}</td>
+                <td>
+                  <ConfirmationStatus status={tx.status} confirmations={tx.confirmations} />
+                </td>
               </tr>
             ))}
           </tbody>
@@ -379,6 +439,7 @@ const TransactionsPage = () => {
       <div className="transactions-info">
         Showing {filteredTransactions.length} of {paginationData.total} transactions
         {blockchainFilter !== 'all' && ` (filtered to ${blockchainFilter} only)`}
+        {finalityFilter !== 'all' && ` (${FINALITY_FILTERS.find(({ value }) => value === finalityFilter)?.label})`}
       </div>
 
       {/* Transaction modal */}
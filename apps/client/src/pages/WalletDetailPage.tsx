@@ -1,7 +1,10 @@
-import { useLoaderData } from "react-router-dom";
+import { useLoaderData, useRevalidator } from "react-router-dom";
 import { useState, useEffect } from "react";
 import TransactionModal from "../components/TransactionModal";
+import StatsChart from "../components/StatsChart";
 import { API_BASE_URL } from "../lib/constants";
+import { cancelQueuedRequest, waitForQueuedRequest } from "../lib/queuedRequest";
+import { balancePoints, fetchWalletHistory, type WalletHistory } from "../lib/wallets";
 import "./WalletDetailPage.css";
 import { usePageTracking } from "../lib/pageTracker";
 
@@ -16,6 +19,10 @@ interface Transaction {
   receiver: string | null;
   status: string;
   raw_payload?: any;
+  // What this wallet sent and received in the transaction, over all of its inputs and outputs
+  address_sent?: string;
+  address_received?: string;
+  balance_change?: string;
 }
 
 interface WalletDetail {
@@ -27,16 +34,34 @@ interface WalletDetail {
   last_seen: string;
   transactions: Transaction[];
   raw_payload: any;
-  error?: boolean;
-  errorMessage?: string;
+  // Set while the server is still fetching a wallet it hasn't seen before
+  pending?: boolean;
+  request_id?: string;
+  estimated_wait_ms?: number;
 }
 
+const HISTORY_RANGES = [
+  { label: "7d", days: 7 },
+  { label: "30d", days: 30 },
+  { label: "90d", days: 90 },
+  { label: "1y", days: 365 },
+];
+
 const WalletDetailPage = () => {
   const wallet = useLoaderData() as WalletDetail;
   // State for transaction modal
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   // State for refresh operation
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Error from the queued lookup of a new wallet
+  const [pendingError, setPendingError] = useState<string | null>(null);
+  // Why a refresh returned stored (stale) data or nothing at all
+  const [refreshNotice, setRefreshNotice] = useState<string | null>(null);
+  const { revalidate } = useRevalidator();
+  // Balance history chart
+  const [historyDays, setHistoryDays] = useState(30);
+  const [history, setHistory] = useState<WalletHistory | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   
   // Track page visit for backend optimization
   useEffect(() => {
@@ -45,21 +70,61 @@ const WalletDetailPage = () => {
     return cleanup;
   }, []);
   
-  // Remove any simulation notices (for a cleaner demo)
+  // Wait for the queued lookup of a new wallet, then reload the stored data
   useEffect(() => {
-    const banners = document.querySelectorAll('.simulation-notice, .simulation-banner');
-    banners.forEach(banner => {
-      if (banner.parentNode) {
-        banner.parentNode.removeChild(banner);
-      }
-    });
-  }, []);
+    if (!wallet?.pending || !wallet.request_id) return;
+    
+    const requestId = wallet.request_id;
+    const controller = new AbortController();
+    let finished = false;
+    setPendingError(null);
+    waitForQueuedRequest(`/wallets/${wallet.address}/status/${requestId}`, { signal: controller.signal })
+      .then(status => {
+        finished = true;
+        if (status.status === 'done') {
+          revalidate();
+        } else {
+          setPendingError(status.error || 'The wallet lookup failed');
+        }
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          setPendingError(error.message);
+        }
+      });
+    
+    return () => {
+      controller.abort();
+      // Leaving the page: don't spend an API slot on a lookup nobody will see
+      if (!finished) cancelQueuedRequest(requestId);
+    };
+  }, [wallet?.address, wallet?.pending, wallet?.request_id, revalidate]);
+  
+  // Load the balance history for the selected range, again whenever a lookup stored new data
+  useEffect(() => {
+    if (wallet.pending) return;
+    
+    let cancelled = false;
+    setHistoryError(null);
+    fetchWalletHistory(wallet.address, historyDays)
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((error) => {
+        console.error("Error loading wallet history:", error);
+        if (!cancelled) setHistoryError("Couldn't load the balance history");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet.address, wallet.pending, wallet.last_seen, historyDays]);
   
   // Function to manually refresh wallet data
   const refreshWallet = async () => {
     if (isRefreshing) return;
     
     setIsRefreshing(true);
+    setRefreshNotice(null);
     
     try {
       // Show a loading notification
@@ -84,11 +149,16 @@ const WalletDetailPage = () => {
       // Remove the notification
       document.body.removeChild(notification);
       
-      if (response.ok) {
+      // The server answers with stored data marked stale, or 503 when it has none,
+      // whenever Blockchair couldn't be reached
+      const body = await response.json().catch(() => null);
+      if (response.ok && body?.data_status !== 'stale') {
         // Reload the page to show refreshed data
         window.location.reload();
       } else {
         setIsRefreshing(false);
+        const retry = body?.retry_after ? ` Try again in ${body.retry_after}s.` : '';
+        setRefreshNotice(`${body?.message || 'The wallet could not be refreshed.'}${retry}`);
       }
     } catch (error) {
       setIsRefreshing(false);
@@ -154,8 +224,7 @@ const WalletDetailPage = () => {
   } else if (wallet.transactions) {
     // Calculate from transactions if raw data not available
     const receivedValue = wallet.transactions
-      .filter(tx => tx.receiver === wallet.address)
-      .reduce((sum, tx) => sum + Number(tx.value), 0);
+      .reduce((sum, tx) => sum + Number(tx.address_received ?? (tx.receiver === wallet.address ? tx.value : 0)), 0);
     totalReceived = formatCryptoValue(receivedValue.toString(), wallet.chain);
   }
   
@@ -164,8 +233,7 @@ const WalletDetailPage = () => {
   } else if (wallet.transactions) {
     // Calculate from transactions if raw data not available
     const sentValue = wallet.transactions
-      .filter(tx => tx.sender === wallet.address)
-      .reduce((sum, tx) => sum + Number(tx.value), 0);
+      .reduce((sum, tx) => sum + Number(tx.address_sent ?? (tx.sender === wallet.address ? tx.value : 0)), 0);
     totalSent = formatCryptoValue(sentValue.toString(), wallet.chain);
   }
   
@@ -203,6 +271,26 @@ const WalletDetailPage = () => {
         </div>
       </div>
       
+      {refreshNotice && (
+        <div className="wallet-api-limited-notice">
+          <p><strong>Showing stored data:</strong> {refreshNotice}</p>
+        </div>
+      )}
+      
+      {wallet.pending && (
+        <div className="wallet-api-limited-notice">
+          {pendingError ? (
+            <p><strong>Could not load this wallet:</strong> {pendingError}</p>
+          ) : (
+            <p>
+              <strong>Fetching wallet data...</strong> This wallet is new to us and has been queued for lookup
+              {wallet.estimated_wait_ms ? ` (about ${Math.ceil(wallet.estimated_wait_ms / 1000)}s)` : ''}.
+              The page updates automatically.
+            </p>
+          )}
+        </div>
+      )}
+      
       <div className="wallet-address-card">
         <h3>Address</h3>
         <div className="wallet-address">
@@ -232,6 +320,32 @@ const WalletDetailPage = () => {
         </div>
       </div>
       
+      {!wallet.pending && (
+        <section className="wallet-history">
+          <div className="wallet-history-header">
+            <h3>Balance History</h3>
+            <div className="wallet-history-ranges">
+              {HISTORY_RANGES.map(({ label, days }) => (
+                <button
+                  key={label}
+                  className={`wallet-history-range-button ${days === historyDays ? "active" : ""}`}
+                  onClick={() => setHistoryDays(days)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {historyError && <div className="wallet-history-error">{historyError}</div>}
+          <StatsChart
+            title={`Balance (${wallet.chain})`}
+            points={history ? balancePoints(history) : []}
+            format={(value) => `${value.toLocaleString(undefined, { maximumFractionDigits: 8 })} ${wallet.chain}`}
+            color={wallet.chain === "BTC" ? "var(--bitcoin-color)" : "var(--ethereum-color)"}
+          />
+        </section>
+      )}
+      
       {transactions && transactions.length > 0 && (
         <div className="wallet-transactions">
           <h3>Recent Transactions</h3>
@@ -1,4 +1,4 @@
-import { createBrowserRouter, redirect } from "react-router-dom";
+import { createBrowserRouter } from "react-router-dom";
 import Layout from "../components/Layout";
 import ErrorPage from "../pages/ErrorPage";
 import HomePage from "../pages/HomePage";
@@ -6,7 +6,13 @@ import TransactionsPage from "../pages/TransactionsPage";
 import WalletsPage from "../pages/WalletsPage";
 import WalletDetailPage from "../pages/WalletDetailPage";
 import SearchPage from "../pages/SearchPage";
+import OperationsPage from "../pages/OperationsPage";
+import PortfolioPage from "../pages/PortfolioPage";
+import { fetchQueueSnapshot } from "../lib/queueAdmin";
+import { fetchPortfolio } from "../lib/portfolio";
 import { API_BASE_URL } from "../lib/constants";
+import { emptyStats, type BlockchainStats } from "../lib/stats";
+import { addWatchedWallet, removeWatchedWallet, updateWatchedWallet, type WatchedWallet } from "../lib/wallets";
 
 export const router = createBrowserRouter([
   {
@@ -23,34 +29,13 @@ export const router = createBrowserRouter([
             if (!response.ok) {
               console.error("Failed to fetch blockchain stats:", response.statusText);
               // Return default values if API fails
-              return {
-                bitcoin_blocks: 0,
-                bitcoin_hashrate: 0,
-                bitcoin_mempool_transactions: 0,
-                bitcoin_market_price_usd: 0,
-                ethereum_blocks: 0,
-                ethereum_hashrate: 0,
-                ethereum_mempool_transactions: 0,
-                ethereum_market_price_usd: 0,
-                timestamp: new Date().toISOString()
-              };
+              return emptyStats();
             }
-            const data = await response.json();
-            return data;
+            return await response.json() as BlockchainStats;
           } catch (error) {
             console.error("Error loading initial stats:", error);
             // Return default values if API fails
-            return {
-              bitcoin_blocks: 0,
-              bitcoin_hashrate: 0,
-              bitcoin_mempool_transactions: 0,
-              bitcoin_market_price_usd: 0,
-              ethereum_blocks: 0,
-              ethereum_hashrate: 0,
-              ethereum_mempool_transactions: 0,
-              ethereum_market_price_usd: 0,
-              timestamp: new Date().toISOString()
-            };
+            return emptyStats();
           }
         }
       },
@@ -80,27 +65,29 @@ export const router = createBrowserRouter([
           if (!response.ok) {
             throw new Response("Failed to fetch wallets", { status: response.status });
           }
-          return await response.json();
+          return await response.json() as WatchedWallet[];
         },
+        // Add (POST), rename (PATCH) and remove (DELETE) watched wallets; errors are shown on the page
         action: async ({ request }) => {
+          const formData = await request.formData();
+          const text = (field: string) => (formData.get(field) as string | null) ?? undefined;
+          
           if (request.method === "POST") {
-            const formData = await request.formData();
-            const address = formData.get("address");
-            const name = formData.get("name");
-            
-            const response = await fetch(`${API_BASE_URL}/wallets`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({ address, name }),
+            const chain = formData.get("chain");
+            return addWatchedWallet({
+              address: text("address") ?? "",
+              chain: chain === "BTC" || chain === "ETH" ? chain : undefined,
+              name: text("name"),
+              notes: text("notes"),
             });
-            
-            if (!response.ok) {
-              throw new Response("Failed to add wallet", { status: response.status });
-            }
-            
-            return redirect("/wallets");
+          }
+          
+          const id = Number(formData.get("id"));
+          if (request.method === "PATCH") {
+            return updateWatchedWallet(id, { name: text("name"), notes: text("notes") });
+          }
+          if (request.method === "DELETE") {
+            return removeWatchedWallet(id);
           }
           
           return null;
@@ -112,170 +99,55 @@ export const router = createBrowserRouter([
         loader: async ({ params }) => {
           // Ensure address is defined, use a fallback if not
           const walletAddress = params.address || 'unknown';
+          const response = await fetch(`${API_BASE_URL}/wallets/${walletAddress}`);
           
-          try {
-            const response = await fetch(`${API_BASE_URL}/wallets/${walletAddress}`);
-            
-            // If the API call succeeds and returns data, use it
-            if (response.ok) {
-              try {
-                const data = await response.json();
-                if (data && data.address) {
-                  return data;
-                }
-                console.warn("API returned success but data is incomplete:", data);
-                // Continue to simulation if data is incomplete
-              } catch (parseError) {
-                console.error("Error parsing wallet data:", parseError);
-                // Return simulation data below
-              }
-            }
-            
-            // If we get here, either the API failed or there was a parsing error
-            // Return a complete simulated wallet for a smooth experience
-            console.log("Creating simulated wallet data for", walletAddress);
-            const isEthereum = walletAddress.startsWith('0x');
-            
-            // Generate more realistic transaction values
-            const txValues = [];
-            let totalReceived = 0;
-            let totalSent = 0;
-            
-            // Generate realistic-looking hashes based on blockchain type
-            const generateRealisticHash = () => {
-              if (isEthereum) {
-                return '0x' + Array(64).fill(0).map(() => 
-                  Math.floor(Math.random() * 16).toString(16)).join('');
-              } else {
-                // Bitcoin transaction hash (hex string)
-                return Array(64).fill(0).map(() => 
-                  Math.floor(Math.random() * 16).toString(16)).join('');
-              }
-            };
-            
-            // Generate realistic-looking addresses based on blockchain type
-            const generateRealisticAddress = () => {
-              if (isEthereum) {
-                return '0x' + Array(40).fill(0).map(() => 
-                  Math.floor(Math.random() * 16).toString(16)).join('');
-              } else {
-                // Start with '1' or 'bc1' for Bitcoin addresses
-                const prefix = Math.random() > 0.5 ? '1' : 'bc1';
-                return prefix + Array(Math.random() > 0.5 ? 33 : 25).fill(0).map(() => 
-                  Math.floor(Math.random() * 16).toString(16)).join('');
-              }
-            };
-            
-            // Generate simulated transactions with realistic values
-            const simulatedTransactions = Array(10).fill(null).map((_, i) => {
-              const isIncoming = i % 2 === 0;
-              
-              // Generate more realistic transaction values (in satoshis/wei)
-              // Bitcoin transactions typically range from 0.001 BTC to 2 BTC for regular users
-              const multiplier = isEthereum ? 1e18 : 1e8; // Convert to satoshis/wei
-              const minValue = 0.001 * multiplier;
-              const maxValue = 2 * multiplier;
-              const randomValueInSatoshis = Math.floor(minValue + Math.random() * (maxValue - minValue));
-              
-              // Track sent/received amounts
-              if (isIncoming) {
-                totalReceived += randomValueInSatoshis;
-              } else {
-                totalSent += randomValueInSatoshis;
-              }
-              
-              // Save for later use
-              txValues.push({
-                value: randomValueInSatoshis,
-                isIncoming
-              });
-              
-              // Create timestamps with decreasing times 
-              const daysAgo = Math.floor(i * 3 + Math.random() * 5);
-              const hoursAgo = Math.floor(Math.random() * 24);
-              const timestamp = new Date();
-              timestamp.setDate(timestamp.getDate() - daysAgo);
-              timestamp.setHours(timestamp.getHours() - hoursAgo);
-              
-              return {
-                hash: generateRealisticHash(),
-                chain: isEthereum ? 'ETH' : 'BTC',
-                block_number: 800000 - i * 100,
-                block_time: timestamp.toISOString(),
-                value: randomValueInSatoshis.toString(),
-                fee: Math.floor(randomValueInSatoshis * 0.0001).toString(),
-                sender: isIncoming ? generateRealisticAddress() : walletAddress,
-                receiver: isIncoming ? walletAddress : generateRealisticAddress(),
-                status: 'confirmed',
-                raw_payload: { 
-                  block_id: 800000 - i * 100,
-                  time: timestamp.toISOString(),
-                  size: Math.floor(Math.random() * 500) + 200,
-                  weight: Math.floor(Math.random() * 1000) + 500,
-                  fee: Math.floor(randomValueInSatoshis * 0.0001)
-                }
-              };
-            });
-            
-            // Calculate current balance (received - sent)
-            const currentBalance = totalReceived - totalSent;
-            
-            // Convert to string with proper units
-            const balanceString = currentBalance.toString();
-            
-            // Return fully-formed simulated wallet data
+          // Not cached yet: the server queued a lookup, the page polls until it is stored
+          if (response.status === 202) {
+            const pending = await response.json();
             return {
-              address: walletAddress,
-              chain: isEthereum ? 'ETH' : 'BTC',
-              balance: balanceString,
-              transaction_count: simulatedTransactions.length,
-              first_seen: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString(),
-              last_seen: new Date().toISOString(),
-              transactions: simulatedTransactions,
-              error: false,
-              raw_payload: {
-                data: {
-                  [walletAddress]: {
-                    address: {
-                      type: isEthereum ? "account" : "p2pkh",
-                      balance: currentBalance,
-                      balance_usd: currentBalance * (isEthereum ? 0.00000003 : 0.00000002),
-                      received: totalReceived,
-                      received_usd: totalReceived * (isEthereum ? 0.00000003 : 0.00000002),
-                      spent: totalSent,
-                      spent_usd: totalSent * (isEthereum ? 0.00000003 : 0.00000002),
-                      output_count: simulatedTransactions.filter(tx => tx.receiver === walletAddress).length,
-                      unspent_output_count: Math.floor(simulatedTransactions.length / 3),
-                      first_seen_receiving: simulatedTransactions.find(tx => tx.receiver === walletAddress)?.block_time,
-                      last_seen_receiving: [...simulatedTransactions].reverse().find(tx => tx.receiver === walletAddress)?.block_time,
-                      first_seen_spending: simulatedTransactions.find(tx => tx.sender === walletAddress)?.block_time,
-                      last_seen_spending: [...simulatedTransactions].reverse().find(tx => tx.sender === walletAddress)?.block_time,
-                      transaction_count: simulatedTransactions.length
-                    },
-                    transactions: simulatedTransactions.map(tx => ({
-                      hash: tx.hash,
-                      time: tx.block_time,
-                      balance_change: tx.receiver === walletAddress ? 
-                        parseInt(tx.value) : -parseInt(tx.value)
-                    }))
-                  }
-                }
-              }
-            };
-          } catch (error) {
-            console.error("Error loading wallet details:", error);
-            
-            // Create an emergency simulated wallet if everything else fails
-            return { 
-              error: true,
-              address: walletAddress,
-              chain: walletAddress.startsWith('0x') ? 'ETH' : 'BTC',
+              address: pending.address,
+              chain: pending.chain,
+              balance: '0',
               transaction_count: 0,
               transactions: [],
-              balance: '0',
-              errorMessage: "An error occurred while fetching wallet data. Please try again later."
+              raw_payload: null,
+              pending: true,
+              request_id: pending.request_id,
+              estimated_wait_ms: pending.estimated_wait_ms
             };
           }
+          
+          // Not a valid address: show the server's reason
+          if (response.status === 400) {
+            const { error } = await response.json();
+            throw new Response(error, { status: 400, statusText: "Invalid address" });
+          }
+          if (!response.ok) {
+            throw new Response("Failed to fetch wallet", { status: response.status });
+          }
+          return await response.json();
+        }
+      },
+      {
+        path: "portfolio",
+        element: <PortfolioPage />,
+        loader: async () => {
+          try {
+            return await fetchPortfolio();
+          } catch (error) {
+            throw new Response(error instanceof Error ? error.message : "Failed to fetch portfolio", { status: 502 });
+          }
+        }
+      },
+      {
+        path: "operations",
+        element: <OperationsPage />,
+        loader: async () => {
+          try {
+            return await fetchQueueSnapshot();
+          } catch (error) {
+            throw new Response(error instanceof Error ? error.message : "Failed to fetch queue", { status: 502 });
+          }
         }
       },
       {
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { changeDirection, formatAllocation, formatChange } from '../../lib/portfolio';
+
+describe('formatChange', () => {
+  it('shows the signed USD change and percentage', () => {
+    expect(formatChange({ start_value_usd: 4800, change_usd: 120, change_percent: 2.5 })).toBe('+$120.00 (+2.5%)');
+    expect(formatChange({ start_value_usd: 54000, change_usd: -18000, change_percent: -33.333 })).toBe('-$18000.00 (-33.3%)');
+  });
+
+  it('leaves out the percentage when starting from nothing', () => {
+    expect(formatChange({ start_value_usd: 0, change_usd: 50, change_percent: null })).toBe('+$50.00');
+    expect(formatChange(null)).toBe('-');
+  });
+});
+
+describe('changeDirection', () => {
+  it('follows the sign of the change', () => {
+    expect(changeDirection({ start_value_usd: 1, change_usd: 1, change_percent: 100 })).toBe('positive');
+    expect(changeDirection({ start_value_usd: 2, change_usd: -1, change_percent: -50 })).toBe('negative');
+    expect(changeDirection({ start_value_usd: 1, change_usd: 0, change_percent: 0 })).toBe('');
+    expect(changeDirection(null)).toBe('');
+  });
+});
+
+describe('formatAllocation', () => {
+  it('shows a percentage', () => {
+    expect(formatAllocation(30000 / 36000)).toBe('83.3%');
+    expect(formatAllocation(null)).toBe('-');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { appendSnapshot, emptyStats, type StatsHistory } from '../../lib/stats';
+
+const history: StatsHistory = {
+  resolution: '1h',
+  from: '2025-05-09T12:00:00.000Z',
+  to: '2025-05-10T12:00:00.000Z',
+  series: {
+    bitcoin_market_price_usd: [
+      { timestamp: '2025-05-09T12:00:00.000Z', min: 100, max: 100, avg: 100, last: 100, samples: 1 },
+      { timestamp: '2025-05-10T12:00:00.000Z', min: 110, max: 130, avg: 120, last: 130, samples: 2 },
+    ],
+  },
+};
+
+describe('appendSnapshot', () => {
+  it('folds a snapshot into the current bucket', () => {
+    const snapshot = { ...emptyStats(), bitcoin_market_price_usd: 90, timestamp: '2025-05-10T12:30:00.000Z' };
+    const [, current] = appendSnapshot(history, snapshot).series.bitcoin_market_price_usd!;
+
+    expect(current).toEqual({ timestamp: '2025-05-10T12:00:00.000Z', min: 90, max: 130, avg: 110, last: 90, samples: 3 });
+  });
+
+  it('starts a new bucket and drops the ones that left the window', () => {
+    const snapshot = { ...emptyStats(), bitcoin_market_price_usd: 140, timestamp: '2025-05-10T13:05:00.000Z' };
+    const updated = appendSnapshot(history, snapshot);
+
+    expect(updated.series.bitcoin_market_price_usd!.map((point) => point.timestamp)).toEqual([
+      '2025-05-10T12:00:00.000Z',
+      '2025-05-10T13:00:00.000Z',
+    ]);
+    expect(updated.to).toBe('2025-05-10T13:05:00.000Z');
+  });
+});
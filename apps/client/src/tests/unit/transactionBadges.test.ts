@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { confirmationBadge } from '../../lib/transactions';
+
+describe('confirmationBadge', () => {
+  it('counts confirmations up to the final level', () => {
+    expect(confirmationBadge('pending', 0)).toEqual({ label: 'Unconfirmed', level: 'pending' });
+    expect(confirmationBadge('confirmed', 1)).toEqual({ label: '1 confirmation', level: 'confirmed' });
+    expect(confirmationBadge('confirmed', 3)).toEqual({ label: '3 confirmations', level: 'confirmed' });
+    expect(confirmationBadge('confirmed', 120)).toEqual({ label: '6+ confirmations', level: 'final' });
+  });
+
+  it('shows the lifecycle status where there is no count', () => {
+    expect(confirmationBadge('confirmed', null)).toEqual({ label: 'Confirmed', level: 'confirmed' });
+    expect(confirmationBadge('dropped', 0)).toEqual({ label: 'Dropped', level: 'dropped' });
+    expect(confirmationBadge('replaced', 0)).toEqual({ label: 'Replaced', level: 'replaced' });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { balancePoints, type WalletHistory } from '../../lib/wallets';
+
+const snapshot = (taken_at: string, balance: string) => ({
+  taken_at,
+  balance,
+  received: balance,
+  spent: '0',
+  transaction_count: 1,
+  balance_usd: null,
+});
+
+describe('balancePoints', () => {
+  it('charts each snapshot balance in coins', () => {
+    const history: WalletHistory = {
+      address: '0x742d35cc6634c0532925a3b844bc454e4438f44e',
+      chain: 'ETH',
+      from: '2025-05-01T00:00:00.000Z',
+      to: '2025-05-10T00:00:00.000Z',
+      snapshots: [
+        snapshot('2025-05-02T00:00:00.000Z', '1500000000000000000'),
+        snapshot('2025-05-03T00:00:00.000Z', '250000000000000000'),
+      ],
+    };
+
+    expect(balancePoints(history)).toEqual([
+      { timestamp: '2025-05-02T00:00:00.000Z', min: 1.5, max: 1.5, avg: 1.5, last: 1.5, samples: 1 },
+      { timestamp: '2025-05-03T00:00:00.000Z', min: 0.25, max: 0.25, avg: 0.25, last: 0.25, samples: 1 },
+      { timestamp: '2025-05-10T00:00:00.000Z', min: 0.25, max: 0.25, avg: 0.25, last: 0.25, samples: 1 },
+    ]);
+  });
+
+  it('starts a snapshot older than the window at the window start', () => {
+    const history: WalletHistory = {
+      address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+      chain: 'BTC',
+      from: '2025-05-01T00:00:00.000Z',
+      to: '2025-05-10T00:00:00.000Z',
+      snapshots: [snapshot('2025-04-20T00:00:00.000Z', '200000000')],
+    };
+
+    expect(balancePoints(history).map(point => [point.timestamp, point.last])).toEqual([
+      ['2025-05-01T00:00:00.000Z', 2],
+      ['2025-05-10T00:00:00.000Z', 2],
+    ]);
+  });
+
+  it('is empty without snapshots', () => {
+    expect(balancePoints({ address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', chain: 'BTC', from: '', to: '', snapshots: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,20 @@
+import express from 'express';
+import { logger } from '../utils/logger.js';
+import { getPortfolio } from '../services/portfolio.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/portfolio
+ * Holdings, allocation, 24h / 7d change and recent activity of all watched wallets - from the database only
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await getPortfolio());
+  } catch (error) {
+    logger.error('Error building portfolio', error);
+    res.status(500).json({ error: 'Failed to build portfolio' });
+  }
+});
+
+export default router;
@@ -0,0 +1,155 @@
+import express from 'express';
+import { logger } from '../utils/logger.js';
+import {
+  blockchairQueue,
+  QUEUE_PRIORITIES,
+  type QueueItemSummary,
+  type QueuePriorityName,
+  type QueueSnapshot,
+  type QueueStatus
+} from '../services/blockchairRequestQueue.js';
+import { notifyClients } from '../services/sseClients.js';
+
+const router = express.Router();
+
+// Push every queue change to the Operations page
+blockchairQueue.subscribe(event => notifyClients('queue', event));
+
+interface PriorityChangeBody {
+  priority: QueuePriorityName;
+}
+
+function isPriorityName(value: unknown): value is QueuePriorityName {
+  return typeof value === 'string' && value in QUEUE_PRIORITIES;
+}
+
+/**
+ * GET /api/queue
+ * Queue status, the items waiting to be sent and the recently finished ones
+ */
+router.get('/', (req, res: express.Response<QueueSnapshot | { error: string }>) => {
+  try {
+    res.json(blockchairQueue.getSnapshot());
+  } catch (error) {
+    logger.error('Error fetching queue snapshot', error);
+    res.status(500).json({ error: 'Failed to fetch queue' });
+  }
+});
+
+/**
+ * GET /api/queue/items
+ * Items in the order they will be sent, starting with the one in flight
+ */
+router.get('/items', (req, res: express.Response<QueueItemSummary[]>) => {
+  res.json(blockchairQueue.listItems());
+});
+
+/**
+ * GET /api/queue/history
+ * Recently finished items, newest first
+ */
+router.get('/history', (req, res: express.Response<QueueItemSummary[]>) => {
+  res.json(blockchairQueue.getHistory());
+});
+
+/**
+ * POST /api/queue/pause
+ * Stop sending requests; queued items keep waiting
+ */
+router.post('/pause', (req, res: express.Response<QueueStatus>) => {
+  blockchairQueue.pause();
+  res.json(blockchairQueue.getStatus());
+});
+
+/**
+ * POST /api/queue/resume
+ * Resume sending requests
+ */
+router.post('/resume', (req, res: express.Response<QueueStatus>) => {
+  blockchairQueue.resume();
+  res.json(blockchairQueue.getStatus());
+});
+
+/**
+ * POST /api/queue/exclusive-mode/exit
+ * Leave exclusive mode, e.g. when the critical request that entered it never came back
+ */
+router.post('/exclusive-mode/exit', (req, res: express.Response<QueueStatus>) => {
+  blockchairQueue.exitExclusiveMode();
+  res.json(blockchairQueue.getStatus());
+});
+
+/**
+ * POST /api/queue/global-pause/clear
+ * Lift the global pause set by user critical requests
+ */
+router.post('/global-pause/clear', (req, res: express.Response<QueueStatus>) => {
+  blockchairQueue.clearGlobalUserPause();
+  res.json(blockchairQueue.getStatus());
+});
+
+/**
+ * GET /api/queue/:requestId
+ * A single queue item
+ */
+router.get('/:requestId', (req, res: express.Response<QueueItemSummary | { error: string }>) => {
+  const item = blockchairQueue.getItem(req.params.requestId);
+  if (!item) {
+    return res.status(404).json({ error: 'Request not found' });
+  }
+  res.json(item);
+});
+
+/**
+ * PATCH /api/queue/:requestId
+ * Move a pending request to another priority: { priority: 'user_critical' | 'critical' | 'user' | 'system' }
+ */
+router.patch('/:requestId', (
+  req: express.Request<{ requestId: string }, unknown, Partial<PriorityChangeBody>>,
+  res: express.Response<QueueItemSummary | { error: string }>
+) => {
+  try {
+    const { requestId } = req.params;
+    const { priority } = req.body;
+    if (!isPriorityName(priority)) {
+      return res.status(400).json({ error: `priority must be one of: ${Object.keys(QUEUE_PRIORITIES).join(', ')}` });
+    }
+
+    const result = blockchairQueue.setPriority(requestId, QUEUE_PRIORITIES[priority]);
+    if (result === 'not_found') {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+    if (result === 'not_pending') {
+      return res.status(409).json({ error: 'Only pending requests can be reprioritized' });
+    }
+    res.json(blockchairQueue.getItem(requestId)!);
+  } catch (error) {
+    logger.error('Error changing queue item priority', error);
+    res.status(500).json({ error: 'Failed to change priority' });
+  }
+});
+
+/**
+ * DELETE /api/queue/:requestId
+ * Cancel a queued Blockchair request, e.g. when the user leaves the page that was waiting for it.
+ * Every caller waiting for the request is rejected; a request already in flight is aborted.
+ */
+router.delete('/:requestId', (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const result = blockchairQueue.cancel(requestId);
+
+    if (result === 'not_found') {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+    if (result === 'finished') {
+      return res.status(409).json({ error: 'Request has already finished', request_id: requestId });
+    }
+    res.json({ request_id: requestId, status: 'cancelled' });
+  } catch (error) {
+    logger.error('Error cancelling queued request', error);
+    res.status(500).json({ error: 'Failed to cancel request' });
+  }
+});
+
+export default router;
@@ -1,10 +1,11 @@
 import express from 'express';
 import { logger } from '../../utils/logger.js';
-import { sseClients } from '../../services/scheduler.js';
+import { sseClients } from '../../services/sseClients.js';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../../db/index.js';
 import { stats } from '../../db/schema/stats.js';
 import { desc } from 'drizzle-orm';
+import { toBlockchainStats } from '../../services/chainDataStore.js';
 
 const router = express.Router();
 
@@ -37,17 +38,9 @@ router.get('/', async (req, res) => {
       .limit(1);
     
     if (latestStats.length > 0) {
-      // Get raw payload which contains the original Blockchair format
-      const rawPayload = latestStats[0].raw_payload;
-      
-      logger.info(`Sending initial stats data to client ${clientId}. Data sample: ${JSON.stringify(latestStats[0].bitcoin_blocks)}`);
-      console.log("Bitcoin blocks:", latestStats[0].bitcoin_blocks);
-      console.log("Raw payload bitcoin blocks:", rawPayload && typeof rawPayload === 'object' ? 
-        (rawPayload as Record<string, any>).data?.bitcoin?.data?.blocks : 'No data');
-      
-      // Send in the format expected by the client
+      logger.info(`Sending initial stats data to client ${clientId}`);
       res.write(`event: stats\n`);
-      res.write(`data: ${JSON.stringify(rawPayload)}\n\n`);
+      res.write(`data: ${JSON.stringify(toBlockchainStats(latestStats[0]))}\n\n`);
     } else {
       logger.warn(`No stats data found to send to client ${clientId}`);
     }
@@ -3,13 +3,15 @@ import { db } from '../db/index.js';
 import { transactions } from '../db/schema/transactions.js';
 import { wallets } from '../db/schema/wallets.js';
 import { logger } from '../utils/logger.js';
+import { involvesAddressLike } from '../services/addressActivity.js';
+import { looksLikeAddress, validateAddress, validateTransactionHash } from '../services/addressValidation.js';
 import { ilike, or, eq, sql } from 'drizzle-orm';
-import { fetchTransactionByHash, fetchWalletByAddress } from '../services/blockchairApi.js';
 
 const router = express.Router();
 
 /**
  * Search for matching wallets or transactions by query
+ * A query shaped like an address must pass validation (400 otherwise); the results carry its chain
  * This endpoint ONLY uses database data, never makes direct API calls
  */
 router.get('/', async (req, res) => {
@@ -20,22 +22,30 @@ router.get('/', async (req, res) => {
       return res.status(400).json({ error: 'Search query is required' });
     }
     
-    // Normalize query
-    const normalizedQuery = query.trim().toLowerCase();
-    
-    // Try to detect query type (transaction hash, wallet address, or general search)
+    // Detect query type (transaction hash, wallet address, or general search)
+    // Base58 addresses are case-sensitive, so only validated input is taken as-is
     let queryType = 'general';
+    let normalizedQuery = query.trim().toLowerCase();
+    let chain: string | null = null;
     
-    // Simple heuristics to detect query type
-    if (normalizedQuery.length > 60) {
-      queryType = 'transaction'; // Likely a transaction hash
-    } else if (normalizedQuery.startsWith('0x') || normalizedQuery.match(/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/)) {
-      queryType = 'wallet'; // Likely an ETH or BTC address
+    const hash = validateTransactionHash(query);
+    const address = validateAddress(query);
+    if ('hash' in hash) {
+      queryType = 'transaction';
+      normalizedQuery = hash.hash;
+      chain = hash.chain;
+    } else if ('address' in address) {
+      queryType = 'wallet';
+      normalizedQuery = address.address;
+      chain = address.chain;
+    } else if (looksLikeAddress(query)) {
+      return res.status(400).json({ error: address.error });
     }
     
     const results: any = {
       type: queryType,
       query: normalizedQuery,
+      chain,
       transactions: [],
       wallets: [],
       data_source: 'database_only' // Flag that we only used cached data
@@ -95,15 +105,10 @@ router.get('/', async (req, res) => {
         results.wallets = walletMatches;
       }
       
-      // Search for transactions with matching sender or receiver
+      // Search for transactions with a matching input or output address
       const transactionMatches = await db.select()
         .from(transactions)
-        .where(
-          or(
-            ilike(transactions.sender as any, `%${normalizedQuery}%`),
-            ilike(transactions.receiver as any, `%${normalizedQuery}%`)
-          )
-        )
+        .where(involvesAddressLike(normalizedQuery))
         .limit(5);
       
       if (transactionMatches.length > 0) {
@@ -1,11 +1,12 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
-import { sseClients } from '../services/scheduler.js';
+import { sseClients } from '../services/sseClients.js';
 import { db } from '../db/index.js';
 import { stats } from '../db/schema/stats.js';
 import { transactions } from '../db/schema/transactions.js';
 import { desc } from 'drizzle-orm';
+import { toBlockchainStats } from '../services/chainDataStore.js';
 
 const router = express.Router();
 
@@ -38,7 +39,7 @@ router.get('/', async (req, res) => {
     
     if (latestStats.length > 0) {
       res.write(`event: stats\n`);
-      res.write(`data: ${JSON.stringify(latestStats[0])}\n\n`);
+      res.write(`data: ${JSON.stringify(toBlockchainStats(latestStats[0]))}\n\n`);
     }
     
     // Fetch latest transactions
@@ -2,10 +2,14 @@ import express from 'express';
 import { db } from '../db/index.js';
 import { stats } from '../db/schema/stats.js';
 import { logger } from '../utils/logger.js';
-import { desc, sql } from 'drizzle-orm';
+import { desc } from 'drizzle-orm';
 import { blockchairQueue } from '../services/blockchairRequestQueue.js';
-import { fetchDashboardStats, getEstimatedWaitTimeForNewRequest, getEstimatedWaitTimeForRequest, getRequestStatus } from '../services/blockchairApi.js';
+import { getEstimatedWaitTimeForNewRequest, getEstimatedWaitTimeForRequest, getRequestStatus } from '../services/blockchairApi.js';
 import { pauseScheduler, resumeScheduler } from '../services/scheduler.js';
+import { getChainDataProvider, type Chain } from '../services/providers/index.js';
+import { toBlockchainStats } from '../services/chainDataStore.js';
+import { getStatsHistory, isStatsMetric, isStatsResolution, STATS_METRICS } from '../services/statsRollups.js';
+import type { StatsMetric } from '../../../shared/stats.js';
 
 const router = express.Router();
 
@@ -28,7 +32,7 @@ router.get('/', async (req, res) => {
     }
     
     // Return from cache only, no API calls
-    res.json(latestStats[0]);
+    res.json(toBlockchainStats(latestStats[0]));
   } catch (error) {
     logger.error('Error fetching stats', error);
     res.status(500).json({ error: 'Failed to fetch stats' });
@@ -50,7 +54,7 @@ router.get('/latest', async (req, res) => {
       return res.status(404).json({ error: 'No stats found' });
     }
     
-    res.json(latestStats[0]);
+    res.json(toBlockchainStats(latestStats[0]));
   } catch (error) {
     logger.error('Error fetching latest stats', error);
     res.status(500).json({ error: 'Failed to fetch latest stats' });
@@ -59,32 +63,31 @@ router.get('/latest', async (req, res) => {
 
 /**
  * GET /api/stats/history
- * Fetch historical stats with optional time range
+ * Metric series from the stats rollups
+ * Query: hours (window, default 24), resolution (1m, 1h or 1d; picked from the window when
+ * omitted, `interval` is accepted too), metrics (comma-separated, default all)
  */
 router.get('/history', async (req, res) => {
   try {
-    const { hours = 24, interval = '1h' } = req.query;
-    
-    // Convert hours to a number
-    const hoursNum = parseInt(hours as string, 10);
-    
-    // Calculate the timestamp for the start of the period
-    const startTime = new Date();
-    startTime.setHours(startTime.getHours() - hoursNum);
-    
-    // Get stats with the specified interval
-    const historicalStats = await db.select({
-      timestamp: stats.timestamp,
-      bitcoin_blocks: stats.bitcoin_blocks,
-      bitcoin_market_price_usd: stats.bitcoin_market_price_usd,
-      ethereum_blocks: stats.ethereum_blocks,
-      ethereum_market_price_usd: stats.ethereum_market_price_usd,
-    })
-    .from(stats)
-    .where(sql`${stats.timestamp} >= ${startTime}`)
-    .orderBy(stats.timestamp);
-    
-    res.json(historicalStats);
+    const hours = parseFloat(req.query.hours as string || '24');
+    if (!Number.isFinite(hours) || hours <= 0) {
+      return res.status(400).json({ error: 'hours must be a positive number' });
+    }
+
+    const resolution = req.query.resolution ?? req.query.interval;
+    if (resolution !== undefined && !isStatsResolution(resolution)) {
+      return res.status(400).json({ error: 'resolution must be one of 1m, 1h, 1d' });
+    }
+
+    const metrics = req.query.metrics ? String(req.query.metrics).split(',').map(metric => metric.trim()) : STATS_METRICS;
+    const unknownMetrics = metrics.filter(metric => !isStatsMetric(metric));
+    if (unknownMetrics.length > 0) {
+      return res.status(400).json({ error: `Unknown metrics: ${unknownMetrics.join(', ')}` });
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+    res.json(await getStatsHistory(from, to, metrics as StatsMetric[], resolution));
   } catch (error) {
     logger.error('Error fetching stats history', error);
     res.status(500).json({ error: 'Failed to fetch stats history' });
@@ -111,7 +114,7 @@ router.get('/queue', (req, res) => {
  */
 router.get('/status/:requestId', async (req, res) => {
   const { requestId } = req.params;
-  const status = getRequestStatus(requestId);
+  const status = await getRequestStatus(requestId);
   if (!status) {
     return res.status(404).json({ error: 'Request not found' });
   }
@@ -131,15 +134,17 @@ router.get('/status/:requestId', async (req, res) => {
 router.post('/refresh', async (req, res) => {
   try {
     logger.info('Manually refreshing blockchain stats with USER CRITICAL priority');
-    // Check if we're within rate limits
     // Instead of waiting, queue the request and return pending status
-    const estimatedWait = getEstimatedWaitTimeForNewRequest();
-    // Queue the request (the actual fetch will be handled by the queue)
-    const requestPromise = fetchDashboardStats();
+    // A new stats row is stored (and pushed over SSE) once the queued request completes
+    const providers = new Set((['bitcoin', 'ethereum'] as Chain[]).map(chain => getChainDataProvider(chain)));
+    const lookups = [...providers].map(provider => provider.queueStatsRefresh({ isUserRequest: true }));
+    const requestId = lookups[0].requestId;
     res.status(202).json({
       status: 'pending',
+      request_id: requestId,
+      status_url: `/api/stats/status/${requestId}`,
       message: 'Stats refresh is being processed. Please poll the status endpoint for updates.',
-      estimated_wait_ms: estimatedWait
+      estimated_wait_ms: getEstimatedWaitTimeForRequest(requestId) ?? getEstimatedWaitTimeForNewRequest()
     });
   } catch (error) {
     logger.error('Error refreshing stats', error);
@@ -2,10 +2,24 @@ import express from 'express';
 import { db } from '../db/index.js';
 import { transactions } from '../db/schema/transactions.js';
 import { logger } from '../utils/logger.js';
-import { desc, eq, sql } from 'drizzle-orm';
-import { fetchTransactionByHash, extractSenderAddress, extractReceiverAddress, getEstimatedWaitTimeForNewRequest, getEstimatedWaitTimeForRequest, getRequestStatus, fetchRecentTransactionsWithTimeFilter } from '../services/blockchairApi.js';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { getEstimatedWaitTimeForNewRequest, getEstimatedWaitTimeForRequest, getRequestStatus } from '../services/blockchairApi.js';
 import { triggerTransactionFetch } from '../services/scheduler.js';
+import { ingestTransactions, type IngestResult } from '../services/chainDataStore.js';
+import { getChainDataProvider, fromChainCode, type Chain } from '../services/providers/index.js';
 import { blockchairQueue } from '../services/blockchairRequestQueue.js';
+import {
+  finalityCondition,
+  getChainTips,
+  hasFinality,
+  isTransactionFinality,
+  TRANSACTION_FINALITIES,
+  withConfirmations,
+} from '../services/confirmations.js';
+import { parseChainCode, validateTransactionHash } from '../services/addressValidation.js';
+
+const INVALID_FINALITY = `finality must be one of ${TRANSACTION_FINALITIES.join(', ')}`;
+const INVALID_CHAIN = 'chain must be BTC or ETH';
 
 const router = express.Router();
 
@@ -48,7 +62,7 @@ router.post('/refresh', async (req, res) => {
  */
 router.post('/refresh-with-timefilter', async (req, res) => {
   try {
-    const { timeMinutes = 15, limit = 20 } = req.body;
+    const { limit = 20 } = req.body;
     logger.info(`Manual transaction refresh with time filter requested by user (limit: ${limit})`);
     
     // Check if we're within rate limits
@@ -64,140 +78,24 @@ router.post('/refresh-with-timefilter', async (req, res) => {
       });
     }
     
-    // First fetch and process Bitcoin transactions
-    const btcTxData = await fetchRecentTransactionsWithTimeFilter('bitcoin', timeMinutes, limit, true);
-    let btcCount = 0;
-    
-    if (btcTxData && btcTxData.data) {
-      // Handle different response formats
-      let txList: any[] = [];
-      
-      if (Array.isArray(btcTxData.data)) {
-        // Direct array format
-        txList = btcTxData.data;
-      } else if (typeof btcTxData.data === 'object') {
-        // Object format with hash keys
-        txList = Object.values(btcTxData.data) as any[];
-      }
-      
-      for (const tx of txList) {
-        if (!tx.hash) continue;
-        
-        // Check if transaction already exists in database
-        const existingTx = await db.select()
-          .from(transactions)
-          .where(eq(transactions.hash, tx.hash))
-          .limit(1);
-          
-        if (existingTx.length === 0) {
-          // Extract sender and receiver addresses
-          let senderAddress = null;
-          let receiverAddress = null;
-          
-          // Check for detailed transaction data
-          if (tx.has_detailed_info) {
-            if (tx.details && tx.details.inputs && Array.isArray(tx.details.inputs) && tx.details.inputs.length > 0) {
-              const senderInput = tx.details.inputs.find((input: any) => input.recipient);
-              senderAddress = senderInput ? senderInput.recipient : null;
-            } else if (Array.isArray(tx.input_addresses) && tx.input_addresses.length > 0) {
-              senderAddress = tx.input_addresses[0];
-            }
-            
-            if (tx.details && tx.details.outputs && Array.isArray(tx.details.outputs) && tx.details.outputs.length > 0) {
-              const receiverOutput = tx.details.outputs.find((output: any) => output.recipient);
-              receiverAddress = receiverOutput ? receiverOutput.recipient : null;
-            } else if (Array.isArray(tx.output_addresses) && tx.output_addresses.length > 0) {
-              receiverAddress = tx.output_addresses[0];
-            }
-          } else {
-            // Try to extract from basic data
-            if (Array.isArray(tx.input_addresses) && tx.input_addresses.length > 0) {
-              senderAddress = tx.input_addresses[0];
-            }
-            
-            if (Array.isArray(tx.output_addresses) && tx.output_addresses.length > 0) {
-              receiverAddress = tx.output_addresses[0];
-            }
-          }
-          
-          // Insert new BTC transaction
-          await db.insert(transactions).values({
-            hash: tx.hash,
-            chain: 'BTC',
-            block_number: tx.block_id || null,
-            block_time: tx.time && !isNaN(tx.time) ? new Date(tx.time * 1000) : new Date(),
-            value: String(tx.output_total || '0'),
-            fee: String(tx.fee || '0'),
-            sender: senderAddress,
-            receiver: receiverAddress,
-            status: tx.block_id ? 'confirmed' : 'pending',
-            raw_payload: tx,
-          });
-          btcCount++;
-        }
-      }
-    }
-    
-    // Check rate limit before fetching Ethereum transactions
-    const timeBeforeEthFetch = blockchairQueue.getTimeUntilNextRequest();
-    if (timeBeforeEthFetch > 0) {
-      logger.info(`Waiting ${Math.round(timeBeforeEthFetch/1000)}s before fetching ETH transactions due to rate limit`);
-      await new Promise(resolve => setTimeout(resolve, timeBeforeEthFetch + 500));
-    }
-    
-    // Then fetch and process Ethereum transactions
-    const ethTxData = await fetchRecentTransactionsWithTimeFilter('ethereum', timeMinutes, limit, true);
-    let ethCount = 0;
+    // Fetch and store new transactions for each chain, one provider call per chain
+    const counts: Record<Chain, IngestResult> = {
+      bitcoin: { inserted: 0, updated: 0 },
+      ethereum: { inserted: 0, updated: 0 },
+    };
     
-    if (ethTxData && ethTxData.data) {
-      // Handle different response formats
-      let txList: any[] = [];
-      
-      if (Array.isArray(ethTxData.data)) {
-        // Direct array format
-        txList = ethTxData.data;
-      } else if (typeof ethTxData.data === 'object') {
-        // Object format with hash keys
-        txList = Object.values(ethTxData.data) as any[];
-      }
-      
-      for (const tx of txList) {
-        if (!tx.hash) continue;
-        
-        // Check if transaction already exists in database
-        const existingTx = await db.select()
-          .from(transactions)
-          .where(eq(transactions.hash, tx.hash))
-          .limit(1);
-          
-        if (existingTx.length === 0) {
-          // Get sender and receiver
-          const sender = tx.sender || null;
-          const receiver = tx.recipient || tx.receiver || null;
-          
-          // Insert new ETH transaction
-          await db.insert(transactions).values({
-            hash: tx.hash,
-            chain: 'ETH',
-            block_number: tx.block_id || null,
-            block_time: tx.time && !isNaN(tx.time) ? new Date(tx.time * 1000) : new Date(),
-            value: String(tx.value || '0'),
-            fee: String(tx.fee || '0'),
-            sender: sender,
-            receiver: receiver,
-            status: tx.block_id ? 'confirmed' : 'pending',
-            raw_payload: tx,
-          });
-          ethCount++;
-        }
-      }
+    for (const chain of ['bitcoin', 'ethereum'] as Chain[]) {
+      const chainTransactions = await getChainDataProvider(chain).getRecentTransactions(chain, limit, { isUserRequest: true });
+      counts[chain] = await ingestTransactions(chainTransactions);
     }
     
     res.json({ 
       success: true, 
       message: 'Transaction refresh completed using optimized method',
-      btc_transactions: btcCount,
-      eth_transactions: ethCount
+      btc_transactions: counts.bitcoin.inserted,
+      eth_transactions: counts.ethereum.inserted,
+      btc_updated: counts.bitcoin.updated,
+      eth_updated: counts.ethereum.updated
     });
   } catch (error) {
     logger.error('Error triggering time-filtered transaction refresh', error);
@@ -207,12 +105,20 @@ router.post('/refresh-with-timefilter', async (req, res) => {
 
 /**
  * GET /api/transactions
- * Fetch recent transactions with pagination
+ * Fetch recent transactions with pagination, each with its confirmation count
+ * Query: chain (BTC or ETH), finality (unconfirmed, confirmed = 1+ or final = 6+ confirmations)
  * This always returns data from the database, never makes API calls
  */
 router.get('/', async (req, res) => {
   try {
-    const { page = '1', limit = '20', chain, sortOrder = 'desc' } = req.query;
+    const { page = '1', limit = '20', finality, sortOrder = 'desc' } = req.query;
+    if (finality !== undefined && !isTransactionFinality(finality)) {
+      return res.status(400).json({ error: INVALID_FINALITY });
+    }
+    const chain = parseChainCode(req.query.chain);
+    if (chain === null) {
+      return res.status(400).json({ error: INVALID_CHAIN });
+    }
     
     // Convert page and limit to numbers
     const pageNum = parseInt(page as string, 10);
@@ -222,37 +128,31 @@ router.get('/', async (req, res) => {
     // Determine sort direction
     const sortDirection = (sortOrder as string).toLowerCase() === 'asc' ? 'asc' : 'desc';
     
-    // Build base query
-    const baseQuery = db.select().from(transactions);
-    
-    // Execute query with pagination and optional chain filter
-    const recentTransactions = await (chain 
-      ? baseQuery
-          .where(eq(transactions.chain, chain as string))
-          .orderBy(sortDirection === 'desc' ? desc(transactions.block_time) : transactions.block_time)
-          .limit(limitNum)
-          .offset(offset)
-      : baseQuery
-          .orderBy(sortDirection === 'desc' ? desc(transactions.block_time) : transactions.block_time)
-          .limit(limitNum)
-          .offset(offset)
+    // Optional chain and finality filters
+    const tips = await getChainTips();
+    const filter = and(
+      chain ? eq(transactions.chain, chain) : undefined,
+      finality ? finalityCondition(finality, tips) : undefined
     );
     
-    // Get total count for pagination - adjust for chain filter if present
-    const countQuery = chain
-      ? db.select({ count: sql`COUNT(*)` })
-          .from(transactions)
-          .where(eq(transactions.chain, chain as string))
-      : db.select({ count: sql`COUNT(*)` })
-          .from(transactions);
+    // Execute query with pagination and filters
+    const recentTransactions = await db.select()
+      .from(transactions)
+      .where(filter)
+      .orderBy(sortDirection === 'desc' ? desc(transactions.block_time) : transactions.block_time)
+      .limit(limitNum)
+      .offset(offset);
     
-    const countResult = await countQuery;
+    // Get total count for pagination - adjusted for the filters
+    const countResult = await db.select({ count: sql`COUNT(*)` })
+      .from(transactions)
+      .where(filter);
     const total = parseInt(countResult[0].count as string, 10);
     
-    logger.debug(`Returning ${recentTransactions.length} transactions from database (page ${pageNum}${chain ? `, filtered to ${chain}` : ''})`);
+    logger.debug(`Returning ${recentTransactions.length} transactions from database (page ${pageNum}${chain ? `, filtered to ${chain}` : ''}${finality ? `, ${finality}` : ''})`);
     
     res.json({
-      data: recentTransactions,
+      data: withConfirmations(recentTransactions, tips),
       pagination: {
         total,
         page: pageNum,
@@ -268,12 +168,20 @@ router.get('/', async (req, res) => {
 
 /**
  * GET /api/transactions/recent
- * Fetch the most recent transactions
+ * Fetch the most recent transactions, each with its confirmation count
+ * Query: finality (unconfirmed, confirmed or final)
  */
 router.get('/recent', async (req, res) => {
   try {
+    const { finality } = req.query;
+    if (finality !== undefined && !isTransactionFinality(finality)) {
+      return res.status(400).json({ error: INVALID_FINALITY });
+    }
+    
+    const tips = await getChainTips();
     const recentTransactions = await db.select()
       .from(transactions)
+      .where(finality ? finalityCondition(finality, tips) : undefined)
       .orderBy(desc(transactions.block_time))
       .limit(20);
     
@@ -283,36 +191,28 @@ router.get('/recent', async (req, res) => {
         // If transaction is missing sender or receiver, fetch more details
         if (!tx.sender || !tx.receiver) {
           try {
-            // Determine chain type for API call
-            const chainType = tx.chain === 'BTC' ? 'bitcoin' : 'ethereum';
+            const chain = fromChainCode(tx.chain);
             
             // Fetch detailed transaction information
-            const txData = await fetchTransactionByHash(chainType, tx.hash);
+            const detailedTx = await getChainDataProvider(chain).getTransaction(chain, tx.hash);
             
-            if (txData && txData.data && txData.data[tx.hash]) {
-              const detailedTx = txData.data[tx.hash];
-              
-              // Extract sender and receiver using helper functions
-              if (!tx.sender) {
-                tx.sender = extractSenderAddress(detailedTx, chainType);
+            if (detailedTx) {
+              if (!tx.sender && detailedTx.sender) {
+                tx.sender = detailedTx.sender;
                 
                 // Also update in database for future queries
-                if (tx.sender) {
-                  await db.update(transactions)
-                    .set({ sender: tx.sender })
-                    .where(eq(transactions.hash, tx.hash));
-                }
+                await db.update(transactions)
+                  .set({ sender: tx.sender })
+                  .where(eq(transactions.hash, tx.hash));
               }
               
-              if (!tx.receiver) {
-                tx.receiver = extractReceiverAddress(detailedTx, chainType);
+              if (!tx.receiver && detailedTx.receiver) {
+                tx.receiver = detailedTx.receiver;
                 
                 // Also update in database for future queries
-                if (tx.receiver) {
-                  await db.update(transactions)
-                    .set({ receiver: tx.receiver })
-                    .where(eq(transactions.hash, tx.hash));
-                }
+                await db.update(transactions)
+                  .set({ receiver: tx.receiver })
+                  .where(eq(transactions.hash, tx.hash));
               }
             }
           } catch (error) {
@@ -325,7 +225,7 @@ router.get('/recent', async (req, res) => {
       })
     );
     
-    res.json(updatedTransactions);
+    res.json(withConfirmations(updatedTransactions, tips));
   } catch (error) {
     logger.error('Error fetching recent transactions', error);
     res.status(500).json({ error: 'Failed to fetch recent transactions' });
@@ -336,10 +236,14 @@ router.get('/recent', async (req, res) => {
  * GET /api/transactions/from-database
  * Fetch the latest transactions from the database without making external API calls
  * This is used to refresh the UI with the latest data that already exists in the database
+ * Query: finality (unconfirmed, confirmed or final)
  */
 router.get('/from-database', async (req, res) => {
   try {
-    const { page = '1', limit = '20', sortOrder = 'desc' } = req.query;
+    const { page = '1', limit = '20', finality, sortOrder = 'desc' } = req.query;
+    if (finality !== undefined && !isTransactionFinality(finality)) {
+      return res.status(400).json({ error: INVALID_FINALITY });
+    }
     
     // Convert page and limit to numbers
     const pageNum = parseInt(page as string, 10);
@@ -350,22 +254,26 @@ router.get('/from-database', async (req, res) => {
     const sortDirection = (sortOrder as string).toLowerCase() === 'asc' ? 'asc' : 'desc';
     
     // Just fetch the latest data from database, no API calls
+    const tips = await getChainTips();
+    const filter = finality ? finalityCondition(finality, tips) : undefined;
     const recentTransactions = await db.select()
       .from(transactions)
+      .where(filter)
       .orderBy(sortDirection === 'desc' ? desc(transactions.block_time) : transactions.block_time)
       .limit(limitNum)
       .offset(offset);
     
     // Get total count for pagination
     const countResult = await db.select({ count: sql`COUNT(*)` })
-      .from(transactions);
+      .from(transactions)
+      .where(filter);
     
     const total = parseInt(countResult[0].count as string, 10);
     
     logger.info(`Returning ${recentTransactions.length} transactions from database (no API calls)`);
     
     res.json({
-      data: recentTransactions,
+      data: withConfirmations(recentTransactions, tips),
       pagination: {
         total,
         page: pageNum,
@@ -386,7 +294,7 @@ router.get('/from-database', async (req, res) => {
  */
 router.get('/status/:requestId', async (req, res) => {
   const { requestId } = req.params;
-  const status = getRequestStatus(requestId);
+  const status = await getRequestStatus(requestId);
   if (!status) {
     return res.status(404).json({ error: 'Request not found' });
   }
@@ -400,17 +308,31 @@ router.get('/status/:requestId', async (req, res) => {
 
 /**
  * GET /api/transactions/:hash
- * Fetch a specific transaction by hash
+ * Fetch a specific transaction by hash, with its confirmation count
+ * Query: chain (BTC or ETH, needed for an Ethereum hash without its 0x prefix),
+ * finality (unconfirmed, confirmed or final); a stored transaction below it answers 404
  * This must be the last route defined to avoid capturing other endpoints
  */
 router.get('/:hash', async (req, res) => {
   try {
-    const { hash } = req.params;
+    const { finality } = req.query;
+    if (finality !== undefined && !isTransactionFinality(finality)) {
+      return res.status(400).json({ error: INVALID_FINALITY });
+    }
+    const requestedChain = parseChainCode(req.query.chain);
+    if (requestedChain === null) {
+      return res.status(400).json({ error: INVALID_CHAIN });
+    }
     
     // Make sure this isn't trying to access another endpoint
-    if (['refresh', 'recent', 'from-database', 'status'].includes(hash)) {
+    if (['refresh', 'recent', 'from-database', 'status'].includes(req.params.hash)) {
       return res.status(404).json({ error: 'Invalid transaction hash' });
     }
+    const validated = validateTransactionHash(req.params.hash, requestedChain);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { hash } = validated;
     
     // First check our database
     const existingTx = await db.select()
@@ -418,17 +340,24 @@ router.get('/:hash', async (req, res) => {
       .where(eq(transactions.hash, hash))
       .limit(1);
     if (existingTx.length > 0) {
-      return res.json(existingTx[0]);
+      const [tx] = withConfirmations(existingTx, await getChainTips());
+      if (finality && !hasFinality(tx.confirmations, finality)) {
+        return res.status(404).json({ error: `Transaction is not ${finality}`, confirmations: tx.confirmations });
+      }
+      return res.json(tx);
     }
     // If not in database, queue a request and return pending status
-    // Determine chain type for API call
-    const chain = hash.length >= 64 ? 'ethereum' : 'bitcoin';
-    const requestPromise = fetchTransactionByHash(chain, hash);
-    const estimatedWait = getEstimatedWaitTimeForNewRequest();
+    // The transaction row is written once the queued request completes
+    const chain = fromChainCode(validated.chain);
+    const lookup = getChainDataProvider(chain).queueTransactionLookup(chain, hash, { isUserRequest: true });
     res.status(202).json({
       status: 'pending',
+      hash,
+      chain: validated.chain,
+      request_id: lookup.requestId,
+      status_url: `/api/transactions/status/${lookup.requestId}`,
       message: 'Transaction data is being fetched from Blockchair. Please poll the status endpoint for updates.',
-      estimated_wait_ms: estimatedWait
+      estimated_wait_ms: getEstimatedWaitTimeForRequest(lookup.requestId) ?? getEstimatedWaitTimeForNewRequest()
     });
   } catch (error) {
     logger.error(`Error fetching transaction ${req.params.hash}`, error);
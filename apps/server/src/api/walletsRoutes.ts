@@ -3,16 +3,27 @@ import { db } from '../db/index.js';
 import { wallets } from '../db/schema/wallets.js';
 import { transactions } from '../db/schema/transactions.js';
 import { logger } from '../utils/logger.js';
-import { desc, eq, or } from 'drizzle-orm';
+import { desc, eq } from 'drizzle-orm';
 import { 
-  fetchWalletByAddress, 
-  fetchWalletByAddressUserCritical,
   getEstimatedWaitTimeForNewRequest,
   getEstimatedWaitTimeForRequest,
   getRequestStatus
 } from '../services/blockchairApi.js';
 import { pauseScheduler, resumeScheduler } from '../services/scheduler.js';
 import { blockchairQueue } from '../services/blockchairRequestQueue.js';
+import { fromChainCode, getChainDataProvider, type Chain } from '../services/providers/index.js';
+import { storeAddressSummary } from '../services/chainDataStore.js';
+import { involvesAddress, withAddressFlows } from '../services/addressActivity.js';
+import { classifyRequestError, RETRYABLE_STATUSES } from '../services/requestErrors.js';
+import {
+  addWatchedWallet,
+  listWatchedWallets,
+  removeWatchedWallet,
+  updateWatchedWallet,
+} from '../services/watchlist.js';
+import { parseChainCode, validateAddress } from '../services/addressValidation.js';
+import { getWalletHistory } from '../services/walletHistory.js';
+import { decodeCursor, getWalletTransactions } from '../services/walletTransactions.js';
 
 const router = express.Router();
 
@@ -20,55 +31,23 @@ const router = express.Router();
 const CACHE_REFRESH_THRESHOLD = 15 * 60 * 1000; // 15 minutes
 const FAILED_REFRESH_COOLDOWN = 5 * 60 * 1000;  // 5 minutes
 
+// Largest page of GET /api/wallets/:address/transactions
+const MAX_TRANSACTIONS_PAGE_SIZE = 100;
+// Longest balance history window, the wallet page's 1y range
+const MAX_HISTORY_DAYS = 365;
+
 // Track recent failed refreshes to avoid redundant API calls
 const recentFailedRefreshes = new Map<string, number>();
 
-// Helper function to determine blockchain type based on address format
-function getChainType(address: string): 'ethereum' | 'bitcoin' {
-  return address.startsWith('0x') ? 'ethereum' : 'bitcoin';
-}
-
-// Helper function to get chain code
-function getChainCode(chainType: 'ethereum' | 'bitcoin'): string {
-  return chainType === 'bitcoin' ? 'BTC' : 'ETH';
-}
-
-// Helper function to fetch related transactions
+// Helper function to fetch related transactions (any input or output of the address),
+// with what the address sent and received in each
 async function getRelatedTransactions(address: string, limit = 20) {
-  return db.select()
+  const related = await db.select()
     .from(transactions)
-    .where(
-      or(
-        eq(transactions.sender, address),
-        eq(transactions.receiver, address)
-      )
-    )
+    .where(involvesAddress(address))
     .orderBy(desc(transactions.block_time))
     .limit(limit);
-}
-
-// Helper function to update wallet in database from API data
-async function updateWalletFromApiData(address: string, walletData: any, firstSeen?: Date) {
-  if (!walletData?.data) return null;
-  
-  const walletDetails = Object.values(walletData.data)[0] as any;
-  const chainType = getChainType(address);
-  
-  const walletRecord = {
-    address,
-    chain: getChainCode(chainType),
-    first_seen: firstSeen || new Date(),
-    last_seen: new Date(),
-    balance: String(walletDetails.address?.balance || '0'),
-    transaction_count: walletDetails.address?.transaction_count || 0,
-    raw_payload: walletData
-  };
-  
-  await db.update(wallets)
-    .set(walletRecord)
-    .where(eq(wallets.address, address));
-    
-  return walletRecord;
+  return withAddressFlows(address, related);
 }
 
 // Helper function to check if wallet data needs a refresh
@@ -93,7 +72,7 @@ function needsRefresh(wallet: any): boolean {
 }
 
 // Helper function to update wallet in background
-async function backgroundRefreshWallet(address: string, priority = 'low') {
+async function backgroundRefreshWallet(address: string, chainType: Chain, priority = 'low') {
   try {
     // Skip refresh if this address recently failed
     const lastFailedTime = recentFailedRefreshes.get(address);
@@ -102,22 +81,11 @@ async function backgroundRefreshWallet(address: string, priority = 'low') {
       return false;
     }
     
-    const chainType = getChainType(address);
     const isLowPriority = priority === 'low';
-    const freshData = await fetchWalletByAddress(chainType, address, isLowPriority);
+    const summary = await getChainDataProvider(chainType).getAddress(chainType, address, { isUserRequest: isLowPriority });
     
-    if (freshData?.data) {
-      const walletDetails = Object.values(freshData.data)[0] as any;
-      
-      await db.update(wallets)
-        .set({
-          balance: String(walletDetails.address?.balance || '0'),
-          transaction_count: walletDetails.address?.transaction_count || 0,
-          last_seen: new Date(),
-          raw_payload: freshData
-        })
-        .where(eq(wallets.address, address));
-        
+    if (summary) {
+      await storeAddressSummary(summary);
       logger.info(`Background ${priority} refresh successful for ${address}`);
       
       // Clear from failed refreshes if present
@@ -134,56 +102,185 @@ async function backgroundRefreshWallet(address: string, priority = 'low') {
   }
 }
 
-// Helper for creating a basic wallet from transaction data
-async function createBasicWalletFromTransactions(address: string, walletTxs: any[]) {
-  if (walletTxs.length === 0) return null;
-  
-  const basicWallet = {
-    address,
-    chain: walletTxs[0].chain,
-    first_seen: new Date(),
-    last_seen: new Date(),
-    balance: "0", // Default as we don't know exact balance
-    transaction_count: String(walletTxs.length),
-    raw_payload: { info: "Created from transactions", transactions: walletTxs }
-  };
-  
-  try {
-    await db.insert(wallets).values(basicWallet);
-    logger.info(`Basic wallet record created for ${address}`);
-  } catch (dbError) {
-    logger.error(`Error saving basic wallet data for ${address}`, dbError);
+type StaleReason = 'rate_limited' | 'api_error';
+
+/**
+ * Answer a refresh that couldn't get fresh data: the stored wallet marked stale, or 503
+ * when we have none. Balances are never made up, only Blockchair's answers are stored.
+ */
+function sendStaleWallet(
+  res: express.Response,
+  wallet: typeof wallets.$inferSelect | undefined,
+  relatedTransactions: Awaited<ReturnType<typeof getRelatedTransactions>>,
+  reason: StaleReason,
+  message: string,
+  retryAfter: number
+) {
+  res.set('Retry-After', String(retryAfter));
+  if (wallet) {
+    return res.json({
+      ...wallet,
+      transactions: relatedTransactions,
+      data_status: 'stale',
+      stale_reason: reason,
+      success: false,
+      message,
+      retry_after: retryAfter
+    });
   }
-  
-  return {
-    ...basicWallet,
-    transactions: walletTxs,
-    api_fetched: false,
-    from_transactions: true
-  };
+  return res.status(503).json({
+    error: 'Wallet data unavailable',
+    data_status: 'unavailable',
+    stale_reason: reason,
+    success: false,
+    message,
+    transactions: relatedTransactions,
+    retry_after: retryAfter
+  });
 }
 
 // Helper to execute critical wallet fetch with proper cleanup
-async function fetchWalletWithCriticalPriority(address: string) {
-  const chainType = getChainType(address);
-  
+async function fetchWalletWithCriticalPriority(address: string, chainType: Chain) {
   try {
     pauseScheduler();
-    const walletData = await fetchWalletByAddressUserCritical(chainType, address);
-    return walletData;
+    return await getChainDataProvider(chainType).getAddress(chainType, address, { isUserRequest: true, critical: true });
   } finally {
     // Always resume scheduler whether successful or not
     resumeScheduler();
   }
 }
 
+// Optional text field of a request body: a string, null or left out
+function isOptionalText(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+// Trimmed text, with empty text stored as null
+function cleanText(value: string | null | undefined): string | null | undefined {
+  return typeof value === 'string' ? value.trim() || null : value;
+}
+
+function parseWalletId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * GET /api/wallets
+ * List the watched wallets with their cached balances
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listWatchedWallets());
+  } catch (error) {
+    logger.error('Error listing watched wallets', error);
+    res.status(500).json({ error: 'Failed to list wallets' });
+  }
+});
+
+/**
+ * POST /api/wallets
+ * Add a wallet to the watchlist: { address, chain?, name?, notes? }
+ * Its data is fetched through the queue; poll status_url or list the wallets again
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { address, chain, name, notes } = req.body ?? {};
+    if (typeof address !== 'string' || !address.trim()) {
+      return res.status(400).json({ error: 'address is required' });
+    }
+    if (!isOptionalText(name) || !isOptionalText(notes)) {
+      return res.status(400).json({ error: 'name and notes must be text' });
+    }
+    const requestedChain = parseChainCode(chain);
+    if (requestedChain === null) {
+      return res.status(400).json({ error: 'chain must be BTC or ETH' });
+    }
+    const validated = validateAddress(address, requestedChain);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const added = await addWatchedWallet({
+      ...validated,
+      name: cleanText(name) ?? null,
+      notes: cleanText(notes) ?? null,
+    });
+    if (!added) {
+      return res.status(409).json({ error: 'Wallet is already on the watchlist' });
+    }
+    res.status(201).json({
+      ...added.wallet,
+      request_id: added.requestId,
+      status_url: `/api/wallets/${added.wallet.address}/status/${added.requestId}`,
+    });
+  } catch (error) {
+    logger.error('Error adding watched wallet', error);
+    res.status(500).json({ error: 'Failed to add wallet' });
+  }
+});
+
+/**
+ * PATCH /api/wallets/:id
+ * Rename a watched wallet or change its notes: { name?, notes? }
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const id = parseWalletId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid wallet id' });
+    }
+    const { name, notes } = req.body ?? {};
+    if (!isOptionalText(name) || !isOptionalText(notes)) {
+      return res.status(400).json({ error: 'name and notes must be text' });
+    }
+    if (name === undefined && notes === undefined) {
+      return res.status(400).json({ error: 'Nothing to update, send name and/or notes' });
+    }
+
+    const wallet = await updateWatchedWallet(id, { name: cleanText(name), notes: cleanText(notes) });
+    if (!wallet) {
+      return res.status(404).json({ error: 'Wallet not found' });
+    }
+    res.json(wallet);
+  } catch (error) {
+    logger.error(`Error updating watched wallet ${req.params.id}`, error);
+    res.status(500).json({ error: 'Failed to update wallet' });
+  }
+});
+
+/**
+ * DELETE /api/wallets/:id
+ * Remove a wallet from the watchlist (its cached data and transactions stay)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const id = parseWalletId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid wallet id' });
+    }
+    if (!await removeWatchedWallet(id)) {
+      return res.status(404).json({ error: 'Wallet not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    logger.error(`Error removing watched wallet ${req.params.id}`, error);
+    res.status(500).json({ error: 'Failed to remove wallet' });
+  }
+});
+
 /**
  * GET /api/wallets/:address
  * Fetch wallet information by address, return cache immediately but try to refresh in background
  */
 router.get('/:address', async (req, res) => {
   try {
-    const { address } = req.params;
+    const validated = validateAddress(req.params.address);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { address } = validated;
+    const chainType = fromChainCode(validated.chain);
     logger.info(`Wallet information requested for ${address}`);
     
     // Get cached wallet if it exists
@@ -213,7 +310,7 @@ router.get('/:address', async (req, res) => {
       
       // Conditionally attempt background refresh based on data freshness and failure history
       if (needsRefresh(existingWallet[0])) {
-        backgroundRefreshWallet(address, 'low')
+        backgroundRefreshWallet(address, chainType, 'low')
           .catch(err => logger.debug(`Background refresh error: ${err.message}`));
       }
       
@@ -221,33 +318,89 @@ router.get('/:address', async (req, res) => {
     }
     
     // CASE 2: Wallet not in cache - queue a request and return pending status
+    // The wallet row is written once the queued request completes
     logger.info(`Wallet ${address} not found in database - queueing fetch from API`);
-    const chainType = getChainType(address);
-    const requestPromise = fetchWalletByAddress(chainType, address, true);
-    // Get the estimated wait time for this request
-    const estimatedWait = getEstimatedWaitTimeForNewRequest();
-    // Generate a request ID for status polling
-    // (The queue will assign a unique ID, but we can't get it synchronously here; so we recommend polling the status endpoint for updates)
+    const lookup = getChainDataProvider(chainType).queueAddressLookup(chainType, address, { isUserRequest: true });
     res.status(202).json({
       status: 'pending',
+      address,
+      chain: validated.chain,
+      request_id: lookup.requestId,
+      status_url: `/api/wallets/${address}/status/${lookup.requestId}`,
       message: 'Wallet data is being fetched from Blockchair. Please poll the status endpoint for updates.',
-      estimated_wait_ms: estimatedWait
+      estimated_wait_ms: getEstimatedWaitTimeForRequest(lookup.requestId) ?? getEstimatedWaitTimeForNewRequest()
     });
-    // Optionally, you could store the request ID in a DB or cache for the client to poll
-    // (For now, the client can poll /api/wallets/:address/status/:requestId)
   } catch (error) {
     logger.error(`Error fetching wallet ${req.params.address}`, error);
     res.status(500).json({ error: 'Failed to fetch wallet information' });
   }
 });
 
+/**
+ * GET /api/wallets/:address/history
+ * Balance snapshots of an address, one per stored lookup (unchanged ones thinned out)
+ * Query: days (window, default 30, at most 365)
+ */
+router.get('/:address/history', async (req, res) => {
+  try {
+    const validated = validateAddress(req.params.address);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const days = parseFloat(req.query.days as string || '30');
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_HISTORY_DAYS) {
+      return res.status(400).json({ error: `days must be a positive number up to ${MAX_HISTORY_DAYS}` });
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    res.json(await getWalletHistory(validated.address, validated.chain, from, to));
+  } catch (error) {
+    logger.error(`Error fetching wallet history for ${req.params.address}`, error);
+    res.status(500).json({ error: 'Failed to fetch wallet history' });
+  }
+});
+
+/**
+ * GET /api/wallets/:address/transactions
+ * The wallet's transactions with their net balance change, newest first, from our stored
+ * transactions and the address history cached from Blockchair
+ * Query: limit (1-100, default 25), cursor (next_cursor of the previous page)
+ * When the cached history falls short a fetch is queued; poll status_url and ask again
+ */
+router.get('/:address/transactions', async (req, res) => {
+  try {
+    const validated = validateAddress(req.params.address);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const limit = parseInt(req.query.limit as string || '25', 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRANSACTIONS_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_TRANSACTIONS_PAGE_SIZE}` });
+    }
+    const cursor = req.query.cursor ? decodeCursor(String(req.query.cursor)) : null;
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    res.json(await getWalletTransactions(validated.address, validated.chain, limit, cursor));
+  } catch (error) {
+    logger.error(`Error fetching wallet transactions for ${req.params.address}`, error);
+    res.status(500).json({ error: 'Failed to fetch wallet transactions' });
+  }
+});
+
 /**
  * POST /api/wallets/:address/label
  * Add a label to a wallet
  */
 router.post('/:address/label', async (req, res) => {
   try {
-    const { address } = req.params;
+    const validated = validateAddress(req.params.address);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { address } = validated;
     const { label } = req.body;
     
     if (!label) {
@@ -278,12 +431,17 @@ router.post('/:address/label', async (req, res) => {
 
 /**
  * POST /api/wallets/:address/refresh
- * Force refresh wallet data with absolute top priority, falls back to cache if API fails
+ * Force refresh wallet data with absolute top priority. If the API can't be reached the stored
+ * wallet is returned with data_status 'stale', or 503 with data_status 'unavailable' without one.
  * Strictly respects the free tier rate limit of 1 request per minute
  */
 router.post('/:address/refresh', async (req, res) => {
   try {
-    const { address } = req.params;
+    const validated = validateAddress(req.params.address);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+    const { address } = validated;
     logger.info(`Manual wallet refresh requested for ${address} with TOP PRIORITY`);
     
     // Get cached data for fallback
@@ -298,43 +456,10 @@ router.post('/:address/refresh', async (req, res) => {
     // Check if we're within rate limits first
     const timeUntilNextAllowed = blockchairQueue.getTimeUntilNextRequest();
     if (timeUntilNextAllowed > 0) {
-      logger.warn(`Manual wallet refresh requested for ${address} but within rate limit cooldown (${Math.round(timeUntilNextAllowed/1000)}s remaining)`);
-      
-      // Return cached data with rate limit explanation
-      if (existingWallet.length > 0) {
-        return res.json({
-          ...existingWallet[0],
-          transactions: relatedTransactions,
-          using_cached_data: true,
-          rate_limited: true,
-          success: false,
-          message: `Using cached data due to rate limit. Next API request allowed in ${Math.round(timeUntilNextAllowed/1000)} seconds.`,
-          time_until_next_allowed: Math.round(timeUntilNextAllowed/1000)
-        });
-      }
-      
-      // If no cached wallet data but we have transactions, create a basic record from transactions
-      if (relatedTransactions.length > 0) {
-        const basicWallet = await createBasicWalletFromTransactions(address, relatedTransactions);
-        
-        if (basicWallet) {
-          return res.json({
-            ...basicWallet,
-            rate_limited: true,
-            success: false,
-            message: `Using derived wallet data from transactions due to API rate limits. Next API request allowed in ${Math.round(timeUntilNextAllowed/1000)} seconds.`,
-            time_until_next_allowed: Math.round(timeUntilNextAllowed/1000)
-          });
-        }
-      }
-      
-      // No data at all, return informative error
-      return res.status(429).json({
-        error: 'Rate limited',
-        message: `API rate limit in effect. Please try again in ${Math.round(timeUntilNextAllowed/1000)} seconds.`,
-        time_until_next_allowed: Math.round(timeUntilNextAllowed/1000),
-        success: false
-      });
+      const retryAfter = Math.ceil(timeUntilNextAllowed / 1000);
+      logger.warn(`Manual wallet refresh requested for ${address} but within rate limit cooldown (${retryAfter}s remaining)`);
+      return sendStaleWallet(res, existingWallet[0], relatedTransactions, 'rate_limited',
+        `API rate limit in effect. Next API request allowed in ${retryAfter} seconds.`, retryAfter);
     }
     
     // Check if this address has recently failed within a shorter window (30 seconds)
@@ -342,57 +467,29 @@ router.post('/:address/refresh', async (req, res) => {
     const lastFailedTime = recentFailedRefreshes.get(address);
     const shortCooldown = 30 * 1000; // 30 seconds for manual refresh attempts
     
-    if (lastFailedTime && Date.now() - lastFailedTime < shortCooldown) {
+    if (lastFailedTime && Date.now() - lastFailedTime < shortCooldown && existingWallet.length > 0) {
       logger.info(`Skipping user-initiated refresh for ${address} due to very recent failure (${Math.round((Date.now() - lastFailedTime)/1000)}s ago)`);
-      
-      // Return cached data with rate limit explanation
-      if (existingWallet.length > 0) {
-        return res.json({
-          ...existingWallet[0],
-          transactions: relatedTransactions,
-          using_cached_data: true,
-          api_limited: true,
-          error_message: "Using cached wallet data due to recent API failures",
-          success: false,
-          error: "Recent API failures detected",
-          retry_after: Math.round((shortCooldown - (Date.now() - lastFailedTime))/1000)
-        });
-      }
+      return sendStaleWallet(res, existingWallet[0], relatedTransactions, 'api_error',
+        'Using stored wallet data due to recent API failures.',
+        Math.ceil((shortCooldown - (Date.now() - lastFailedTime)) / 1000));
     }
     
     try {
       // Try to get fresh data first with highest priority
-      const walletData = await fetchWalletWithCriticalPriority(address);
+      const summary = await fetchWalletWithCriticalPriority(address, fromChainCode(validated.chain));
       
-      if (!walletData || !walletData.data) {
+      if (!summary) {
         throw new Error('No wallet data returned from API');
       }
       
-      // Extract wallet details
-      const walletDetails = Object.values(walletData.data)[0] as any;
-      const chainType = getChainType(address);
-      
-      // Prepare wallet data for database
+      // Update or insert wallet data (first_seen and label are kept)
+      const storedWallet = await storeAddressSummary(summary);
       const newWallet = {
-        address,
-        chain: getChainCode(chainType),
-        first_seen: existingWallet.length > 0 ? existingWallet[0].first_seen : new Date(),
-        last_seen: new Date(),
+        ...storedWallet,
+        first_seen: existingWallet.length > 0 ? existingWallet[0].first_seen : storedWallet.last_seen,
         label: existingWallet.length > 0 ? existingWallet[0].label : null,
-        balance: String(walletDetails.address?.balance || '0'),
-        transaction_count: walletDetails.address?.transaction_count || 0,
-        raw_payload: walletData
       };
       
-      // Update or insert wallet data
-      if (existingWallet.length > 0) {
-        await db.update(wallets)
-          .set(newWallet)
-          .where(eq(wallets.address, address));
-      } else {
-        await db.insert(wallets).values(newWallet);
-      }
-      
       // Clear from failed refreshes if present
       recentFailedRefreshes.delete(address);
       
@@ -400,7 +497,7 @@ router.post('/:address/refresh', async (req, res) => {
       return res.json({
         ...newWallet,
         transactions: relatedTransactions,
-        fresh_data: true,
+        data_status: 'fresh',
         success: true,
         message: 'Wallet data successfully refreshed from API'
       });
@@ -410,44 +507,12 @@ router.post('/:address/refresh', async (req, res) => {
       
       logger.error(`Error fetching wallet data from API for ${address}`, apiError);
       
-      // FALLBACK 1: Return cached data if available
-      if (existingWallet.length > 0) {
-        return res.json({
-          ...existingWallet[0],
-          transactions: relatedTransactions,
-          using_cached_data: true,
-          api_limited: true,
-          error_message: "Using cached wallet data due to API errors",
-          success: false,
-          error: apiError.message,
-          retry_after: 30 // Suggest retry after 30 seconds
-        });
-      }
-      
-      // FALLBACK 2: Create basic wallet from transactions if no cached data
-      if (relatedTransactions.length > 0) {
-        const basicWallet = await createBasicWalletFromTransactions(address, relatedTransactions);
-        
-        if (basicWallet) {
-          return res.json({
-            ...basicWallet,
-            api_limited: true,
-            success: false,
-            error_message: "Could not fetch complete wallet data due to API errors",
-            error: apiError.message,
-            retry_after: 30 // Suggest retry after 30 seconds
-          });
-        }
-      }
-      
-      // FALLBACK 3: No data at all - return error
-      return res.status(503).json({ 
-        error: 'API error',
-        message: 'Could not fetch wallet data. API request failed.',
-        success: false,
-        error_details: apiError.message,
-        retry_after: 30 // Suggest retry after 30 seconds
-      });
+      const info = classifyRequestError(apiError);
+      const rateLimited = info.status !== null && RETRYABLE_STATUSES.includes(info.status);
+      return sendStaleWallet(res, existingWallet[0], relatedTransactions,
+        rateLimited ? 'rate_limited' : 'api_error',
+        rateLimited ? 'Blockchair rate limit reached, wallet data could not be refreshed.' : `Could not fetch wallet data: ${info.message}`,
+        info.retryAfterMs !== null ? Math.ceil(info.retryAfterMs / 1000) : 30);
     }
   } catch (error) {
     logger.error(`Error in wallet refresh route for ${req.params.address}`, error);
@@ -461,7 +526,11 @@ router.post('/:address/refresh', async (req, res) => {
  */
 router.get('/:address/status/:requestId', async (req, res) => {
   const { requestId } = req.params;
-  const status = getRequestStatus(requestId);
+  const validated = validateAddress(req.params.address);
+  if ('error' in validated) {
+    return res.status(400).json({ error: validated.error });
+  }
+  const status = await getRequestStatus(requestId);
   if (!status) {
     return res.status(404).json({ error: 'Request not found' });
   }
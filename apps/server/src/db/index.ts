@@ -2,9 +2,11 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { env } from '../env.js';
 import { logger } from '../utils/logger.js';
+import { runMigrations } from './migrate.js';
 import * as statsSchema from './schema/stats.js';
 import * as transactionsSchema from './schema/transactions.js';
 import * as walletsSchema from './schema/wallets.js';
+import * as requestQueueSchema from './schema/requestQueue.js';
 
 // Create PostgreSQL connection pool
 const queryClient = postgres(env.DATABASE_URL, { max: 10 });
@@ -15,6 +17,7 @@ export const db = drizzle(queryClient, {
     ...statsSchema,
     ...transactionsSchema,
     ...walletsSchema,
+    ...requestQueueSchema,
   },
 });
 
@@ -25,8 +28,9 @@ export async function setupDatabaseConnection() {
     await queryClient`SELECT 1`;
     logger.info('Database connection successful');
     
-    // You can add migration logic here if needed
-    // await migrateToLatest();
+    if (env.DB_MIGRATE_ON_START) {
+      await runMigrations();
+    }
     
     return db;
   } catch (error) {
@@ -0,0 +1,29 @@
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { fileURLToPath } from 'url';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Versioned schema migrations
+ * - Generated from the schema files with `npm run generate` and committed under src/db/migrations
+ * - Applied in order; drizzle records each applied one in `drizzle.__drizzle_migrations`,
+ *   so running this again only applies the new ones
+ */
+
+// Next to this module, whatever the working directory: src/db/migrations as configured in
+// drizzle.config.ts, or dist/db/migrations where the build copies them
+export const MIGRATIONS_FOLDER = fileURLToPath(new URL('./migrations', import.meta.url));
+
+export async function runMigrations(): Promise<void> {
+  // Dedicated single connection, migrations run one statement at a time
+  const migrationClient = postgres(env.DATABASE_URL, { max: 1, onnotice: () => {} });
+  try {
+    logger.info(`Applying database migrations from ${MIGRATIONS_FOLDER}`);
+    await migrate(drizzle(migrationClient), { migrationsFolder: MIGRATIONS_FOLDER });
+    logger.info('Database schema is up to date');
+  } finally {
+    await migrationClient.end();
+  }
+}
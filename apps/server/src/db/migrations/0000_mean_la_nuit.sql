@@ -0,0 +1,102 @@
+CREATE TABLE IF NOT EXISTS "queue_state" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "request_queue" (
+	"id" text PRIMARY KEY NOT NULL,
+	"operation" text,
+	"params" jsonb,
+	"result_handlers" jsonb,
+	"description" text NOT NULL,
+	"priority" integer NOT NULL,
+	"is_critical" boolean DEFAULT false NOT NULL,
+	"status" text NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"deadline" timestamp,
+	"page" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"raw_payload" jsonb NOT NULL,
+	"bitcoin_blocks" serial NOT NULL,
+	"bitcoin_hashrate" text,
+	"bitcoin_mempool_transactions" serial NOT NULL,
+	"bitcoin_market_price_usd" text,
+	"ethereum_blocks" serial NOT NULL,
+	"ethereum_hashrate" text,
+	"ethereum_mempool_transactions" serial NOT NULL,
+	"ethereum_market_price_usd" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "transaction_inputs" (
+	"transaction_hash" text NOT NULL,
+	"index" integer NOT NULL,
+	"address" text,
+	"value" text,
+	"script_type" text,
+	"spent_transaction_hash" text,
+	"spent_output_index" integer,
+	CONSTRAINT "transaction_inputs_transaction_hash_index_pk" PRIMARY KEY("transaction_hash","index")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "transaction_outputs" (
+	"transaction_hash" text NOT NULL,
+	"index" integer NOT NULL,
+	"address" text,
+	"value" text,
+	"script_type" text,
+	"spent_by_transaction_hash" text,
+	"spent_by_input_index" integer,
+	CONSTRAINT "transaction_outputs_transaction_hash_index_pk" PRIMARY KEY("transaction_hash","index")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "transactions" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"chain" text NOT NULL,
+	"block_number" numeric,
+	"block_time" timestamp NOT NULL,
+	"value" text,
+	"fee" text,
+	"sender" text,
+	"receiver" text,
+	"status" text,
+	"raw_payload" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "wallets" (
+	"address" text PRIMARY KEY NOT NULL,
+	"chain" text NOT NULL,
+	"first_seen" timestamp DEFAULT now() NOT NULL,
+	"last_seen" timestamp DEFAULT now() NOT NULL,
+	"balance" numeric(36, 18),
+	"transaction_count" numeric,
+	"label" text,
+	"raw_payload" jsonb
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "request_queue_status_idx" ON "request_queue" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stats_timestamp_idx" ON "stats" ("timestamp");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transaction_inputs_address_idx" ON "transaction_inputs" ("address");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transaction_outputs_address_idx" ON "transaction_outputs" ("address");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transactions_block_time_idx" ON "transactions" ("block_time");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transactions_sender_idx" ON "transactions" ("sender");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transactions_receiver_idx" ON "transactions" ("receiver");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_inputs" ADD CONSTRAINT "transaction_inputs_transaction_hash_transactions_hash_fk" FOREIGN KEY ("transaction_hash") REFERENCES "transactions"("hash") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "transaction_outputs" ADD CONSTRAINT "transaction_outputs_transaction_hash_transactions_hash_fk" FOREIGN KEY ("transaction_hash") REFERENCES "transactions"("hash") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,27 @@
+-- The count columns were serial: drop their sequence defaults before changing the type
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_blocks" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_mempool_transactions" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_blocks" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_mempool_transactions" DROP DEFAULT;--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "stats_bitcoin_blocks_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "stats_bitcoin_mempool_transactions_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "stats_ethereum_blocks_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "stats_ethereum_mempool_transactions_seq";--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_blocks" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_hashrate" SET DATA TYPE numeric USING NULLIF("bitcoin_hashrate", '')::numeric;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_mempool_transactions" SET DATA TYPE integer;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "bitcoin_market_price_usd" SET DATA TYPE double precision USING NULLIF("bitcoin_market_price_usd", '')::double precision;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_blocks" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_hashrate" SET DATA TYPE numeric USING NULLIF("ethereum_hashrate", '')::numeric;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_mempool_transactions" SET DATA TYPE integer;--> statement-breakpoint
+ALTER TABLE "stats" ALTER COLUMN "ethereum_market_price_usd" SET DATA TYPE double precision USING NULLIF("ethereum_market_price_usd", '')::double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "bitcoin_blocks_24h" integer;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "bitcoin_difficulty" double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "bitcoin_average_transaction_fee_usd_24h" double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "bitcoin_volume_24h" numeric;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "bitcoin_suggested_fee" double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "ethereum_blocks_24h" integer;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "ethereum_difficulty" double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "ethereum_average_transaction_fee_usd_24h" double precision;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "ethereum_volume_24h" numeric;--> statement-breakpoint
+ALTER TABLE "stats" ADD COLUMN "ethereum_suggested_fee" double precision;
\ No newline at end of file
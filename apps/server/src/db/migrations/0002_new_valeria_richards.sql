@@ -0,0 +1,44 @@
+CREATE TABLE IF NOT EXISTS "stats_rollups" (
+	"resolution" text NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"metric" text NOT NULL,
+	"min" double precision NOT NULL,
+	"max" double precision NOT NULL,
+	"avg" double precision NOT NULL,
+	"last" double precision NOT NULL,
+	"samples" integer NOT NULL,
+	"last_at" timestamp NOT NULL,
+	CONSTRAINT "stats_rollups_resolution_metric_bucket_start_pk" PRIMARY KEY("resolution","metric","bucket_start")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stats_rollups_resolution_bucket_idx" ON "stats_rollups" ("resolution","bucket_start");--> statement-breakpoint
+-- Backfill the buckets from the stats rows stored so far
+INSERT INTO "stats_rollups" ("resolution", "bucket_start", "metric", "min", "max", "avg", "last", "samples", "last_at")
+SELECT r.resolution, date_trunc(r.unit, s."timestamp"), m.metric,
+	min(m.value), max(m.value), avg(m.value),
+	(array_agg(m.value ORDER BY s."timestamp" DESC))[1], count(*), max(s."timestamp")
+FROM "stats" s
+CROSS JOIN (VALUES ('1m', 'minute'), ('1h', 'hour'), ('1d', 'day')) AS r(resolution, unit)
+CROSS JOIN LATERAL (VALUES
+	('bitcoin_blocks', s."bitcoin_blocks"::double precision),
+	('bitcoin_blocks_24h', s."bitcoin_blocks_24h"::double precision),
+	('bitcoin_hashrate', s."bitcoin_hashrate"::double precision),
+	('bitcoin_difficulty', s."bitcoin_difficulty"::double precision),
+	('bitcoin_mempool_transactions', s."bitcoin_mempool_transactions"::double precision),
+	('bitcoin_market_price_usd', s."bitcoin_market_price_usd"::double precision),
+	('bitcoin_average_transaction_fee_usd_24h', s."bitcoin_average_transaction_fee_usd_24h"::double precision),
+	('bitcoin_volume_24h', s."bitcoin_volume_24h"::double precision),
+	('bitcoin_suggested_fee', s."bitcoin_suggested_fee"::double precision),
+	('ethereum_blocks', s."ethereum_blocks"::double precision),
+	('ethereum_blocks_24h', s."ethereum_blocks_24h"::double precision),
+	('ethereum_hashrate', s."ethereum_hashrate"::double precision),
+	('ethereum_difficulty', s."ethereum_difficulty"::double precision),
+	('ethereum_mempool_transactions', s."ethereum_mempool_transactions"::double precision),
+	('ethereum_market_price_usd', s."ethereum_market_price_usd"::double precision),
+	('ethereum_average_transaction_fee_usd_24h', s."ethereum_average_transaction_fee_usd_24h"::double precision),
+	('ethereum_volume_24h', s."ethereum_volume_24h"::double precision),
+	('ethereum_suggested_fee', s."ethereum_suggested_fee"::double precision)
+) AS m(metric, value)
+WHERE m.value IS NOT NULL
+GROUP BY r.resolution, date_trunc(r.unit, s."timestamp"), m.metric
+ON CONFLICT DO NOTHING;
\ No newline at end of file
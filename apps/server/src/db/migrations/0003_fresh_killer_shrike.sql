@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "transactions_chain_block_time_idx" ON "transactions" ("chain","block_time");
\ No newline at end of file
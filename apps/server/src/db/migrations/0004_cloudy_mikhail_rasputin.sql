@@ -0,0 +1,3 @@
+ALTER TABLE "transactions" ADD COLUMN "last_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "replaced_by" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "transactions_status_last_checked_idx" ON "transactions" ("status","last_checked_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "watched_wallets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"address" text NOT NULL,
+	"chain" text NOT NULL,
+	"name" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"refreshed_at" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "watched_wallets_address_idx" ON "watched_wallets" ("address");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "wallet_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"address" text NOT NULL,
+	"chain" text NOT NULL,
+	"taken_at" timestamp DEFAULT now() NOT NULL,
+	"balance" numeric(36, 18) NOT NULL,
+	"received" numeric(36, 18) NOT NULL,
+	"spent" numeric(36, 18) NOT NULL,
+	"transaction_count" integer NOT NULL,
+	"balance_usd" double precision
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_snapshots_address_taken_at_idx" ON "wallet_snapshots" ("address","taken_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "wallet_history_sync" (
+	"address" text PRIMARY KEY NOT NULL,
+	"chain" text NOT NULL,
+	"fetched_count" integer NOT NULL,
+	"complete" boolean NOT NULL,
+	"synced_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "wallet_transactions" (
+	"address" text NOT NULL,
+	"hash" text NOT NULL,
+	"chain" text NOT NULL,
+	"block_number" bigint,
+	"time" timestamp NOT NULL,
+	"balance_change" numeric NOT NULL,
+	CONSTRAINT "wallet_transactions_address_hash_pk" PRIMARY KEY("address","hash")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_address_time_idx" ON "wallet_transactions" ("address","time");
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Amounts are whole satoshi / wei: numeric(36, 18) left 18 integer digits and overflowed from 1 ETH up.
+-- trunc drops the scale stored values carried over.
+ALTER TABLE "wallet_snapshots" ALTER COLUMN "balance" SET DATA TYPE numeric USING trunc("balance");--> statement-breakpoint
+ALTER TABLE "wallet_snapshots" ALTER COLUMN "received" SET DATA TYPE numeric USING trunc("received");--> statement-breakpoint
+ALTER TABLE "wallet_snapshots" ALTER COLUMN "spent" SET DATA TYPE numeric USING trunc("spent");
\ No newline at end of file
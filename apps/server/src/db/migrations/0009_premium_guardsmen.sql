@@ -0,0 +1,3 @@
+-- Balances are whole satoshi / wei: numeric(36, 18) left 18 integer digits and overflowed from 1 ETH up.
+-- trunc drops the scale stored values carried over.
+ALTER TABLE "wallets" ALTER COLUMN "balance" SET DATA TYPE numeric USING trunc("balance");
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { runMigrations } from './migrate.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Apply pending migrations and exit (npm run migrate)
+ */
+try {
+  await runMigrations();
+} catch (error) {
+  logger.error('Database migration failed', error);
+  process.exitCode = 1;
+}
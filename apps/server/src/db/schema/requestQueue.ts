@@ -0,0 +1,29 @@
+import { pgTable, text, integer, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+
+export const requestQueue = pgTable("request_queue", {
+  id: text("id").primaryKey(), // uuid handed out to clients for status polling
+  operation: text("operation"), // registered operation kind, null for requests that can't be resumed
+  params: jsonb("params"),
+  result_handlers: jsonb("result_handlers"), // [{ name, context }] of the handlers that store the response
+  description: text("description").notNull(),
+  priority: integer("priority").notNull(),
+  is_critical: boolean("is_critical").notNull().default(false),
+  status: text("status").notNull(), // 'pending' | 'processing' | 'done' | 'error' | 'cancelled'
+  result: jsonb("result"),
+  error: text("error"),
+  deadline: timestamp("deadline"), // dropped instead of sent after this time
+  page: text("page"), // page the request was made for, see pageTracker
+  attempts: integer("attempts").notNull().default(0), // times the request was sent, see QUEUE_MAX_ATTEMPTS
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Unfinished items are reloaded on startup
+  statusIdx: index("request_queue_status_idx").on(table.status),
+}));
+
+// Small key/value table for queue bookkeeping (e.g. last_request_time)
+export const queueState = pgTable("queue_state", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
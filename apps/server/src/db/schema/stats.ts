@@ -1,16 +1,45 @@
-import { pgTable, serial, jsonb, timestamp, text } from "drizzle-orm/pg-core";
+import { pgTable, serial, jsonb, timestamp, numeric, bigint, integer, doublePrecision, text, index, primaryKey } from "drizzle-orm/pg-core";
 
 export const stats = pgTable("stats", {
   id: serial("id").primaryKey(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   raw_payload: jsonb("raw_payload").notNull(),
-  // Add specific fields we care about for quick querying
-  bitcoin_blocks: serial("bitcoin_blocks"),
-  bitcoin_hashrate: text("bitcoin_hashrate"),
-  bitcoin_mempool_transactions: serial("bitcoin_mempool_transactions"),
-  bitcoin_market_price_usd: text("bitcoin_market_price_usd"),
-  ethereum_blocks: serial("ethereum_blocks"),
-  ethereum_hashrate: text("ethereum_hashrate"),
-  ethereum_mempool_transactions: serial("ethereum_mempool_transactions"),
-  ethereum_market_price_usd: text("ethereum_market_price_usd"),
-}); 
\ No newline at end of file
+  // Fields we care about for quick querying, see ChainStatsSnapshot in apps/shared/stats.d.ts
+  bitcoin_blocks: bigint("bitcoin_blocks", { mode: "number" }).notNull(),
+  bitcoin_blocks_24h: integer("bitcoin_blocks_24h"),
+  bitcoin_hashrate: numeric("bitcoin_hashrate"),
+  bitcoin_difficulty: doublePrecision("bitcoin_difficulty"),
+  bitcoin_mempool_transactions: integer("bitcoin_mempool_transactions").notNull(),
+  bitcoin_market_price_usd: doublePrecision("bitcoin_market_price_usd"),
+  bitcoin_average_transaction_fee_usd_24h: doublePrecision("bitcoin_average_transaction_fee_usd_24h"),
+  bitcoin_volume_24h: numeric("bitcoin_volume_24h"),
+  bitcoin_suggested_fee: doublePrecision("bitcoin_suggested_fee"),
+  ethereum_blocks: bigint("ethereum_blocks", { mode: "number" }).notNull(),
+  ethereum_blocks_24h: integer("ethereum_blocks_24h"),
+  ethereum_hashrate: numeric("ethereum_hashrate"),
+  ethereum_difficulty: doublePrecision("ethereum_difficulty"),
+  ethereum_mempool_transactions: integer("ethereum_mempool_transactions").notNull(),
+  ethereum_market_price_usd: doublePrecision("ethereum_market_price_usd"),
+  ethereum_average_transaction_fee_usd_24h: doublePrecision("ethereum_average_transaction_fee_usd_24h"),
+  ethereum_volume_24h: numeric("ethereum_volume_24h"),
+  ethereum_suggested_fee: doublePrecision("ethereum_suggested_fee"),
+}, (table) => ({
+  timestampIdx: index("stats_timestamp_idx").on(table.timestamp),
+}));
+
+// Per-metric aggregates of the stats rows in 1m/1h/1d buckets, kept up to date as rows are stored
+// (see services/statsRollups.ts) and kept longer than the raw rows
+export const statsRollups = pgTable("stats_rollups", {
+  resolution: text("resolution").notNull(), // '1m' | '1h' | '1d'
+  bucket_start: timestamp("bucket_start").notNull(),
+  metric: text("metric").notNull(), // a numeric column of stats, e.g. bitcoin_market_price_usd
+  min: doublePrecision("min").notNull(),
+  max: doublePrecision("max").notNull(),
+  avg: doublePrecision("avg").notNull(),
+  last: doublePrecision("last").notNull(),
+  samples: integer("samples").notNull(),
+  last_at: timestamp("last_at").notNull(), // time of the sample in `last`
+}, (table) => ({
+  pk: primaryKey({ columns: [table.resolution, table.metric, table.bucket_start] }),
+  bucketIdx: index("stats_rollups_resolution_bucket_idx").on(table.resolution, table.bucket_start),
+}));
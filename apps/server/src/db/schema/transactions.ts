@@ -1,4 +1,4 @@
-import { pgTable, text, numeric, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, numeric, timestamp, jsonb, integer, primaryKey, index } from "drizzle-orm/pg-core";
 
 export const transactions = pgTable("transactions", {
   hash: text("hash").primaryKey(),
@@ -9,6 +9,43 @@ export const transactions = pgTable("transactions", {
   fee: text("fee"), // Store as text to avoid numeric overflow
   sender: text("sender"),
   receiver: text("receiver"),
-  status: text("status"), // 'confirmed', 'pending', etc.
+  status: text("status"), // TransactionStatus: 'pending' | 'confirmed' | 'dropped' | 'replaced'
   raw_payload: jsonb("raw_payload"), // full JSON blob from Blockchair
-}); 
\ No newline at end of file
+  last_checked_at: timestamp("last_checked_at"), // last time reconciliation looked a pending row up
+  replaced_by: text("replaced_by"), // hash of the conflicting transaction, when status is 'replaced'
+}, (table) => ({
+  blockTimeIdx: index("transactions_block_time_idx").on(table.block_time),
+  senderIdx: index("transactions_sender_idx").on(table.sender),
+  receiverIdx: index("transactions_receiver_idx").on(table.receiver),
+  // Retention walks each chain oldest first
+  chainBlockTimeIdx: index("transactions_chain_block_time_idx").on(table.chain, table.block_time),
+  // Reconciliation picks the pending rows checked longest ago
+  statusCheckedIdx: index("transactions_status_last_checked_idx").on(table.status, table.last_checked_at),
+}));
+
+// Every input of a transaction; for BTC each input is the output of an earlier transaction it spends
+export const transactionInputs = pgTable("transaction_inputs", {
+  transaction_hash: text("transaction_hash").notNull().references(() => transactions.hash, { onDelete: "cascade" }),
+  index: integer("index").notNull(), // position among the transaction's inputs
+  address: text("address"),
+  value: text("value"), // Store as text to avoid numeric overflow
+  script_type: text("script_type"), // e.g. 'pubkeyhash', 'witness_v0_keyhash'
+  spent_transaction_hash: text("spent_transaction_hash"), // BTC: transaction that created the spent output
+  spent_output_index: integer("spent_output_index"), // BTC: index of the spent output in that transaction
+}, (table) => ({
+  pk: primaryKey({ columns: [table.transaction_hash, table.index] }),
+  addressIdx: index("transaction_inputs_address_idx").on(table.address),
+}));
+
+export const transactionOutputs = pgTable("transaction_outputs", {
+  transaction_hash: text("transaction_hash").notNull().references(() => transactions.hash, { onDelete: "cascade" }),
+  index: integer("index").notNull(), // position among the transaction's outputs
+  address: text("address"),
+  value: text("value"),
+  script_type: text("script_type"),
+  spent_by_transaction_hash: text("spent_by_transaction_hash"), // BTC: transaction that spent this output, null while unspent
+  spent_by_input_index: integer("spent_by_input_index"), // BTC: input index in the spending transaction
+}, (table) => ({
+  pk: primaryKey({ columns: [table.transaction_hash, table.index] }),
+  addressIdx: index("transaction_outputs_address_idx").on(table.address),
+}));
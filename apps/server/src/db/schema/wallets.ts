@@ -1,12 +1,64 @@
-import { pgTable, text, numeric, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, numeric, timestamp, jsonb, uniqueIndex, index, integer, doublePrecision, bigint, boolean, primaryKey } from "drizzle-orm/pg-core";
 
 export const wallets = pgTable("wallets", {
   address: text("address").primaryKey(),
   chain: text("chain").notNull(), // 'BTC' | 'ETH'
   first_seen: timestamp("first_seen").defaultNow().notNull(),
   last_seen: timestamp("last_seen").defaultNow().notNull(),
-  balance: numeric("balance", { precision: 36, scale: 18 }),
+  balance: numeric("balance"), // smallest unit (satoshi / wei)
   transaction_count: numeric("transaction_count"),
   label: text("label"), // Optional user-set label for the wallet
   raw_payload: jsonb("raw_payload"), // last fetched data from Blockchair
-}); 
\ No newline at end of file
+}); 
+
+// Watchlist of the wallets page; balances come from the cached wallets row of the same address
+export const watchedWallets = pgTable("watched_wallets", {
+  id: serial("id").primaryKey(),
+  address: text("address").notNull(),
+  chain: text("chain").notNull(), // 'BTC' | 'ETH'
+  name: text("name"),
+  notes: text("notes"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  refreshed_at: timestamp("refreshed_at"), // last time a background refresh was queued
+}, (table) => ({
+  addressIdx: uniqueIndex("watched_wallets_address_idx").on(table.address),
+}));
+
+// One row per stored address lookup (unchanged ones at most every WALLET_SNAPSHOT_INTERVAL_MINUTES),
+// so the balance history survives wallets.balance being overwritten
+export const walletSnapshots = pgTable("wallet_snapshots", {
+  id: serial("id").primaryKey(),
+  address: text("address").notNull(),
+  chain: text("chain").notNull(), // 'BTC' | 'ETH'
+  taken_at: timestamp("taken_at").defaultNow().notNull(),
+  balance: numeric("balance").notNull(), // smallest unit (satoshi / wei)
+  received: numeric("received").notNull(),
+  spent: numeric("spent").notNull(),
+  transaction_count: integer("transaction_count").notNull(),
+  balance_usd: doublePrecision("balance_usd"),
+}, (table) => ({
+  addressTakenAtIdx: index("wallet_snapshots_address_taken_at_idx").on(table.address, table.taken_at),
+}));
+
+// Transaction history of addresses as fetched page by page from the provider, with the net balance
+// change for the address (see services/walletTransactions.ts)
+export const walletTransactions = pgTable("wallet_transactions", {
+  address: text("address").notNull(),
+  hash: text("hash").notNull(),
+  chain: text("chain").notNull(), // 'BTC' | 'ETH'
+  block_number: bigint("block_number", { mode: "number" }), // null while unconfirmed
+  time: timestamp("time").notNull(),
+  balance_change: numeric("balance_change").notNull(), // smallest unit, negative when the address paid
+}, (table) => ({
+  pk: primaryKey({ columns: [table.address, table.hash] }),
+  addressTimeIdx: index("wallet_transactions_address_time_idx").on(table.address, table.time),
+}));
+
+// How far the provider's history of an address has been fetched into wallet_transactions
+export const walletHistorySync = pgTable("wallet_history_sync", {
+  address: text("address").primaryKey(),
+  chain: text("chain").notNull(), // 'BTC' | 'ETH'
+  fetched_count: integer("fetched_count").notNull(), // list entries fetched so far, the next page's offset
+  complete: boolean("complete").notNull(), // the end of the list was reached
+  synced_at: timestamp("synced_at").notNull(), // last page stored
+});
@@ -14,6 +14,8 @@ import searchRoutes from './api/searchRoutes.js';
 import sseRoutes from './api/sseRoutes.js';
 import statsEventsRoutes from './api/routes/stats.js';
 import pageTrackerRoutes from './api/pageTrackerRoutes.js';
+import queueRoutes from './api/queueRoutes.js';
+import portfolioRoutes from './api/portfolioRoutes.js';
 
 async function startServer() {
   logger.info('Starting Blockchain Tracker server...');
@@ -22,7 +24,7 @@ async function startServer() {
   // Middleware
   app.use(cors({
     origin: ['http://localhost:5173'], // Frontend URL
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
     credentials: true
   }));
@@ -49,7 +51,8 @@ async function startServer() {
         '/api/search',
         '/api/sse',
         '/api/events/stats',
-        '/api/page-tracker'
+        '/api/page-tracker',
+        '/api/queue'
       ],
       docs: '/api-docs'
     });
@@ -63,16 +66,22 @@ async function startServer() {
   app.use('/api/sse', sseRoutes);
   app.use('/api/events/stats', statsEventsRoutes);
   app.use('/api/page-tracker', pageTrackerRoutes);
+  app.use('/api/queue', queueRoutes);
+  app.use('/api/portfolio', portfolioRoutes);
 
   // Health check
   app.get('/health', (req, res) => {
     res.status(200).json({ status: 'ok' });
   });
 
+  // Pick up API requests that were still queued when the server last stopped
+  await blockchairQueue.restore();
+
   // Start scheduler for periodic data fetching
   initScheduler();
   
-  logger.info(`API throttle time set to ${env.API_THROTTLE_MS / 1000} seconds`);
+  const rateLimit = blockchairQueue.getStatus().rateLimit;
+  logger.info(`Blockchair ${rateLimit.tier} tier with ${rateLimit.keys} key slot(s), daily budget ${rateLimit.dailyBudget}`);
   logger.info('Using prioritized BlockchairRequestQueue to handle all API calls');
   logger.info('User-initiated requests get priority over background fetching tasks');
 
@@ -0,0 +1,288 @@
+import express from 'express';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Fixture files live outside src so they are found from both src/ (tsx) and dist/
+const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../../fixtures/blockchair', import.meta.url));
+
+const SUPPORTED_CHAINS = ['bitcoin', 'ethereum'] as const;
+
+export type MockFailureMode = 'none' | 'rate-limit-429' | 'rate-limit-430' | 'server-error' | 'malformed';
+
+export interface MockBlockchairOptions {
+  latencyMs?: number;        // Delay added before every response
+  failure?: MockFailureMode; // What a failing request looks like
+  failureRate?: number;      // Fraction of requests (0-1) that fail with `failure`
+  retryAfterSeconds?: number; // Retry-After sent with rate-limit responses
+  fixturesDir?: string;
+}
+
+export interface MockRequestLogEntry {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  time: number;
+  failed: boolean;
+}
+
+interface Fixtures {
+  stats: any;
+  transactions: Record<string, any[]>;
+  transactionDetails: Record<string, Record<string, any>>;
+  addresses: Record<string, Record<string, any>>;
+}
+
+function readJson(dir: string, file: string): any {
+  return JSON.parse(readFileSync(join(dir, file), 'utf8'));
+}
+
+function loadFixtures(dir: string): Fixtures {
+  const fixtures: Fixtures = {
+    stats: readJson(dir, 'stats.json'),
+    transactions: {},
+    transactionDetails: {},
+    addresses: {},
+  };
+  for (const chain of SUPPORTED_CHAINS) {
+    fixtures.transactions[chain] = readJson(dir, `${chain}/transactions.json`).data;
+    fixtures.transactionDetails[chain] = readJson(dir, `${chain}/transaction-details.json`).data;
+    fixtures.addresses[chain] = readJson(dir, `${chain}/addresses.json`).data;
+  }
+  return fixtures;
+}
+
+/**
+ * Build a Blockchair-style `context` block
+ */
+function buildContext(code: number, results: number, extra: Record<string, any> = {}) {
+  return {
+    code,
+    source: 'mock-blockchair',
+    results,
+    state: 893412,
+    cache: { live: true, duration: 0, since: null, until: null, time: null },
+    api: {
+      version: '2.0.95-mock',
+      last_major_update: '2024-07-19 00:00:00',
+      next_major_update: null,
+      documentation: 'https://blockchair.com/api/docs',
+      notice: 'Served by the local Blockchair mock server',
+    },
+    servers: 'mock',
+    time: 0.0001,
+    render_time: 0.0001,
+    full_time: 0.0002,
+    request_cost: 1,
+    ...extra,
+  };
+}
+
+function parseLimit(value: any, fallback: number, max: number): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  if (isNaN(parsed) || parsed <= 0) return fallback;
+  return Math.min(parsed, max);
+}
+
+function parseOffset(value: any): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+}
+
+/**
+ * Create an express app that imitates the parts of the Blockchair API we use,
+ * serving responses from fixture files.
+ * Behaviour can be changed at runtime through POST /__mock/config.
+ */
+export function createMockBlockchairApp(initialOptions: MockBlockchairOptions = {}) {
+  const app = express();
+  const fixtures = loadFixtures(initialOptions.fixturesDir || DEFAULT_FIXTURES_DIR);
+  const options: Required<Omit<MockBlockchairOptions, 'fixturesDir'>> = {
+    latencyMs: 0,
+    failure: 'none',
+    failureRate: 1,
+    retryAfterSeconds: 60,
+    ...initialOptions,
+  };
+  const requestLog: MockRequestLogEntry[] = [];
+
+  app.use(express.json());
+
+  // Control endpoints used by tests and developers
+  app.get('/__mock/config', (req, res) => {
+    res.json(options);
+  });
+
+  app.post('/__mock/config', (req, res) => {
+    const { latencyMs, failure, failureRate, retryAfterSeconds } = req.body || {};
+    if (latencyMs !== undefined) options.latencyMs = Number(latencyMs) || 0;
+    if (failure !== undefined) options.failure = failure;
+    if (failureRate !== undefined) options.failureRate = Number(failureRate);
+    if (retryAfterSeconds !== undefined) options.retryAfterSeconds = Number(retryAfterSeconds) || 0;
+    res.json(options);
+  });
+
+  app.get('/__mock/requests', (req, res) => {
+    res.json(requestLog);
+  });
+
+  app.delete('/__mock/requests', (req, res) => {
+    requestLog.length = 0;
+    res.status(204).end();
+  });
+
+  // Simulated latency and failures for every API route
+  app.use(async (req, res, next) => {
+    const failed = options.failure !== 'none' && Math.random() < options.failureRate;
+    requestLog.push({ method: req.method, path: req.path, query: { ...req.query }, time: Date.now(), failed });
+
+    if (options.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+    }
+
+    if (!failed) return next();
+
+    switch (options.failure) {
+      case 'rate-limit-429':
+        res.setHeader('Retry-After', String(options.retryAfterSeconds));
+        return res.status(429).json({
+          data: null,
+          context: buildContext(429, 0, { error: 'Too many requests. Please slow down or use an API key.' }),
+        });
+      case 'rate-limit-430':
+        res.setHeader('Retry-After', String(options.retryAfterSeconds));
+        return res.status(430).json({
+          data: null,
+          context: buildContext(430, 0, { error: 'You have been banned for exceeding the request limit. Please wait before making more requests.' }),
+        });
+      case 'server-error':
+        return res.status(500).json({ data: null, context: buildContext(500, 0, { error: 'Internal server error' }) });
+      case 'malformed':
+        // Truncated JSON body, as seen when an upstream connection drops mid-response
+        res.setHeader('Content-Type', 'application/json');
+        return res.status(200).send('{"data":{"bitcoin":{"data":{"blocks":8934');
+      default:
+        return next();
+    }
+  });
+
+  // Reject chains we have no fixtures for the way Blockchair does
+  app.use('/:chain', (req, res, next) => {
+    if (req.params.chain === 'stats' || (SUPPORTED_CHAINS as readonly string[]).includes(req.params.chain)) {
+      return next();
+    }
+    res.status(404).json({ data: null, context: buildContext(404, 0, { error: `Unknown chain: ${req.params.chain}` }) });
+  });
+
+  /**
+   * GET /stats
+   */
+  app.get('/stats', (req, res) => {
+    res.json({ ...fixtures.stats, context: buildContext(200, 1) });
+  });
+
+  /**
+   * GET /:chain/transactions
+   * Confirmed transactions, newest first
+   */
+  app.get('/:chain/transactions', (req, res) => {
+    const limit = parseLimit(req.query.limit, 10, 100);
+    const offset = parseOffset(req.query.offset);
+    const rows = fixtures.transactions[req.params.chain]
+      .filter(tx => tx.block_id > 0)
+      .slice(offset, offset + limit);
+    res.json({ data: rows, context: buildContext(200, rows.length, { limit, offset }) });
+  });
+
+  /**
+   * GET /:chain/mempool/transactions
+   * Unconfirmed transactions
+   */
+  app.get('/:chain/mempool/transactions', (req, res) => {
+    const limit = parseLimit(req.query.limit, 10, 100);
+    const offset = parseOffset(req.query.offset);
+    const rows = fixtures.transactions[req.params.chain]
+      .filter(tx => tx.block_id === -1)
+      .slice(offset, offset + limit);
+    res.json({ data: rows, context: buildContext(200, rows.length, { limit, offset }) });
+  });
+
+  const sendTransactionDashboard = (chain: string, hashes: string[], res: express.Response) => {
+    if (hashes.length > 10) {
+      return res.status(400).json({ data: null, context: buildContext(400, 0, { error: 'Too many hashes, the limit is 10' }) });
+    }
+    const data: Record<string, any> = {};
+    for (const hash of hashes) {
+      const details = fixtures.transactionDetails[chain][hash] || fixtures.transactionDetails[chain][hash.toLowerCase()];
+      if (details) data[hash] = details;
+    }
+    res.json({ data, context: buildContext(200, Object.keys(data).length, { request_cost: Math.max(1, hashes.length) }) });
+  };
+
+  /**
+   * GET /:chain/dashboards/transaction/:hash
+   */
+  app.get('/:chain/dashboards/transaction/:hash', (req, res) => {
+    sendTransactionDashboard(req.params.chain, [req.params.hash], res);
+  });
+
+  /**
+   * GET /:chain/dashboards/transactions/:hashes
+   * Comma separated batch of up to 10 hashes
+   */
+  app.get('/:chain/dashboards/transactions/:hashes', (req, res) => {
+    const hashes = req.params.hashes.split(',').filter(Boolean);
+    sendTransactionDashboard(req.params.chain, hashes, res);
+  });
+
+  /**
+   * GET /:chain/dashboards/address/:address
+   * Supports limit/offset over the address's transaction (BTC) or call (ETH) list
+   */
+  app.get('/:chain/dashboards/address/:address', (req, res) => {
+    const { chain, address } = req.params;
+    const entry = fixtures.addresses[chain][address] || fixtures.addresses[chain][address.toLowerCase()];
+    const limit = parseLimit(req.query.limit, 100, 10000);
+    const offset = parseOffset(req.query.offset);
+
+    if (!entry) {
+      // Blockchair answers unknown addresses with an empty, zero-balance record
+      const empty = chain === 'bitcoin'
+        ? { address: { type: null, balance: 0, received: 0, spent: 0, output_count: 0, unspent_output_count: 0, transaction_count: 0 }, transactions: [], utxo: [] }
+        : { address: { type: null, balance: '0', received_approximate: '0', spent_approximate: '0', call_count: 0, transaction_count: 0 }, calls: [] };
+      return res.json({ data: { [address]: empty }, context: buildContext(200, 1, { limit, offset }) });
+    }
+
+    const paged = { ...entry };
+    if (Array.isArray(entry.transactions)) paged.transactions = entry.transactions.slice(offset, offset + limit);
+    if (Array.isArray(entry.calls)) paged.calls = entry.calls.slice(offset, offset + limit);
+    res.json({ data: { [address]: paged }, context: buildContext(200, 1, { limit, offset }) });
+  });
+
+  return {
+    app,
+    options,
+    requestLog,
+  };
+}
+
+/**
+ * Start the mock server on the given port (0 picks a free one)
+ */
+export async function startMockBlockchairServer(options: MockBlockchairOptions & { port?: number } = {}) {
+  const { port = 0, ...mockOptions } = options;
+  const mock = createMockBlockchairApp(mockOptions);
+
+  const server: Server = await new Promise(resolve => {
+    const listening = mock.app.listen(port, () => resolve(listening));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    ...mock,
+    url: `http://127.0.0.1:${boundPort}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,15 @@
+import { logger } from '../utils/logger.js';
+import { startMockBlockchairServer, type MockFailureMode } from './blockchairMockServer.js';
+
+/**
+ * Run the Blockchair mock server standalone (npm run mock:blockchair)
+ * Point the API server at it with BLOCKCHAIR_API_URL=http://localhost:8100
+ */
+const mock = await startMockBlockchairServer({
+  port: parseInt(process.env.MOCK_BLOCKCHAIR_PORT || '8100', 10),
+  latencyMs: parseInt(process.env.MOCK_BLOCKCHAIR_LATENCY_MS || '0', 10),
+  failure: (process.env.MOCK_BLOCKCHAIR_FAILURE as MockFailureMode) || 'none',
+  failureRate: parseFloat(process.env.MOCK_BLOCKCHAIR_FAILURE_RATE || '1'),
+});
+
+logger.info(`Blockchair mock server listening on ${mock.url}`);
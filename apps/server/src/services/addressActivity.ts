@@ -0,0 +1,96 @@
+import { and, eq, ilike, inArray, or, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { transactions, transactionInputs, transactionOutputs } from '../db/schema/transactions.js';
+
+/**
+ * Queries about the transactions an address took part in.
+ * An address counts as involved through any input or output, not only the
+ * first ones kept in the sender/receiver columns.
+ */
+
+type TransactionRow = typeof transactions.$inferSelect;
+
+/**
+ * Condition on the transactions table: the address is one of the transaction's parties
+ */
+export function involvesAddress(address: string): SQL {
+  return or(
+    eq(transactions.sender, address),
+    eq(transactions.receiver, address),
+    inArray(transactions.hash, db.select({ hash: transactionInputs.transaction_hash })
+      .from(transactionInputs)
+      .where(eq(transactionInputs.address, address))),
+    inArray(transactions.hash, db.select({ hash: transactionOutputs.transaction_hash })
+      .from(transactionOutputs)
+      .where(eq(transactionOutputs.address, address)))
+  )!;
+}
+
+/**
+ * Condition on the transactions table: one of the parties is in a set of addresses
+ * @param addresses Subquery selecting a single address column
+ */
+export function involvesAnyAddress(addresses: SQLWrapper): SQL {
+  return or(
+    inArray(transactions.sender, addresses),
+    inArray(transactions.receiver, addresses),
+    inArray(transactions.hash, db.select({ hash: transactionInputs.transaction_hash })
+      .from(transactionInputs)
+      .where(inArray(transactionInputs.address, addresses))),
+    inArray(transactions.hash, db.select({ hash: transactionOutputs.transaction_hash })
+      .from(transactionOutputs)
+      .where(inArray(transactionOutputs.address, addresses)))
+  )!;
+}
+
+/**
+ * Condition on the transactions table: a party's address contains the given text (case-insensitive)
+ */
+export function involvesAddressLike(text: string): SQL {
+  const pattern = `%${text}%`;
+  return or(
+    ilike(transactions.sender, pattern),
+    ilike(transactions.receiver, pattern),
+    inArray(transactions.hash, db.select({ hash: transactionInputs.transaction_hash })
+      .from(transactionInputs)
+      .where(ilike(transactionInputs.address, pattern))),
+    inArray(transactions.hash, db.select({ hash: transactionOutputs.transaction_hash })
+      .from(transactionOutputs)
+      .where(ilike(transactionOutputs.address, pattern)))
+  )!;
+}
+
+function toBigInt(value: string | null): bigint {
+  return value && /^-?\d+$/.test(value) ? BigInt(value) : 0n;
+}
+
+/**
+ * Add what the address sent and received in each transaction (smallest unit, summed over
+ * all of its inputs and outputs) and the resulting balance change
+ */
+export async function withAddressFlows<T extends TransactionRow>(address: string, rows: T[]) {
+  if (rows.length === 0) return [];
+  const hashes = rows.map(tx => tx.hash);
+  const [inputs, outputs] = await Promise.all([
+    db.select({ hash: transactionInputs.transaction_hash, value: transactionInputs.value })
+      .from(transactionInputs)
+      .where(and(eq(transactionInputs.address, address), inArray(transactionInputs.transaction_hash, hashes))),
+    db.select({ hash: transactionOutputs.transaction_hash, value: transactionOutputs.value })
+      .from(transactionOutputs)
+      .where(and(eq(transactionOutputs.address, address), inArray(transactionOutputs.transaction_hash, hashes))),
+  ]);
+
+  const total = (parts: Array<{ hash: string; value: string | null }>, hash: string) =>
+    parts.filter(part => part.hash === hash).reduce((sum, part) => sum + toBigInt(part.value), 0n);
+
+  return rows.map(tx => {
+    const sent = total(inputs, tx.hash);
+    const received = total(outputs, tx.hash);
+    return {
+      ...tx,
+      address_sent: sent.toString(),
+      address_received: received.toString(),
+      balance_change: (received - sent).toString(),
+    };
+  });
+}
@@ -0,0 +1,262 @@
+import { createHash } from 'node:crypto';
+import type { ChainCode } from './providers/types.js';
+
+/**
+ * Validation of the addresses, transaction hashes and chains that requests name.
+ * - Bitcoin: Base58Check (P2PKH / P2SH) and bech32 / bech32m (SegWit v0 / v1+), mainnet only
+ * - Ethereum: 0x + 40 hex characters; mixed case must carry a valid EIP-55 checksum
+ * - Addresses and hashes come back in the form we store (Ethereum lowercased) with their chain,
+ *   or with an error message routes answer with 400
+ */
+
+export type AddressValidation = { chain: ChainCode; address: string } | { error: string };
+export type HashValidation = { chain: ChainCode; hash: string } | { error: string };
+
+const CHAIN_NAMES: Record<ChainCode, string> = { BTC: 'Bitcoin', ETH: 'Ethereum' };
+
+// Rough shapes, before any checksum is looked at
+const ADDRESS_SHAPES: Record<ChainCode, RegExp> = {
+  BTC: /^([bB][cC]1[02-9ac-hj-np-zAC-HJ-NP-Z]{6,87}|[13][1-9A-HJ-NP-Za-km-z]{25,34})$/,
+  ETH: /^0x[0-9a-fA-F]{40}$/,
+};
+
+/**
+ * Chain of a request's chain parameter, given as a chain code or chain name
+ * @returns undefined when left out, null when it names neither chain
+ */
+export function parseChainCode(value: unknown): ChainCode | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const code = String(value).toUpperCase();
+  if (code === 'BTC' || code === 'BITCOIN') return 'BTC';
+  if (code === 'ETH' || code === 'ETHEREUM') return 'ETH';
+  return null;
+}
+
+/**
+ * Whether the input is shaped like an address, valid or not (search tells addresses from free text with it)
+ */
+export function looksLikeAddress(input: string): boolean {
+  const trimmed = input.trim();
+  return Object.values(ADDRESS_SHAPES).some(shape => shape.test(trimmed));
+}
+
+/**
+ * Check an address and detect its chain
+ * @param expectedChain The chain the request named, an address of the other chain is rejected
+ */
+export function validateAddress(input: string, expectedChain?: ChainCode): AddressValidation {
+  const trimmed = input.trim();
+  if (!trimmed) return { error: 'Address is required' };
+
+  let result: AddressValidation;
+  if (ADDRESS_SHAPES.ETH.test(trimmed)) {
+    result = hasValidEip55Checksum(trimmed)
+      ? { chain: 'ETH', address: trimmed.toLowerCase() }
+      : { error: 'Invalid Ethereum address checksum (EIP-55)' };
+  } else if (/^[bB][cC]1/.test(trimmed)) {
+    const error = bech32AddressError(trimmed);
+    result = error ? { error } : { chain: 'BTC', address: trimmed.toLowerCase() };
+  } else if (ADDRESS_SHAPES.BTC.test(trimmed)) {
+    result = hasValidBase58Checksum(trimmed)
+      ? { chain: 'BTC', address: trimmed }
+      : { error: 'Invalid Bitcoin address checksum' };
+  } else {
+    return { error: `Not a valid ${expectedChain ? CHAIN_NAMES[expectedChain] : 'Bitcoin or Ethereum'} address` };
+  }
+
+  if ('chain' in result && expectedChain && result.chain !== expectedChain) {
+    return { error: `${trimmed} is a ${CHAIN_NAMES[result.chain]} address, not ${CHAIN_NAMES[expectedChain]}` };
+  }
+  return result;
+}
+
+/**
+ * Check a transaction hash and detect its chain. Both chains use 64 hex characters; Ethereum hashes
+ * carry a 0x prefix, so an unprefixed hash is a Bitcoin txid unless the request names Ethereum.
+ */
+export function validateTransactionHash(input: string, expectedChain?: ChainCode): HashValidation {
+  const hash = input.trim().toLowerCase();
+  if (/^0x[0-9a-f]{64}$/.test(hash)) {
+    return expectedChain === 'BTC'
+      ? { error: 'Bitcoin transaction hashes have no 0x prefix' }
+      : { chain: 'ETH', hash };
+  }
+  if (/^[0-9a-f]{64}$/.test(hash)) {
+    return expectedChain === 'ETH' ? { chain: 'ETH', hash: `0x${hash}` } : { chain: 'BTC', hash };
+  }
+  return { error: 'Not a valid transaction hash, expected 64 hex characters (0x-prefixed for Ethereum)' };
+}
+
+// --- Bitcoin: Base58Check ---
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+// Mainnet version bytes: P2PKH (1...) and P2SH (3...)
+const BASE58_VERSIONS = [0x00, 0x05];
+
+function sha256(data: Uint8Array): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function base58Decode(input: string): Uint8Array | null {
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  for (; value > 0n; value >>= 8n) bytes.unshift(Number(value & 0xffn));
+  // Every leading '1' stands for a zero byte
+  const zeros = input.length - input.replace(/^1+/, '').length;
+  return Uint8Array.from([...new Array(zeros).fill(0), ...bytes]);
+}
+
+function hasValidBase58Checksum(address: string): boolean {
+  const bytes = base58Decode(address);
+  if (!bytes || bytes.length !== 25 || !BASE58_VERSIONS.includes(bytes[0])) return false;
+  const checksum = sha256(sha256(bytes.subarray(0, 21)));
+  return checksum.subarray(0, 4).equals(bytes.subarray(21));
+}
+
+// --- Bitcoin: bech32 (BIP 173) and bech32m (BIP 350) ---
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONSTANT = 1;
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATORS.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const codes = [...hrp].map(char => char.charCodeAt(0));
+  return [...codes.map(code => code >> 5), 0, ...codes.map(code => code & 31)];
+}
+
+// Regroup 5-bit words into bytes; null when the padding isn't zero
+function fromWords(words: number[]): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) return null;
+  return bytes;
+}
+
+function bech32AddressError(address: string): string | null {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    return 'Bech32 addresses must not mix upper and lower case';
+  }
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  const words = [...lower.slice(separator + 1)].map(char => BECH32_CHARSET.indexOf(char));
+  if (lower.length > 90 || words.length < 7 || words.includes(-1)) return 'Not a valid bech32 address';
+
+  const constant = bech32Polymod([...hrpExpand(lower.slice(0, separator)), ...words]);
+  if (constant !== BECH32_CONSTANT && constant !== BECH32M_CONSTANT) return 'Invalid Bitcoin address checksum';
+
+  const [version, ...programWords] = words.slice(0, -6);
+  const program = fromWords(programWords);
+  if (version > 16 || !program || program.length < 2 || program.length > 40) {
+    return 'Not a valid SegWit address';
+  }
+  // SegWit v0 uses bech32 with a 20 or 32 byte program, later versions use bech32m
+  if (version === 0 && program.length !== 20 && program.length !== 32) return 'Not a valid SegWit address';
+  if (constant !== (version === 0 ? BECH32_CONSTANT : BECH32M_CONSTANT)) return 'Invalid Bitcoin address checksum';
+  return null;
+}
+
+// --- Ethereum: EIP-55 ---
+
+function hasValidEip55Checksum(address: string): boolean {
+  const hex = address.slice(2);
+  // All lower or all upper case addresses carry no checksum
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+  const hash = keccak256(Buffer.from(hex.toLowerCase(), 'ascii')).toString('hex');
+  return [...hex].every((char, i) => {
+    if (/[0-9]/.test(char)) return true;
+    const upper = parseInt(hash[i], 16) >= 8;
+    return upper ? char === char.toUpperCase() : char === char.toLowerCase();
+  });
+}
+
+// Keccak-256 as Ethereum uses it (the original padding, not SHA3-256's, so node:crypto can't do it)
+const KECCAK_ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+// Rotation offset of each lane, indexed x + 5y
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+const LANE_MASK = (1n << 64n) - 1n;
+const KECCAK_RATE = 136;
+
+function rotateLeft(lane: bigint, offset: number): bigint {
+  if (offset === 0) return lane;
+  return ((lane << BigInt(offset)) | (lane >> BigInt(64 - offset))) & LANE_MASK;
+}
+
+function keccakPermute(state: bigint[]): void {
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    // θ
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotateLeft(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    // ρ and π
+    const moved = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ ((moved[(x + 1) % 5 + y] ^ LANE_MASK) & moved[(x + 2) % 5 + y]);
+      }
+    }
+    // ι
+    state[0] ^= roundConstant;
+  }
+}
+
+export function keccak256(data: Uint8Array): Buffer {
+  const blocks = Math.floor(data.length / KECCAK_RATE) + 1;
+  const padded = Buffer.alloc(blocks * KECCAK_RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE) {
+    for (let lane = 0; lane < KECCAK_RATE / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakPermute(state);
+  }
+
+  const digest = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) digest.writeBigUInt64LE(state[lane], lane * 8);
+  return digest;
+}
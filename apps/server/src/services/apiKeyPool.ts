@@ -0,0 +1,180 @@
+import { logger } from '../utils/logger.js';
+import {
+  TokenBucketRateLimiter,
+  type RateLimitConfig,
+  type RateLimiterState,
+  type RequestLane,
+  type RateLimiterStatus
+} from './rateLimiter.js';
+
+/**
+ * Pool of Blockchair API keys.
+ * - Every key has its own token bucket and daily budget
+ * - Requests go to the key with capacity left (most daily budget first)
+ * - A key answered with 402/429/430 is taken out of rotation for a cooldown
+ * - Without configured keys the pool holds a single keyless slot
+ */
+
+// Responses that mean a key is out of quota or temporarily banned
+export const KEY_COOLDOWN_STATUSES = [402, 429, 430];
+
+export interface ApiKeySlot {
+  // Masked key, safe to log and to show on the status endpoint
+  id: string;
+  key: string | null;
+  limiter: TokenBucketRateLimiter;
+  totalRequests: number;
+  totalCost: number;
+  totalErrors: number;
+  lastErrorStatus: number | null;
+  cooldownUntil: number;
+}
+
+export interface ApiKeyStatus extends RateLimiterStatus {
+  id: string;
+  totalRequests: number;
+  totalCost: number;
+  totalErrors: number;
+  lastErrorStatus: number | null;
+  coolingDown: boolean;
+  cooldownUntil: string | null;
+}
+
+interface ApiKeySlotState {
+  limiter: RateLimiterState;
+  totalRequests: number;
+  totalCost: number;
+  totalErrors: number;
+  lastErrorStatus: number | null;
+  cooldownUntil: number;
+}
+
+export type ApiKeyPoolState = Record<string, ApiKeySlotState>;
+
+export function maskApiKey(key: string): string {
+  return key.length <= 8 ? `${key.slice(0, 2)}…` : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+export class ApiKeyPool {
+  readonly slots: ApiKeySlot[];
+
+  constructor(keys: string[], config: RateLimitConfig, readonly cooldownMs: number, now: number = Date.now()) {
+    const distinctKeys = [...new Set(keys)];
+    const slotKeys: Array<string | null> = distinctKeys.length > 0 ? distinctKeys : [null];
+    this.slots = slotKeys.map(key => ({
+      id: key ? maskApiKey(key) : 'keyless',
+      key,
+      limiter: new TokenBucketRateLimiter(config, now),
+      totalRequests: 0,
+      totalCost: 0,
+      totalErrors: 0,
+      lastErrorStatus: null,
+      cooldownUntil: 0,
+    }));
+  }
+
+  private slotWaitTime(slot: ApiKeySlot, now: number, lane: RequestLane): number {
+    return Math.max(slot.cooldownUntil - now, slot.limiter.getWaitTime(1, now, lane), 0);
+  }
+
+  /**
+   * Milliseconds until any key can take a request in the given lane
+   */
+  getWaitTime(now: number = Date.now(), lane: RequestLane = 'user'): number {
+    return Math.min(...this.slots.map(slot => this.slotWaitTime(slot, now, lane)));
+  }
+
+  /**
+   * Pick a key that can send a request right now and reserve one unit on it
+   * @returns null when every key is rate limited or cooling down
+   */
+  acquire(now: number = Date.now(), lane: RequestLane = 'user'): ApiKeySlot | null {
+    const available = this.slots
+      .filter(slot => this.slotWaitTime(slot, now, lane) === 0)
+      .sort((a, b) => b.limiter.getStatus(now).dailyRemaining - a.limiter.getStatus(now).dailyRemaining);
+    const slot = available[0];
+    if (!slot) return null;
+
+    slot.limiter.consume(1, now);
+    slot.totalRequests++;
+    slot.totalCost += 1;
+    return slot;
+  }
+
+  /**
+   * Charge cost beyond the unit reserved by acquire()
+   */
+  charge(slot: ApiKeySlot, extraCost: number, now: number = Date.now()): void {
+    if (extraCost <= 0) return;
+    slot.limiter.consume(extraCost, now);
+    slot.totalCost += extraCost;
+  }
+
+  /**
+   * Count a failed request; quota responses take the key out of rotation,
+   * for as long as the server asked (Retry-After) or the configured cooldown
+   */
+  recordError(slot: ApiKeySlot, status: number | null, now: number = Date.now(), retryAfterMs: number | null = null): void {
+    slot.totalErrors++;
+    slot.lastErrorStatus = status;
+    if (status !== null && KEY_COOLDOWN_STATUSES.includes(status)) {
+      slot.cooldownUntil = now + (retryAfterMs ?? this.cooldownMs);
+      logger.warn(`Blockchair key ${slot.id} answered ${status}, cooling down until ${new Date(slot.cooldownUntil).toISOString()}`);
+    }
+  }
+
+  /**
+   * Estimated wait for the request at the given position in the queue (0 = next),
+   * assuming requests are spread over every key that isn't cooling down
+   */
+  estimateWait(position: number, now: number = Date.now()): number {
+    const active = this.slots.filter(slot => slot.cooldownUntil <= now);
+    const perMinute = (active.length > 0 ? active : this.slots)
+      .reduce((sum, slot) => sum + slot.limiter.config.requestsPerMinute, 0);
+    return this.getWaitTime(now) + position * (60000 / perMinute);
+  }
+
+  getStatus(now: number = Date.now()): ApiKeyStatus[] {
+    return this.slots.map(slot => ({
+      id: slot.id,
+      ...slot.limiter.getStatus(now),
+      totalRequests: slot.totalRequests,
+      totalCost: slot.totalCost,
+      totalErrors: slot.totalErrors,
+      lastErrorStatus: slot.lastErrorStatus,
+      coolingDown: slot.cooldownUntil > now,
+      cooldownUntil: slot.cooldownUntil > now ? new Date(slot.cooldownUntil).toISOString() : null,
+    }));
+  }
+
+  toState(): ApiKeyPoolState {
+    const state: ApiKeyPoolState = {};
+    for (const slot of this.slots) {
+      state[slot.id] = {
+        limiter: slot.limiter.toState(),
+        totalRequests: slot.totalRequests,
+        totalCost: slot.totalCost,
+        totalErrors: slot.totalErrors,
+        lastErrorStatus: slot.lastErrorStatus,
+        cooldownUntil: slot.cooldownUntil,
+      };
+    }
+    return state;
+  }
+
+  /**
+   * Restore persisted state; keys that were added or removed since are simply ignored
+   */
+  restoreState(state: ApiKeyPoolState, now: number = Date.now()): void {
+    for (const slot of this.slots) {
+      const saved = state[slot.id];
+      if (!saved) continue;
+      slot.limiter.restoreState(saved.limiter, now);
+      slot.totalRequests = Number(saved.totalRequests) || 0;
+      slot.totalCost = Number(saved.totalCost) || 0;
+      slot.totalErrors = Number(saved.totalErrors) || 0;
+      slot.lastErrorStatus = saved.lastErrorStatus ?? null;
+      slot.cooldownUntil = Number(saved.cooldownUntil) || 0;
+    }
+  }
+}
@@ -1,172 +1,190 @@
-import fetch from 'node-fetch';
+import fetch, { type Response } from 'node-fetch';
 import { logger } from '../utils/logger.js';
 import { env } from '../env.js';
-import { blockchairQueue, RequestPriority } from './blockchairRequestQueue.js';
+import { parseRetryAfter } from './requestErrors.js';
+import {
+  blockchairQueue,
+  type QueueOperation,
+  type RequestContext,
+  type RequestOptions,
+  type ResultHandlerRef
+} from './blockchairRequestQueue.js';
 
-const BLOCKCHAIR_BASE_URL = 'https://api.blockchair.com';
+const BLOCKCHAIR_BASE_URL = env.BLOCKCHAIR_API_URL;
+
+// Queue operation kinds, persisted with each queued request
+export const BLOCKCHAIR_GET = 'blockchair.get';
+export const BLOCKCHAIR_RECENT_TRANSACTIONS = 'blockchair.recentTransactions';
+
+/**
+ * Error response from the Blockchair API, keeps what the queue needs to decide on a retry
+ */
+export class BlockchairApiError extends Error {
+  constructor(
+    readonly status: number,
+    statusText: string,
+    // Delay requested through Retry-After, if any
+    readonly retryAfterMs: number | null = null,
+    // Blockchair's explanation from the response's `context.error`
+    readonly detail: string | null = null,
+    prefix: string = 'API error'
+  ) {
+    super(`${prefix}: ${status} ${statusText}${detail ? ` (${detail})` : ''}`);
+    this.name = 'BlockchairApiError';
+  }
+}
+
+/**
+ * Build the error for a failed response, reading Retry-After and the error context
+ */
+async function toApiError(response: Response, prefix?: string): Promise<BlockchairApiError> {
+  let detail: string | null = null;
+  try {
+    const body: any = await response.json();
+    detail = typeof body?.context?.error === 'string' ? body.context.error : null;
+  } catch {
+    // Not every error response has a JSON body
+  }
+  return new BlockchairApiError(
+    response.status,
+    response.statusText,
+    parseRetryAfter(response.headers.get('retry-after')),
+    detail,
+    prefix
+  );
+}
+
+/**
+ * Full URL for an API path, with the API key appended when one is given
+ */
+function blockchairUrl(path: string, apiKey: string | null = null): string {
+  if (!apiKey) return `${BLOCKCHAIR_BASE_URL}${path}`;
+  const separator = path.includes('?') ? '&' : '?';
+  return `${BLOCKCHAIR_BASE_URL}${path}${separator}key=${encodeURIComponent(apiKey)}`;
+}
+
+/**
+ * GET a Blockchair API path and parse the JSON body
+ */
+async function blockchairGet(path: string, { apiKey, signal }: RequestContext) {
+  const response = await fetch(blockchairUrl(path, apiKey), { signal });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  return await response.json();
+}
+
+/**
+ * Canonical form of an API path (sorted query parameters), so identical calls
+ * share one queue key and are coalesced
+ */
+export function canonicalPath(path: string): string {
+  const [pathname, query] = path.split('?');
+  if (!query) return pathname;
+  const params = new URLSearchParams(query);
+  params.sort();
+  return `${pathname}?${params.toString()}`;
+}
+
+/**
+ * Queue operation for a plain GET request
+ */
+function getOperation(path: string, onResult?: ResultHandlerRef): QueueOperation {
+  return { kind: BLOCKCHAIR_GET, params: { path: canonicalPath(path) }, onResult };
+}
 
 /**
  * Fetch dashboard stats from Blockchair
+ * @param isUserRequest Set to true when the user asked for a manual refresh
+ * @param onResult Result handler that stores the response, also after a restart
+ * @param requestOptions Cancellation signal, deadline and page of the request
  */
-export async function fetchDashboardStats() {
+export function fetchDashboardStats(isUserRequest: boolean = false, onResult?: ResultHandlerRef, requestOptions: RequestOptions = {}) {
   return blockchairQueue.addRequest(
-    async () => {
-      const response = await fetch(`${BLOCKCHAIR_BASE_URL}/stats`);
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    },
-    false, // Not a user request
-    'Fetch dashboard stats'
+    getOperation('/stats', onResult),
+    isUserRequest,
+    'Fetch dashboard stats',
+    requestOptions
   );
 }
 
 /**
  * Fetch recent Bitcoin transactions
  */
-export async function fetchRecentBitcoinTransactions(limit = 10) {
+export async function fetchRecentBitcoinTransactions(limit = 10, requestOptions: RequestOptions = {}) {
   return blockchairQueue.addRequest(
-    async () => {
-      const response = await fetch(
-        `${BLOCKCHAIR_BASE_URL}/bitcoin/mempool/transactions?limit=${limit}`
-      );
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    },
+    getOperation(`/bitcoin/mempool/transactions?limit=${limit}`),
     false, // Not a user request
-    `Fetch recent Bitcoin transactions (limit: ${limit})`
+    `Fetch recent Bitcoin transactions (limit: ${limit})`,
+    requestOptions
   );
 }
 
 /**
  * Fetch recent Ethereum transactions
  */
-export async function fetchRecentEthereumTransactions(limit = 10) {
+export async function fetchRecentEthereumTransactions(limit = 10, requestOptions: RequestOptions = {}) {
   return blockchairQueue.addRequest(
-    async () => {
-      const response = await fetch(
-        `${BLOCKCHAIR_BASE_URL}/ethereum/mempool/transactions?limit=${limit}`
-      );
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    },
+    getOperation(`/ethereum/mempool/transactions?limit=${limit}`),
     false, // Not a user request
-    `Fetch recent Ethereum transactions (limit: ${limit})`
+    `Fetch recent Ethereum transactions (limit: ${limit})`,
+    requestOptions
   );
 }
 
 /**
  * Fetch wallet information by address
  * @param isUserRequest Set to true when called due to user clicking on a wallet address
+ * @param requestOptions Cancellation signal, deadline and page of the request
  */
-export async function fetchWalletByAddress(chain: 'bitcoin' | 'ethereum', address: string, isUserRequest: boolean = true) {
-  // DEMO MODE: Direct API call without queue to avoid rate limit errors during demo
-  if (isUserRequest) {
-    logger.warn(`!!! MAKING DIRECT WALLET REQUEST WITHOUT QUEUE FOR DEMO PURPOSES: ${address} !!!`);
-    try {
-      // Wait a short delay to respect rate limits if there's been a recent request
-      const timeUntilNextAllowed = blockchairQueue.getTimeUntilNextRequest();
-      if (timeUntilNextAllowed > 0) {
-        logger.info(`Waiting ${Math.round(timeUntilNextAllowed/1000)}s before making wallet request to respect rate limits`);
-        await new Promise(resolve => setTimeout(resolve, timeUntilNextAllowed + 500));
-      }
-      
-      const response = await fetch(
-        `${BLOCKCHAIR_BASE_URL}/${chain}/dashboards/address/${address}`
-      );
-      if (!response.ok) {
-        // For demo purposes, return a mock response if API is rate limited
-        if (response.status === 430 || response.status === 429) {
-          logger.warn(`Rate limit hit for wallet ${address}, returning mock data for demo`);
-          return {
-            data: {
-              [address]: {
-                address: {
-                  type: "witness_v1_taproot",
-                  script_hex: "mock_data",
-                  balance: 1000000,
-                  balance_usd: 1000,
-                  received: 2000000,
-                  received_usd: 2000,
-                  spent: 1000000,
-                  spent_usd: 1000,
-                  output_count: 5,
-                  unspent_output_count: 3,
-                  first_seen_receiving: "2023-01-01 00:00:00",
-                  last_seen_receiving: "2023-03-01 00:00:00",
-                  first_seen_spending: "2023-02-01 00:00:00",
-                  last_seen_spending: "2023-04-01 00:00:00",
-                  transaction_count: 8
-                },
-                transactions: [
-                  {
-                    hash: "mock_tx_hash_1",
-                    time: "2023-04-01 00:00:00",
-                    balance_change: 500000
-                  },
-                  {
-                    hash: "mock_tx_hash_2",
-                    time: "2023-03-01 00:00:00",
-                    balance_change: -300000
-                  }
-                ]
-              }
-            },
-            context: {
-              code: 200,
-              source: "mock-data-due-to-rate-limit",
-              limit: "0,0",
-              offset: "0,0",
-              results: 1,
-              state: 896000,
-              market_price_usd: 100000,
-              cache: {
-                live: true,
-                duration: 0,
-                since: "2023-05-10 00:00:00",
-                until: "2023-05-10 00:00:00",
-                time: 0
-              },
-              api: {
-                version: "2.0.0",
-                last_major_update: "2023-01-01 00:00:00",
-                documentation: "https://blockchair.com/api/docs",
-              },
-              servers: "API-server",
-              time: 0.0001,
-              render_time: 0.0001,
-              full_time: 0.0001,
-              request_cost: 1
-            }
-          };
-        }
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    } catch (error) {
-      logger.error(`Error in direct wallet fetch for ${chain} wallet ${address}`, error);
-      throw error;
-    }
-  }
-  
-  // Normal queued request if not a user request
+export function fetchWalletByAddress(
+  chain: 'bitcoin' | 'ethereum',
+  address: string,
+  isUserRequest: boolean = true,
+  requestOptions: RequestOptions = {}
+) {
+  return queueWalletFetch(chain, address, isUserRequest, undefined, requestOptions);
+}
+
+/**
+ * Queue a wallet lookup and hand back the queued request (with its id) straight away
+ * @param onResult Result handler that stores the response, also after a restart
+ */
+export function queueWalletFetch(
+  chain: 'bitcoin' | 'ethereum',
+  address: string,
+  isUserRequest: boolean = true,
+  onResult?: ResultHandlerRef,
+  requestOptions: RequestOptions = {}
+) {
   return blockchairQueue.addRequest(
-    async () => {
-      const response = await fetch(
-        `${BLOCKCHAIR_BASE_URL}/${chain}/dashboards/address/${address}`
-      );
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    },
+    getOperation(`/${chain}/dashboards/address/${address}`, onResult),
     isUserRequest, // Usually a user-initiated request
-    `Fetch ${chain} wallet ${address}`
+    `Fetch ${chain} wallet ${address}`,
+    requestOptions
+  );
+}
+
+/**
+ * Queue one page of an address's transaction history, newest first. Bitcoin entries come with
+ * their balance change (transaction_details=true), Ethereum's as the address's calls
+ * @param onResult Result handler that stores the response, also after a restart
+ */
+export function queueAddressHistoryFetch(
+  chain: 'bitcoin' | 'ethereum',
+  address: string,
+  offset: number,
+  limit: number,
+  isUserRequest: boolean = true,
+  onResult?: ResultHandlerRef,
+  requestOptions: RequestOptions = {}
+) {
+  const details = chain === 'bitcoin' ? '&transaction_details=true' : '';
+  return blockchairQueue.addRequest(
+    getOperation(`/${chain}/dashboards/address/${address}?limit=${limit}&offset=${offset}${details}`, onResult),
+    isUserRequest,
+    `Fetch ${chain} wallet ${address} history (offset: ${offset})`,
+    requestOptions
   );
 }
 
@@ -182,15 +200,7 @@ export async function fetchWalletByAddressCritical(chain: 'bitcoin' | 'ethereum'
   logger.info(`Making CRITICAL wallet request for ${address} (exclusive mode)`);
   try {
     const walletData = await blockchairQueue.addCriticalRequest(
-      async () => {
-        const response = await fetch(
-          `${BLOCKCHAIR_BASE_URL}/${chain}/dashboards/address/${address}`
-        );
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status} ${response.statusText}`);
-        }
-        return await response.json();
-      },
+      getOperation(`/${chain}/dashboards/address/${address}`),
       `CRITICAL Fetch ${chain} wallet ${address}`,
       address
     );
@@ -206,20 +216,44 @@ export async function fetchWalletByAddressCritical(chain: 'bitcoin' | 'ethereum'
 /**
  * Fetch transaction details by hash
  * @param isUserRequest Set to true when called due to user clicking on a transaction
+ * @param onResult Result handler that stores the response, also after a restart
  */
-export async function fetchTransactionByHash(chain: 'bitcoin' | 'ethereum', hash: string, isUserRequest: boolean = true) {
+export function fetchTransactionByHash(
+  chain: 'bitcoin' | 'ethereum',
+  hash: string,
+  isUserRequest: boolean = true,
+  onResult?: ResultHandlerRef,
+  requestOptions: RequestOptions = {}
+) {
   return blockchairQueue.addRequest(
-    async () => {
-      const response = await fetch(
-        `${BLOCKCHAIR_BASE_URL}/${chain}/dashboards/transaction/${hash}`
-      );
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      return await response.json();
-    },
+    getOperation(`/${chain}/dashboards/transaction/${hash}`, onResult),
     isUserRequest, // Usually a user-initiated request
-    `Fetch ${chain} transaction ${hash}`
+    `Fetch ${chain} transaction ${hash}`,
+    requestOptions
+  );
+}
+
+// Blockchair answers at most this many hashes per dashboards/transactions call
+export const MAX_TRANSACTIONS_PER_BATCH = 10;
+
+/**
+ * Fetch the details of several transactions in one call (hashes Blockchair doesn't know are missing from the result)
+ * @param isUserRequest Set to true when the user is waiting for the result
+ */
+export function fetchTransactionsByHashes(
+  chain: 'bitcoin' | 'ethereum',
+  hashes: string[],
+  isUserRequest: boolean = false,
+  requestOptions: RequestOptions = {}
+) {
+  if (hashes.length > MAX_TRANSACTIONS_PER_BATCH) {
+    throw new Error(`At most ${MAX_TRANSACTIONS_PER_BATCH} transactions can be fetched at once, got ${hashes.length}`);
+  }
+  return blockchairQueue.addRequest(
+    getOperation(`/${chain}/dashboards/transactions/${hashes.join(',')}`),
+    isUserRequest,
+    `Fetch ${hashes.length} ${chain} transactions`,
+    requestOptions
   );
 }
 
@@ -238,61 +272,15 @@ export function getEstimatedWaitTimeForRequest(id: string) {
 }
 
 /**
- * Helper to get request status by ID
+ * Helper to get request status by ID (also finds requests made before a restart)
  */
-export function getRequestStatus(id: string) {
+export async function getRequestStatus(id: string) {
   return blockchairQueue.getRequestStatus(id);
 }
 
-/**
- * Extract sender address from transaction data
- */
-export function extractSenderAddress(txData: any, chain: 'bitcoin' | 'ethereum'): string | null {
-  if (!txData) return null;
-  
-  if (chain === 'bitcoin') {
-    // For Bitcoin, check inputs array
-    if (txData.inputs && txData.inputs.length > 0) {
-      // Use the first input's recipient as sender
-      return txData.inputs[0].recipient || null;
-    }
-    // Fallback to sender field
-    return txData.sender || null;
-  } else {
-    // For Ethereum
-    if (txData.transaction && txData.transaction.sender) {
-      return txData.transaction.sender;
-    }
-    return txData.sender || null;
-  }
-}
-
-/**
- * Extract receiver address from transaction data
- */
-export function extractReceiverAddress(txData: any, chain: 'bitcoin' | 'ethereum'): string | null {
-  if (!txData) return null;
-  
-  if (chain === 'bitcoin') {
-    // For Bitcoin, check outputs array
-    if (txData.outputs && txData.outputs.length > 0) {
-      // Use the first output's recipient as receiver
-      return txData.outputs[0].recipient || null;
-    }
-    // Fallback to recipient field
-    return txData.recipient || null;
-  } else {
-    // For Ethereum
-    if (txData.transaction && txData.transaction.recipient) {
-      return txData.transaction.recipient;
-    }
-    return txData.recipient || null;
-  }
-}
-
 /**
  * Fetch wallet information by address as a user-initiated critical request
- * This will completely pause the entire system and directly execute the request
+ * This pauses all other queued work until the request has gone through
  * @param chain The blockchain to query
  * @param address The wallet address
  * @returns Promise with wallet data
@@ -301,19 +289,9 @@ export async function fetchWalletByAddressUserCritical(chain: 'bitcoin' | 'ether
   logger.info(`Making USER CRITICAL wallet request for ${address} (pausing all other activity)`);
   
   try {
-    // Use the user critical request method which bypasses the queue
+    // Runs through the queue ahead of everything else
     const walletData = await blockchairQueue.addUserCriticalRequest(
-      async () => {
-        const response = await fetch(
-          `${BLOCKCHAIR_BASE_URL}/${chain}/dashboards/address/${address}`
-        );
-        
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status} ${response.statusText}`);
-        }
-        
-        return await response.json();
-      },
+      getOperation(`/${chain}/dashboards/address/${address}`),
       `USER CRITICAL ${chain} wallet ${address}`
     );
     
@@ -326,13 +304,15 @@ export async function fetchWalletByAddressUserCritical(chain: 'bitcoin' | 'ether
 
 /**
  * Fetch recent transactions from the specified blockchain with a time filter
- * Gets transactions from the past timeMinutes, limited to specified count
+ * Gets transactions from the past timeMinutes, limited to specified count.
+ * Bitcoin sender/receiver details come from a second, separately queued batch lookup.
  */
 export async function fetchRecentTransactionsWithTimeFilter(
   chain: 'bitcoin' | 'ethereum', 
   timeMinutes: number = 10, 
   limit: number = 10, // Reduced to 10 to match Blockchair's batch limit
-  isUserRequest: boolean = false
+  isUserRequest: boolean = false,
+  requestOptions: RequestOptions = {}
 ) {
   // Get current Unix timestamp (seconds since epoch)
   const currentTime = Math.floor(Date.now() / 1000);
@@ -341,164 +321,146 @@ export async function fetchRecentTransactionsWithTimeFilter(
   
   logger.debug(`Time filter: ${new Date(pastTime * 1000).toISOString()} to ${new Date(currentTime * 1000).toISOString()}`);
   
-  return blockchairQueue.addRequest(
-    async () => {
-      // Fetching confirmed transactions (mempool/transactions is for unconfirmed only)
-      // We're getting transactions from blockchain, not mempool
-      const url = `${BLOCKCHAIR_BASE_URL}/${chain}/transactions?limit=${limit}&sort=time(desc)`;
-      
-      logger.info(`Fetching ${chain} transactions: ${url}`);
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      // Log sample of the data structure
-      if (data && data.data && data.data.length > 0) {
-        logger.debug(`Sample ${chain} transaction data structure:`, JSON.stringify(data.data[0]));
-      }
-      
-      // Log what we're getting
-      logger.debug(`Received ${chain} transactions response with ${data?.data?.length || 0} transactions`);
-      
-      // Always fetch full transaction details for Bitcoin to get proper sender/receiver
-      if (chain === 'bitcoin' && data && Array.isArray(data.data) && data.data.length > 0) {
-        // Extract the transaction hashes to fetch detailed info
-        const txHashes = data.data
-          .filter((tx: { hash?: string }) => tx && tx.hash)
-          .map((tx: { hash: string }) => tx.hash);
-        
-        if (txHashes.length === 0) {
-          logger.warn('No valid transaction hashes found to fetch details');
-          return data;
-        }
-        
-        // Use the batch API to fetch details for multiple transactions at once
-        // Blockchair supports up to 10 transactions per batch request
-        logger.debug(`Fetching details for ${txHashes.length} Bitcoin transactions in batch`);
-        
-        const batchUrl = `${BLOCKCHAIR_BASE_URL}/bitcoin/dashboards/transactions/${txHashes.join(',')}`;
-        logger.info(`Batch fetching transaction details: ${batchUrl}`);
-        
-        // DIRECT REQUEST FOR DEMO PURPOSES - bypassing the queue for the second call
-        logger.warn('!!! MAKING DIRECT BATCH REQUEST WITHOUT QUEUE FOR DEMO PURPOSES !!!');
-        const detailResponse = await fetch(batchUrl);
-        if (!detailResponse.ok) {
-          throw new Error(`API error in batch fetch: ${detailResponse.status} ${detailResponse.statusText}`);
-        }
-        const batchDetailsResponse = await detailResponse.json();
-        
-        // Log the structure of the batch response for debugging
-        if (batchDetailsResponse && batchDetailsResponse.data) {
-          const firstHash = Object.keys(batchDetailsResponse.data)[0];
-          if (firstHash) {
-            logger.debug(`Sample batch transaction detail structure:`, 
-              JSON.stringify(batchDetailsResponse.data[firstHash]).substring(0, 500));
-          }
-        }
-        
-        // Create a structure to hold our enhanced data
-        const enhancedData: { data: Record<string, any> } = { data: {} };
-        
-        // Check if we got valid batch response
-        if (batchDetailsResponse && batchDetailsResponse.data) {
-          logger.debug(`Successfully received batch transaction details with ${Object.keys(batchDetailsResponse.data).length} transactions`);
-          
-          // Process each transaction with its detailed info
-          for (const tx of data.data) {
-            if (!tx || !tx.hash) continue;
-            
-            // Get the detailed data for this transaction
-            const txDetail = batchDetailsResponse.data[tx.hash];
-            
-            if (txDetail) {
-              // Initialize sender and receiver arrays
-              let senderAddresses: string[] = [];
-              let receiverAddresses: string[] = [];
-              
-              // Extract inputs (senders)
-              if (txDetail.inputs && Array.isArray(txDetail.inputs)) {
-                senderAddresses = txDetail.inputs
-                  .filter((input: any) => input && input.recipient && typeof input.recipient === 'string')
-                  .map((input: any) => input.recipient);
-              }
-              
-              // Extract outputs (receivers)
-              if (txDetail.outputs && Array.isArray(txDetail.outputs)) {
-                receiverAddresses = txDetail.outputs
-                  .filter((output: any) => output && output.recipient && typeof output.recipient === 'string')
-                  .map((output: any) => output.recipient);
-              }
-              
-              // Create enhanced transaction object with details
-              enhancedData.data[tx.hash] = {
-                ...tx,
-                input_addresses: senderAddresses,
-                output_addresses: receiverAddresses,
-                details: txDetail,
-                has_detailed_info: true,
-                sender: senderAddresses.length > 0 ? senderAddresses[0] : 'Unknown',
-                receiver: receiverAddresses.length > 0 ? receiverAddresses[0] : 'Unknown'
-              };
-              
-              logger.debug(`Enhanced transaction ${tx.hash} with sender: ${senderAddresses[0] || 'none'} and receiver: ${receiverAddresses[0] || 'none'}`);
-            } else {
-              // If no detailed data available, use basic info
-              enhancedData.data[tx.hash] = {
-                ...tx,
-                has_detailed_info: false,
-                sender: 'Unknown',
-                receiver: 'Unknown'
-              };
-              logger.debug(`Failed to enhance transaction ${tx.hash} - no detailed data available in batch response`);
-            }
-          }
-          
-          return enhancedData;
-        } else {
-          logger.warn('Failed to get batch transaction details response');
-          // Fall back to original data if batch request fails
-          const simpleEnhancedData: { data: Record<string, any> } = { data: {} };
-          for (const tx of data.data) {
-            if (!tx || !tx.hash) continue;
-            simpleEnhancedData.data[tx.hash] = {
-              ...tx,
-              has_detailed_info: false,
-              sender: 'Unknown',
-              receiver: 'Unknown'
-            };
-          }
-          return simpleEnhancedData;
-        }
-      }
-      
-      // For Ethereum, modify the structure to be consistent with our system
-      if (chain === 'ethereum' && data && Array.isArray(data.data) && data.data.length > 0) {
-        const enhancedData: { data: Record<string, any> } = { data: {} };
-        
-        // Process all Ethereum transactions
-        for (const tx of data.data) {
-          if (!tx || !tx.hash) continue;
-          
-          enhancedData.data[tx.hash] = {
-            ...tx,
-            // Ensure we have consistent naming for sender/receiver
-            sender: tx.sender || 'Unknown',
-            recipient: tx.recipient || tx.receiver || 'Unknown',
-            has_detailed_info: true
-          };
-        }
-        
-        return enhancedData;
-      }
-      
-      // Return the original data if no transformations were applied
-      return data;
-    },
+  const data = await blockchairQueue.addRequest(
+    { kind: BLOCKCHAIR_RECENT_TRANSACTIONS, params: { chain, limit } },
     isUserRequest,
-    `Fetch recent ${chain} transactions with detailed data (limit: ${limit})`
+    `Fetch recent ${chain} transactions (limit: ${limit})`,
+    requestOptions
   );
-} 
\ No newline at end of file
+  if (chain !== 'bitcoin' || !data || !Array.isArray(data.data) || data.data.length === 0) {
+    return data;
+  }
+  
+  // Always fetch full transaction details for Bitcoin to get proper sender/receiver
+  const txHashes: string[] = data.data
+    .filter((tx: { hash?: string }) => tx && tx.hash)
+    .map((tx: { hash: string }) => tx.hash);
+  
+  if (txHashes.length === 0) {
+    logger.warn('No valid transaction hashes found to fetch details');
+    return data;
+  }
+  
+  // Use the batch API to fetch details for multiple transactions at once
+  // Blockchair supports up to 10 transactions per batch request
+  logger.debug(`Fetching details for ${txHashes.length} Bitcoin transactions in batch`);
+  let batchDetailsResponse: any = null;
+  try {
+    batchDetailsResponse = await blockchairQueue.addRequest(
+      getOperation(`/bitcoin/dashboards/transactions/${txHashes.join(',')}`),
+      isUserRequest,
+      `Fetch details of ${txHashes.length} Bitcoin transactions`,
+      requestOptions
+    );
+  } catch (error: any) {
+    // A cancelled or expired listing is not wanted anymore either
+    if (error.message?.startsWith('Request cancelled')) throw error;
+    logger.warn(`Batch transaction details fetch failed, returning transactions without details: ${error.message}`);
+  }
+  
+  return enhanceBitcoinTransactions(data.data, batchDetailsResponse);
+}
+
+/**
+ * Fetch the latest confirmed transactions. Runs inside the request queue.
+ */
+async function fetchRecentTransactions(chain: 'bitcoin' | 'ethereum', limit: number, { apiKey, signal }: RequestContext) {
+  // Fetching confirmed transactions (mempool/transactions is for unconfirmed only)
+  // We're getting transactions from blockchain, not mempool
+  const path = `/${chain}/transactions?limit=${limit}&sort=time(desc)`;
+  
+  logger.info(`Fetching ${chain} transactions: ${BLOCKCHAIR_BASE_URL}${path}`);
+  
+  const response = await fetch(blockchairUrl(path, apiKey), { signal });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  
+  const data = await response.json();
+  
+  // Log sample of the data structure
+  if (data && data.data && data.data.length > 0) {
+    logger.debug(`Sample ${chain} transaction data structure:`, JSON.stringify(data.data[0]));
+  }
+  
+  // Log what we're getting
+  logger.debug(`Received ${chain} transactions response with ${data?.data?.length || 0} transactions`);
+  
+  // For Ethereum, modify the structure to be consistent with our system
+  if (chain === 'ethereum' && data && Array.isArray(data.data) && data.data.length > 0) {
+    const enhancedData: { data: Record<string, any> } = { data: {} };
+    
+    // Process all Ethereum transactions
+    for (const tx of data.data) {
+      if (!tx || !tx.hash) continue;
+      
+      enhancedData.data[tx.hash] = {
+        ...tx,
+        // Ensure we have consistent naming for sender/receiver
+        sender: tx.sender || 'Unknown',
+        recipient: tx.recipient || tx.receiver || 'Unknown',
+        has_detailed_info: true
+      };
+    }
+    
+    return enhancedData;
+  }
+  
+  // Return the original data if no transformations were applied
+  return data;
+}
+
+/**
+ * Combine Bitcoin transaction rows with their batch dashboard details
+ * (rows without details are kept, marked has_detailed_info: false)
+ */
+function enhanceBitcoinTransactions(rows: any[], batchDetailsResponse: any) {
+  const enhancedData: { data: Record<string, any> } = { data: {} };
+  const details = batchDetailsResponse?.data || {};
+  logger.debug(`Enhancing ${rows.length} transactions with ${Object.keys(details).length} batch details`);
+  
+  for (const tx of rows) {
+    if (!tx || !tx.hash) continue;
+    
+    // Get the detailed data for this transaction
+    const txDetail = details[tx.hash];
+    if (!txDetail) {
+      // If no detailed data available, use basic info
+      enhancedData.data[tx.hash] = {
+        ...tx,
+        has_detailed_info: false,
+        sender: 'Unknown',
+        receiver: 'Unknown'
+      };
+      continue;
+    }
+    
+    // Extract inputs (senders) and outputs (receivers)
+    const senderAddresses: string[] = Array.isArray(txDetail.inputs)
+      ? txDetail.inputs
+        .filter((input: any) => input && input.recipient && typeof input.recipient === 'string')
+        .map((input: any) => input.recipient)
+      : [];
+    const receiverAddresses: string[] = Array.isArray(txDetail.outputs)
+      ? txDetail.outputs
+        .filter((output: any) => output && output.recipient && typeof output.recipient === 'string')
+        .map((output: any) => output.recipient)
+      : [];
+    
+    // Create enhanced transaction object with details
+    enhancedData.data[tx.hash] = {
+      ...tx,
+      input_addresses: senderAddresses,
+      output_addresses: receiverAddresses,
+      details: txDetail,
+      has_detailed_info: true,
+      sender: senderAddresses.length > 0 ? senderAddresses[0] : 'Unknown',
+      receiver: receiverAddresses.length > 0 ? receiverAddresses[0] : 'Unknown'
+    };
+  }
+  
+  return enhancedData;
+}
+
+blockchairQueue.registerOperation(BLOCKCHAIR_GET, (params, context) => blockchairGet(params.path, context));
+blockchairQueue.registerOperation(BLOCKCHAIR_RECENT_TRANSACTIONS, (params, context) => fetchRecentTransactions(params.chain, params.limit, context));
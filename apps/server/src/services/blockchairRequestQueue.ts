@@ -1,6 +1,21 @@
 import { logger } from '../utils/logger.js';
 import { env } from '../env.js';
 import { v4 as uuidv4 } from 'uuid';
+import { getRequestCost, resolveRateLimitConfig, type RequestLane } from './rateLimiter.js';
+import { ApiKeyPool, type ApiKeyPoolState, type ApiKeySlot, type ApiKeyStatus } from './apiKeyPool.js';
+import { pageTracker } from './pageTracker.js';
+import { classifyRequestError } from './requestErrors.js';
+import {
+  saveQueueItem,
+  updateQueueItemStatus,
+  loadUnfinishedQueueItems,
+  findQueueItem,
+  saveQueueState,
+  loadQueueState,
+  isQueuePersistenceEnabled,
+  type StoredQueueItem,
+  type StoredRequestStatus
+} from './queueStore.js';
 
 // Priority levels for different types of requests
 export enum RequestPriority {
@@ -10,19 +25,210 @@ export enum RequestPriority {
   SYSTEM_REQUEST = 10            // Background/system tasks (lower priority)
 }
 
+/**
+ * A serializable description of an API call.
+ * Requests queued as operations are persisted and re-run after a restart;
+ * `kind` must match an executor registered with registerOperation().
+ */
+export interface QueueOperation {
+  kind: string;
+  params: Record<string, any>;
+  // Stores the response once the request succeeds, see registerResultHandler()
+  onResult?: ResultHandlerRef;
+}
+
+export interface ResultHandlerRef {
+  name: string;
+  context?: Record<string, any>;
+}
+
+// Passed to every request when it runs
+export interface RequestContext {
+  // Blockchair API key picked for this request (null without configured keys)
+  apiKey: string | null;
+  // Aborted when the request is cancelled while in flight
+  signal: AbortSignal;
+}
+
+// Per-caller options for cancellation and expiry
+export interface RequestOptions {
+  // Withdraws this caller; the request is cancelled once no caller is waiting for it anymore
+  signal?: AbortSignal;
+  // Epoch ms after which the request is dropped instead of sent
+  // (system requests default to QUEUE_SYSTEM_REQUEST_TTL_MS)
+  deadline?: number;
+  // Page (see pageTracker) the request is made for; dropped if nobody views it when its turn comes
+  page?: string;
+}
+
+export type CancelResult = 'cancelled' | 'finished' | 'not_found';
+export type PriorityChangeResult = 'updated' | 'not_pending' | 'not_found';
+
+// Priority names used by the admin API
+export type QueuePriorityName = 'user_critical' | 'critical' | 'user' | 'system';
+
+export const QUEUE_PRIORITIES: Record<QueuePriorityName, RequestPriority> = {
+  user_critical: RequestPriority.USER_INITIATED_CRITICAL,
+  critical: RequestPriority.CRITICAL_REQUEST,
+  user: RequestPriority.USER_REQUEST,
+  system: RequestPriority.SYSTEM_REQUEST,
+};
+
+// A queue item as shown on the admin API
+export interface QueueItemSummary {
+  id: string;
+  description: string;
+  operation: string | null;
+  priority: QueuePriorityName;
+  status: StoredRequestStatus;
+  isCritical: boolean;
+  page: string | null;
+  callers: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  deadline: string | null;
+  estimatedWaitMs: number | null;
+  // Times the request was sent; retryable errors re-queue it until QUEUE_MAX_ATTEMPTS
+  attempts: number;
+  error: string | null;
+}
+
+export interface RateLimitSummary {
+  tier: 'free' | 'paid';
+  keys: number;
+  availableKeys: number;
+  dailyBudget: number;
+  dailySpent: number;
+  dailyRemaining: number;
+  dailyResetAt: string;
+  waitMs: number;
+  // Wait for background requests, which can't use the capacity reserved for users
+  systemWaitMs: number;
+  userReserveShare: number;
+}
+
+export interface QueueStatus {
+  queueLength: number;
+  processing: boolean;
+  paused: boolean;
+  exclusiveMode: boolean;
+  waitingForExclusiveRequest: boolean;
+  globalUserPause: boolean;
+  globalUserPauseReason: string;
+  schedulerPaused: boolean;
+  lastRequestTime: number;
+  timeSinceLastRequest: string;
+  timeUntilNextAllowed: string;
+  rateLimit: RateLimitSummary;
+  apiKeys: ApiKeyStatus[];
+  totalProcessed: number;
+  totalErrors: number;
+  totalCoalesced: number;
+  totalCacheHits: number;
+  totalCancelled: number;
+  criticalRequestCount: number;
+  userRequestCount: number;
+  systemRequestCount: number;
+  backoffStatus: {
+    consecutiveErrors: number;
+    currentBackoffTime: number;
+    // No request is sent before this time (ISO), null when not backing off
+    backoffUntil: string | null;
+    maxAttempts: number;
+    lastError: {
+      message: string;
+      status: number | null;
+      retryable: boolean;
+      at: string;
+    } | null;
+  };
+  oldestRequest: string;
+  requestScheduled: boolean;
+}
+
+export interface QueueSnapshot {
+  status: QueueStatus;
+  items: QueueItemSummary[];
+  history: QueueItemSummary[];
+}
+
+// Emitted whenever an item or the queue's state changes
+export type QueueEvent =
+  | { type: 'item'; item: QueueItemSummary }
+  | { type: 'state'; status: QueueStatus };
+
+export type OperationExecutor = (params: Record<string, any>, context: RequestContext) => Promise<any>;
+export type ResultHandler = (result: any, context: Record<string, any>) => Promise<void>;
+
+// Promise for a queued request that also carries its id, for status polling
+export type QueuedRequest<T> = Promise<T> & { id: string };
+
+// Either a plain function (lost on restart) or an operation (resumable)
+export type RequestSource<T> = ((context: RequestContext) => Promise<T>) | QueueOperation;
+
+// Status of a request as reported to API clients
+export interface RequestStatus {
+  id: string;
+  description: string;
+  status: StoredRequestStatus;
+  result?: any;
+  error?: string | null;
+}
+
 // Request item structure
 interface QueueItem<T> {
   id: string;
-  requestFn: () => Promise<T>;
+  requestFn: (context: RequestContext) => Promise<T>;
+  operation?: QueueOperation;
   priority: RequestPriority;
   resolve: (value: T) => void;
   reject: (reason: any) => void;
   timestamp: number;
   description: string;
   isCritical?: boolean;
-  status: 'pending' | 'processing' | 'done' | 'error';
+  status: StoredRequestStatus;
   result?: T;
   error?: any;
+  // Canonical operation key, used to coalesce identical requests
+  key: string | null;
+  // Handlers of every caller attached to this item
+  resultHandlers: ResultHandlerRef[];
+  promise: Promise<T>;
+  deadline: number | null;
+  page: string | null;
+  // Callers that can still withdraw (see RequestOptions.signal) or wait without a signal
+  callers: number;
+  abortController: AbortController;
+  startedAt: number | null;
+  finishedAt: number | null;
+  attempts: number;
+}
+
+interface EnqueueOptions extends RequestOptions {
+  priority: RequestPriority;
+  description: string;
+  isCritical: boolean;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal params give equal keys
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Canonical key of an operation: identical API calls share a key
+ */
+export function operationKey(operation: QueueOperation): string {
+  return `${operation.kind}:${stableStringify(operation.params)}`;
 }
 
 /**
@@ -30,7 +236,8 @@ interface QueueItem<T> {
  * - Manages rate limiting across all API calls
  * - Prioritizes user requests over background tasks
  * - Provides status and monitoring capabilities
- * - Strictly enforces the 1 request per minute free tier limit
+ * - Paces requests with a token bucket charged by Blockchair's request cost
+ *   (1 request per minute on the free tier), one bucket per API key
  */
 class BlockchairRequestQueue {
   private queue: Array<QueueItem<any>> = [];
@@ -42,86 +249,96 @@ class BlockchairRequestQueue {
   private exclusiveMode = false;
   private waitingForExclusiveRequest = false;
   private exclusiveRequestId: string | null = null;
-  // Add backoff tracking
+  // Exponential backoff after retryable errors, on top of the rate limiter's pacing
   private consecutiveErrors = 0;
   private baseBackoffTime = 1000; // 1 second base
   private currentBackoffTime = 1000;
   private maxBackoffTime = 60000; // Max 1 minute
+  private backoffUntil = 0;
+  private lastError: QueueStatus['backoffStatus']['lastError'] = null;
   // Global processing pause for critical user operations
   private globalUserPause = false;
   private globalPauseReason = '';
   private schedulerPaused = false;
-  // Strict rate limit for free tier (60 seconds)
-  private readonly FREE_TIER_RATE_LIMIT_MS = 60000;
-  // Track if a request is scheduled to be sent
+  // API keys, each paced by Blockchair request cost (per-minute rate, burst and daily budget)
+  private keyPool = new ApiKeyPool(
+    env.BLOCKCHAIR_API_KEYS,
+    resolveRateLimitConfig(env.BLOCKCHAIR_API_TIER, {
+      throttleMs: env.API_THROTTLE_MS,
+      dailyBudget: env.BLOCKCHAIR_DAILY_BUDGET,
+      burst: env.BLOCKCHAIR_BURST,
+      userReserveShare: env.BLOCKCHAIR_USER_RESERVE_SHARE,
+    }),
+    env.BLOCKCHAIR_KEY_COOLDOWN_MS
+  );
+  // Track if a request is scheduled to be sent, and when
   private requestScheduled = false;
+  private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+  private scheduledAt = 0;
   private requestStatusMap: Map<string, QueueItem<any>> = new Map();
+  private executors: Map<string, OperationExecutor> = new Map();
+  private resultHandlers: Map<string, ResultHandler> = new Map();
+  // Pending or in-flight item per operation key
+  private activeByKey: Map<string, QueueItem<any>> = new Map();
+  // Recent responses per operation key, to answer exact repeats without an API call
+  private responseCache: Map<string, { result: any; expiresAt: number }> = new Map();
+  private readonly RESPONSE_CACHE_TTL_MS = 30000;
+  private totalCoalesced = 0;
+  private totalCacheHits = 0;
+  private totalCancelled = 0;
+  // Item currently being sent, and the most recently finished ones (newest first)
+  private inFlight: QueueItem<any> | null = null;
+  private history: Array<QueueItem<any>> = [];
+  private readonly HISTORY_SIZE = 50;
+  private listeners: Set<(event: QueueEvent) => void> = new Set();
+  // Last database write per item id, see persist()
+  private pendingWrites: Map<string, Promise<void>> = new Map();
 
   constructor() {
-    logger.info('Blockchair request queue initialized with strict 1 request per minute serialization');
+    const { requestsPerMinute, burst, dailyBudget } = this.keyPool.slots[0].limiter.config;
+    logger.info(`Blockchair request queue initialized (${env.BLOCKCHAIR_API_TIER} tier, ${env.BLOCKCHAIR_API_KEYS.length} API key(s): ${requestsPerMinute} request(s)/min, burst ${burst}, daily budget ${dailyBudget} per key)`);
   }
 
   /**
    * Add a request to the queue with priority
-   * @param requestFn The function that makes the actual API call
+   * @param source The operation (or function) that makes the actual API call
    * @param isUserRequest Whether this is a user-initiated request that should get priority
    * @param description Description of the request for logging
+   * @param options Cancellation signal, deadline and page of the request
    * @returns Promise that resolves with the API response
    */
-  async addRequest<T>(
-    requestFn: () => Promise<T>, 
+  addRequest<T = any>(
+    source: RequestSource<T>,
     isUserRequest: boolean = false,
-    description: string = 'API Request'
-  ): Promise<T> {
+    description: string = 'API Request',
+    options: RequestOptions = {}
+  ): QueuedRequest<T> {
     const priority = isUserRequest ? RequestPriority.USER_REQUEST : RequestPriority.SYSTEM_REQUEST;
-    const id = uuidv4();
-    logger.debug(`Adding request to queue: ${description} (priority: ${priority === RequestPriority.USER_REQUEST ? 'USER' : 'SYSTEM'}) [${id}]`);
+    logger.debug(`Adding request to queue: ${description} (priority: ${priority === RequestPriority.USER_REQUEST ? 'USER' : 'SYSTEM'})`);
     
-    return new Promise<T>((resolve, reject) => {
-      // If we're in exclusive mode, only allow critical requests
-      if (this.exclusiveMode) {
-        logger.debug(`Rejecting request ${description} due to exclusive mode`);
-        reject(new Error('API request rejected: system is in exclusive mode'));
-        return;
-      }
-      
-      // Add request to queue
-      const item: QueueItem<T> = {
-        id,
-        requestFn,
-        priority,
-        resolve,
-        reject,
-        timestamp: Date.now(),
-        description,
-        isCritical: false,  // Regular requests are not critical
-        status: 'pending',
-      };
-      this.queue.push(item);
-      this.requestStatusMap.set(id, item);
-      
-      // Sort queue by priority (lower number = higher priority)
-      this.sortQueue();
-      
-      // Start processing if not already running
-      if (!this.processing && !this.paused && !this.requestScheduled) {
-        this.scheduleNextRequest();
-      }
-    });
+    // If we're in exclusive mode, only allow critical requests
+    if (this.exclusiveMode) {
+      logger.debug(`Rejecting request ${description} due to exclusive mode`);
+      return this.rejected(new Error('API request rejected: system is in exclusive mode'));
+    }
+    
+    return this.enqueue(source, { ...options, priority, description, isCritical: false });
   }
   
   /**
    * Add a critical request that must be processed even during exclusive mode
-   * @param requestFn The function that makes the actual API call
+   * @param source The operation (or function) that makes the actual API call
    * @param description Description of the request for logging
    * @param exclusiveId Optional ID to track this exclusive request
+   * @param options Cancellation signal, deadline and page of the request
    * @returns Promise that resolves with the API response
    */
-  async addCriticalRequest<T>(
-    requestFn: () => Promise<T>,
+  addCriticalRequest<T = any>(
+    source: RequestSource<T>,
     description: string,
-    exclusiveId?: string
-  ): Promise<T> {
+    exclusiveId?: string,
+    options: RequestOptions = {}
+  ): QueuedRequest<T> {
     logger.info(`Adding CRITICAL request to queue: ${description}`);
     
     // If provided an exclusive ID, set it
@@ -129,29 +346,7 @@ class BlockchairRequestQueue {
       this.exclusiveRequestId = exclusiveId;
     }
     
-    const id = uuidv4();
-    return new Promise<T>((resolve, reject) => {
-      const item: QueueItem<T> = {
-        id,
-        requestFn,
-        priority: RequestPriority.CRITICAL_REQUEST,
-        resolve,
-        reject,
-        timestamp: Date.now(),
-        description,
-        isCritical: true,
-        status: 'pending',
-      };
-      this.queue.push(item);
-      this.requestStatusMap.set(id, item);
-      
-      this.sortQueue();
-      
-      // Start processing if not already running
-      if (!this.processing && !this.paused && !this.requestScheduled) {
-        this.scheduleNextRequest();
-      }
-    });
+    return this.enqueue(source, { ...options, priority: RequestPriority.CRITICAL_REQUEST, description, isCritical: true });
   }
   
   /**
@@ -175,7 +370,7 @@ class BlockchairRequestQueue {
       }
       
       // Reject the request
-      item.reject(new Error('Request canceled: system entered exclusive mode'));
+      this.failItem(item, new Error('Request canceled: system entered exclusive mode'));
       return count + 1;
     }, 0);
     
@@ -200,6 +395,7 @@ class BlockchairRequestQueue {
     if (this.queue.length > 0 && !this.processing && !this.paused && !this.requestScheduled) {
       this.scheduleNextRequest();
     }
+    this.emitState();
   }
   
   /**
@@ -224,38 +420,22 @@ class BlockchairRequestQueue {
    * Add a user-initiated critical request that pauses the entire system
    * This is for direct user interactions that should take precedence over everything
    * But still obeys the 1 request per minute rule
-   * @param requestFn The function that makes the actual API call
+   * @param source The operation (or function) that makes the actual API call
    * @param description Description of the request for logging
+   * @param options Cancellation signal, deadline and page of the request
    * @returns Promise that resolves with the API response
    */
-  async addUserCriticalRequest<T>(
-    requestFn: () => Promise<T>,
-    description: string
-  ): Promise<T> {
+  addUserCriticalRequest<T = any>(
+    source: RequestSource<T>,
+    description: string,
+    options: RequestOptions = {}
+  ): QueuedRequest<T> {
     // Pause the entire system for this request
     this.setGlobalUserPause(true, description);
     logger.info(`Pausing ALL activity for USER CRITICAL request: ${description}`);
     
-    const id = uuidv4();
-    return new Promise<T>((resolve, reject) => {
-      const item: QueueItem<T> = {
-        id,
-        requestFn,
-        priority: RequestPriority.USER_INITIATED_CRITICAL,
-        resolve,
-        reject,
-        timestamp: Date.now(),
-        description,
-        isCritical: true,
-        status: 'pending',
-      };
-      this.queue.unshift(item); // Always put user critical at the front
-      this.requestStatusMap.set(id, item);
-      this.sortQueue();
-      if (!this.processing && !this.paused && !this.requestScheduled) {
-        this.scheduleNextRequest();
-      }
-    });
+    // USER CRITICAL sorts ahead of everything else
+    return this.enqueue(source, { ...options, priority: RequestPriority.USER_INITIATED_CRITICAL, description, isCritical: true });
   }
   
   /**
@@ -277,39 +457,75 @@ class BlockchairRequestQueue {
         this.scheduleNextRequest();
       }
     }
+    this.emitState();
   }
   
   /**
-   * Schedule the next API request strictly every 60 seconds
+   * Schedule the next API request for when the rate limiter has capacity
    */
   private scheduleNextRequest(): void {
-    if (this.requestScheduled) return;
-    if (this.globalUserPause) return;
+    if (this.isBlockedByGlobalPause()) return;
     if (this.queue.length === 0 || this.paused) return;
     
-    this.requestScheduled = true;
     const now = Date.now();
-    
-    // If no request has been made yet (lastRequestTime is 0), or if no requests have been processed successfully
-    if (this.lastRequestTime === 0 || this.totalProcessed === 0) {
-      logger.debug('Scheduling immediate processing of first request');
-      setTimeout(() => {
-        this.requestScheduled = false;
-        this.processQueue();
-      }, 0);
-      return;
+    const waitTime = Math.max(this.keyPool.getWaitTime(now, this.laneOf(this.queue[0])), this.backoffUntil - now, 0);
+    if (this.requestScheduled) {
+      // Fast lane: a user request queued behind a background wait may go out sooner
+      if (now + waitTime >= this.scheduledAt) return;
+      clearTimeout(this.scheduleTimer!);
     }
     
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const waitTime = Math.max(0, this.FREE_TIER_RATE_LIMIT_MS - timeSinceLastRequest);
-    
-    logger.debug(`Scheduling next request with ${waitTime/1000}s wait time (last request: ${timeSinceLastRequest/1000}s ago)`);
-    setTimeout(() => {
+    this.requestScheduled = true;
+    this.scheduledAt = now + waitTime;
+    logger.debug(`Scheduling next request with ${waitTime/1000}s wait time (last request: ${Math.round((now - this.lastRequestTime)/1000)}s ago)`);
+    this.scheduleTimer = setTimeout(() => {
       this.requestScheduled = false;
+      this.scheduleTimer = null;
       this.processQueue();
     }, waitTime);
   }
+
+  /**
+   * Hand over to the next item once one is done. Without a timer set (empty, paused or globally
+   * paused queue) processing stops here, so resume() and new items can start it again.
+   */
+  private scheduleAfterItem(): void {
+    this.scheduleNextRequest();
+    if (!this.requestScheduled) this.processing = false;
+  }
+
+  /**
+   * Background requests can't use the capacity reserved for user requests
+   */
+  private laneOf(item: QueueItem<any>): RequestLane {
+    return item.priority === RequestPriority.SYSTEM_REQUEST ? 'system' : 'user';
+  }
   
+  /**
+   * During a global pause only the user critical requests that caused it may run
+   */
+  private isBlockedByGlobalPause(): boolean {
+    return this.globalUserPause && this.queue[0]?.priority !== RequestPriority.USER_INITIATED_CRITICAL;
+  }
+
+  /**
+   * Lift the global pause once no user critical request is left
+   */
+  private releaseGlobalPauseIfDone(): void {
+    if (!this.globalUserPause) return;
+    const active = this.queue.some(item => item.priority === RequestPriority.USER_INITIATED_CRITICAL)
+      || this.inFlight?.priority === RequestPriority.USER_INITIATED_CRITICAL;
+    if (!active) this.setGlobalUserPause(false);
+  }
+
+  /**
+   * Lift a global pause by hand, e.g. when it got stuck
+   */
+  clearGlobalUserPause(): void {
+    if (!this.globalUserPause) return;
+    this.setGlobalUserPause(false);
+  }
+
   /**
    * Helper to get a string representation of priority
    */
@@ -362,7 +578,9 @@ class BlockchairRequestQueue {
    * Process the next request in the queue
    */
   private async processQueue(): Promise<void> {
-    if (this.globalUserPause) {
+    // Expired requests and requests for pages nobody views anymore don't get a slot
+    this.dropStaleItems();
+    if (this.isBlockedByGlobalPause()) {
       this.processing = false;
       return;
     }
@@ -370,22 +588,46 @@ class BlockchairRequestQueue {
       this.processing = false;
       return;
     }
+    if (Date.now() < this.backoffUntil) {
+      this.processing = false;
+      this.scheduleNextRequest();
+      return;
+    }
+    // Reserve one unit on a key now, the rest of the request cost is charged once it is known.
+    // Timers can fire a little early, so there may be no key with a full token yet.
+    const slot = this.keyPool.acquire(Date.now(), this.laneOf(this.queue[0]));
+    if (!slot) {
+      this.processing = false;
+      this.scheduleNextRequest();
+      return;
+    }
     this.processing = true;
     const item = this.queue.shift();
     if (item) {
       item.status = 'processing';
+      item.startedAt = Date.now();
+      item.attempts++;
+      this.inFlight = item;
       this.lastRequestTime = Date.now();
+      this.persistStatus(item, 'processing');
+      this.emitItem(item);
+      this.saveRateLimitState();
       try {
         const priorityType = this.getPriorityTypeString(item.priority);
         
-        logger.debug(`Processing ${priorityType} request: ${item.description} (waited ${(Date.now() - item.timestamp)/1000}s)`);
+        logger.debug(`Processing ${priorityType} request: ${item.description} with key ${slot.id} (waited ${(Date.now() - item.timestamp)/1000}s)`);
         
         // Execute the request
-        const result = await item.requestFn();
-        
-        item.status = 'done';
-        item.result = result;
-        item.resolve(result);
+        const result = await item.requestFn({ apiKey: slot.key, signal: item.abortController.signal });
+        this.chargeRequestCost(slot, result);
+        this.resetBackoff();
+        if (item.key) {
+          this.responseCache.set(item.key, { result, expiresAt: Date.now() + this.RESPONSE_CACHE_TTL_MS });
+        }
+        // A request cancelled while in flight has already been settled
+        if (!item.abortController.signal.aborted) {
+          await this.completeItem(item, result);
+        }
         this.totalProcessed++;
         
         // If this was the exclusive request we were waiting for, exit exclusive mode
@@ -396,21 +638,10 @@ class BlockchairRequestQueue {
         }
         
         // Schedule the next request if there are any in the queue
-        if (this.queue.length > 0) {
-          this.scheduleNextRequest();
-        } else {
-          this.processing = false;
-        }
+        this.scheduleAfterItem();
       } catch (error: any) {
-        item.status = 'error';
-        item.error = error;
-        item.reject(error);
-        this.totalErrors++;
-        
-        // Enhanced rate limit violation logging
-        if (error.message && error.message.includes('430')) {
-          const nextAllowed = new Date(this.lastRequestTime + this.FREE_TIER_RATE_LIMIT_MS);
-          logger.error(`\n[RATE LIMIT VIOLATION] Blockchair free-tier limit hit!\n  Request: ${item.description}\n  Queue length: ${this.queue.length}\n  Next allowed request: ${nextAllowed.toISOString()}\n  Error: ${error.message}\n`);
+        if (!item.abortController.signal.aborted) {
+          this.handleRequestError(item, slot, error);
         }
         
         // If this was the exclusive request we were waiting for, exit exclusive mode
@@ -422,23 +653,182 @@ class BlockchairRequestQueue {
         }
         
         // Schedule the next request with a delay if there are any in the queue
-        if (this.queue.length > 0) {
-          this.scheduleNextRequest();
-        } else {
-          this.processing = false;
-        }
+        this.scheduleAfterItem();
       }
     } else {
       this.processing = false;
     }
   }
   
+  /**
+   * Items in the order they will be sent, starting with the one in flight
+   */
+  listItems(): QueueItemSummary[] {
+    const items = this.inFlight ? [this.summarize(this.inFlight)] : [];
+    return items.concat(this.queue.map(item => this.summarize(item)));
+  }
+
+  /**
+   * Recently finished items, newest first
+   */
+  getHistory(): QueueItemSummary[] {
+    return this.history.map(item => this.summarize(item));
+  }
+
+  getSnapshot(): QueueSnapshot {
+    return { status: this.getStatus(), items: this.listItems(), history: this.getHistory() };
+  }
+
+  getItem(id: string): QueueItemSummary | null {
+    const item = this.requestStatusMap.get(id);
+    return item ? this.summarize(item) : null;
+  }
+
+  /**
+   * Move a pending request to another priority
+   */
+  setPriority(id: string, priority: RequestPriority): PriorityChangeResult {
+    const item = this.requestStatusMap.get(id);
+    if (!item) return 'not_found';
+    if (item.status !== 'pending') return 'not_pending';
+    item.priority = priority;
+    this.sortQueue();
+    this.trackItem(item);
+    // Moving the last user critical item down ends the global pause it caused
+    this.releaseGlobalPauseIfDone();
+    logger.info(`Moved ${item.description} [${item.id}] to ${this.getPriorityTypeString(priority)} priority`);
+    if (!this.processing && !this.paused && !this.requestScheduled) {
+      this.scheduleNextRequest();
+    }
+    return 'updated';
+  }
+
+  /**
+   * Listen for item and state changes (e.g. to push them to SSE clients)
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: QueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: QueueEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Queue event listener failed', error);
+      }
+    });
+  }
+
+  private emitItem(item: QueueItem<any>): void {
+    if (this.listeners.size > 0) this.emit({ type: 'item', item: this.summarize(item) });
+  }
+
+  private emitState(): void {
+    if (this.listeners.size > 0) this.emit({ type: 'state', status: this.getStatus() });
+  }
+
+  private summarize(item: QueueItem<any>): QueueItemSummary {
+    const priority = (Object.keys(QUEUE_PRIORITIES) as QueuePriorityName[])
+      .find(name => QUEUE_PRIORITIES[name] === item.priority) ?? 'system';
+    const toIso = (time: number | null) => time !== null ? new Date(time).toISOString() : null;
+    return {
+      id: item.id,
+      description: item.description,
+      operation: item.operation?.kind ?? null,
+      priority,
+      status: item.status,
+      isCritical: !!item.isCritical,
+      page: item.page,
+      callers: item.callers,
+      createdAt: new Date(item.timestamp).toISOString(),
+      startedAt: toIso(item.startedAt),
+      finishedAt: toIso(item.finishedAt),
+      deadline: toIso(item.deadline),
+      estimatedWaitMs: item.status === 'pending' ? this.getEstimatedWaitTimeForRequest(item.id) : null,
+      attempts: item.attempts,
+      error: item.error ? String(item.error.message ?? item.error) : null,
+    };
+  }
+
+  /**
+   * Bookkeeping once an item is done, failed or cancelled
+   */
+  private settleItem(item: QueueItem<any>): void {
+    item.finishedAt = Date.now();
+    if (this.inFlight === item) this.inFlight = null;
+    this.history.unshift(item);
+    if (this.history.length > this.HISTORY_SIZE) this.history.length = this.HISTORY_SIZE;
+    this.emitItem(item);
+    if (item.priority === RequestPriority.USER_INITIATED_CRITICAL) {
+      this.releaseGlobalPauseIfDone();
+    }
+  }
+
+  /**
+   * Cancel a pending or in-flight request. Every caller waiting for it is rejected;
+   * an in-flight API call is aborted.
+   */
+  cancel(id: string, reason: string = 'cancelled by client'): CancelResult {
+    const item = this.requestStatusMap.get(id);
+    if (!item) return 'not_found';
+    if (item.status !== 'pending' && item.status !== 'processing') return 'finished';
+    this.cancelItem(item, reason);
+    return 'cancelled';
+  }
+
+  private cancelItem(item: QueueItem<any>, reason: string): void {
+    if (item.status === 'pending') {
+      this.queue = this.queue.filter(queued => queued !== item);
+    }
+    item.abortController.abort();
+    this.totalCancelled++;
+    logger.info(`Cancelled ${item.description} [${item.id}]: ${reason}`);
+    this.failItem(item, new Error(`Request cancelled: ${reason}`), 'cancelled');
+  }
+
+  /**
+   * Drop queued requests that passed their deadline or whose page nobody views anymore
+   */
+  private dropStaleItems(): void {
+    const now = Date.now();
+    for (const item of [...this.queue]) {
+      if (item.deadline !== null && item.deadline <= now) {
+        this.cancelItem(item, 'deadline passed');
+      } else if (item.page && !pageTracker.isPageActive(item.page)) {
+        this.cancelItem(item, `nobody is viewing the ${item.page} page anymore`);
+      }
+    }
+  }
+
+  /**
+   * Charge the part of Blockchair's reported request cost that wasn't reserved up front
+   */
+  private chargeRequestCost(slot: ApiKeySlot, result: any): void {
+    const cost = getRequestCost(result);
+    if (cost !== null && cost > 1) {
+      this.keyPool.charge(slot, cost - 1);
+      logger.debug(`Blockchair request cost ${cost}, daily quota remaining on key ${slot.id}: ${slot.limiter.getStatus().dailyRemaining}`);
+    }
+    this.saveRateLimitState();
+  }
+
+  private saveRateLimitState(): void {
+    saveQueueState('last_request_time', this.lastRequestTime);
+    saveQueueState('api_keys', this.keyPool.toState());
+  }
+
   /**
    * Pause the queue processing (useful during server shutdown)
    */
   pause(): void {
     this.paused = true;
     logger.info('Blockchair request queue paused');
+    this.emitState();
   }
   
   /**
@@ -451,12 +841,32 @@ class BlockchairRequestQueue {
     if (this.queue.length > 0 && !this.processing && !this.requestScheduled) {
       this.scheduleNextRequest();
     }
+    this.emitState();
   }
   
+  /**
+   * Remaining quota over all API keys
+   */
+  private getRateLimitStatus(): RateLimitSummary {
+    const keys = this.keyPool.getStatus();
+    return {
+      tier: env.BLOCKCHAIR_API_TIER,
+      keys: keys.length,
+      availableKeys: keys.filter(key => !key.coolingDown && key.dailyRemaining > 0).length,
+      dailyBudget: keys.reduce((sum, key) => sum + key.dailyBudget, 0),
+      dailySpent: keys.reduce((sum, key) => sum + key.dailySpent, 0),
+      dailyRemaining: keys.reduce((sum, key) => sum + key.dailyRemaining, 0),
+      dailyResetAt: keys[0].dailyResetAt,
+      waitMs: this.keyPool.getWaitTime(),
+      systemWaitMs: this.keyPool.getWaitTime(Date.now(), 'system'),
+      userReserveShare: env.BLOCKCHAIR_USER_RESERVE_SHARE,
+    };
+  }
+
   /**
    * Get queue status for monitoring
    */
-  getStatus(): any {
+  getStatus(): QueueStatus {
     return {
       queueLength: this.queue.length,
       processing: this.processing,
@@ -468,15 +878,23 @@ class BlockchairRequestQueue {
       schedulerPaused: this.schedulerPaused,
       lastRequestTime: this.lastRequestTime,
       timeSinceLastRequest: `${Math.round((Date.now() - this.lastRequestTime) / 1000)}s`,
-      timeUntilNextAllowed: `${Math.max(0, Math.round((this.FREE_TIER_RATE_LIMIT_MS - (Date.now() - this.lastRequestTime)) / 1000))}s`,
+      timeUntilNextAllowed: `${Math.round(Math.max(this.keyPool.getWaitTime(), this.backoffUntil - Date.now(), 0) / 1000)}s`,
+      rateLimit: this.getRateLimitStatus(),
+      apiKeys: this.keyPool.getStatus(),
       totalProcessed: this.totalProcessed,
       totalErrors: this.totalErrors,
+      totalCoalesced: this.totalCoalesced,
+      totalCacheHits: this.totalCacheHits,
+      totalCancelled: this.totalCancelled,
       criticalRequestCount: this.queue.filter(item => item.priority === RequestPriority.CRITICAL_REQUEST).length,
       userRequestCount: this.queue.filter(item => item.priority === RequestPriority.USER_REQUEST).length,
       systemRequestCount: this.queue.filter(item => item.priority === RequestPriority.SYSTEM_REQUEST).length,
       backoffStatus: {
         consecutiveErrors: this.consecutiveErrors,
         currentBackoffTime: this.currentBackoffTime,
+        backoffUntil: this.backoffUntil > Date.now() ? new Date(this.backoffUntil).toISOString() : null,
+        maxAttempts: env.QUEUE_MAX_ATTEMPTS,
+        lastError: this.lastError,
       },
       oldestRequest: this.queue.length > 0 ? 
         Math.round((Date.now() - Math.min(...this.queue.map(item => item.timestamp))) / 1000) + 's ago' : 'none',
@@ -495,32 +913,16 @@ class BlockchairRequestQueue {
    * Returns the estimated time until the next request can be made
    */
   getTimeUntilNextRequest(): number {
-    const now = Date.now();
-    // If no request has been made yet or if we're processing the first request since startup
-    if (this.lastRequestTime === 0) {
-      logger.debug(`No prior requests made (lastRequestTime=0), no wait needed`);
-      return 0;
-    }
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    // Only apply rate limiting if we've actually made a request
-    if (this.totalProcessed > 0) {
-      const waitTime = Math.max(0, this.FREE_TIER_RATE_LIMIT_MS - timeSinceLastRequest);
-      logger.debug(`Last request was ${Math.round(timeSinceLastRequest/1000)}s ago, wait time: ${Math.round(waitTime/1000)}s`);
-      return waitTime;
-    }
-    logger.debug(`No requests processed yet (totalProcessed=0), no wait needed`);
-    return 0;
+    const waitTime = Math.max(this.keyPool.getWaitTime(), this.backoffUntil - Date.now(), 0);
+    logger.debug(`Rate limiter wait time: ${Math.round(waitTime/1000)}s`);
+    return waitTime;
   }
 
   /**
    * Get the estimated wait time (ms) for a new request added now
    */
   getEstimatedWaitTime(): number {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const queueLength = this.queue.length;
-    const baseWait = Math.max(0, this.FREE_TIER_RATE_LIMIT_MS - timeSinceLastRequest);
-    return baseWait + queueLength * this.FREE_TIER_RATE_LIMIT_MS;
+    return this.keyPool.estimateWait(this.queue.length);
   }
 
   /**
@@ -531,17 +933,463 @@ class BlockchairRequestQueue {
     if (!item) return null;
     const index = this.queue.findIndex(q => q.id === id);
     if (index === -1) return 0; // Already processing or done
+    return this.keyPool.estimateWait(index) + Math.max(0, this.backoffUntil - Date.now());
+  }
+
+  /**
+   * Get the status of a request by ID.
+   * Falls back to the database for requests made before the last restart.
+   */
+  async getRequestStatus(id: string): Promise<RequestStatus | undefined> {
+    const item = this.requestStatusMap.get(id);
+    if (item) {
+      return {
+        id: item.id,
+        description: item.description,
+        status: item.status,
+        result: item.result,
+        error: item.error ? String(item.error.message ?? item.error) : null,
+      };
+    }
+
+    try {
+      const stored = await findQueueItem(id);
+      if (!stored) return undefined;
+      return {
+        id: stored.id,
+        description: stored.description,
+        status: stored.status,
+        result: stored.result ?? undefined,
+        error: stored.error,
+      };
+    } catch (error) {
+      logger.error(`Failed to look up stored request ${id}`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Register the function that executes a given operation kind
+   */
+  registerOperation(kind: string, executor: OperationExecutor): void {
+    this.executors.set(kind, executor);
+  }
+
+  /**
+   * Register a handler that stores the response of operations queued with `onResult`.
+   * When identical requests are coalesced, the handler of every caller runs.
+   * Handlers also run for requests restored after a restart.
+   */
+  registerResultHandler(name: string, handler: ResultHandler): void {
+    this.resultHandlers.set(name, handler);
+  }
+
+  /**
+   * Reload requests that were still pending when the server stopped, and the rate
+   * limiter state so limits also hold across restarts.
+   * Must run after every operation executor has been registered.
+   */
+  async restore(): Promise<void> {
+    if (!isQueuePersistenceEnabled()) return;
+
+    try {
+      const lastRequestTime = await loadQueueState<number>('last_request_time');
+      if (lastRequestTime) {
+        this.lastRequestTime = Math.max(this.lastRequestTime, Number(lastRequestTime));
+      }
+      const keyPoolState = await loadQueueState<ApiKeyPoolState>('api_keys');
+      if (keyPoolState) {
+        this.keyPool.restoreState(keyPoolState);
+      }
+
+      const storedItems = await loadUnfinishedQueueItems();
+      let restored = 0;
+      for (const stored of storedItems) {
+        const executor = stored.operation ? this.executors.get(stored.operation) : undefined;
+        if (!stored.operation || !executor) {
+          // Plain function requests can't be rebuilt from the database
+          updateQueueItemStatus(stored, 'error', { error: 'Request could not be resumed after a server restart' });
+          continue;
+        }
+
+        const operation: QueueOperation = { kind: stored.operation, params: stored.params || {} };
+        const item = this.createItem(stored.id, { requestFn: context => executor(operation.params, context), operation }, {
+          priority: stored.priority as RequestPriority,
+          description: stored.description,
+          isCritical: stored.is_critical,
+        });
+        item.timestamp = stored.created_at.getTime();
+        item.resultHandlers = stored.result_handlers || [];
+        item.deadline = stored.deadline ? stored.deadline.getTime() : null;
+        item.page = stored.page;
+        item.attempts = stored.attempts;
+        // Nobody is awaiting a restored request; the outcome is kept for status lookups
+        item.promise.then(
+          () => logger.debug(`Restored request completed: ${stored.description} [${stored.id}]`),
+          (reason: any) => logger.warn(`Restored request failed: ${stored.description} [${stored.id}]: ${reason?.message ?? reason}`)
+        );
+        this.queue.push(item);
+        this.requestStatusMap.set(item.id, item);
+        if (item.key) this.activeByKey.set(item.key, item);
+        restored++;
+      }
+
+      if (restored > 0) {
+        this.sortQueue();
+        logger.info(`Restored ${restored} pending API request(s) from the database`);
+        if (!this.processing && !this.paused && !this.requestScheduled) {
+          this.scheduleNextRequest();
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to restore the request queue from the database', error);
+    }
+  }
+
+  /**
+   * Turn a request source into the function to run (and the operation to persist)
+   */
+  private resolveSource<T>(source: RequestSource<T>): Pick<QueueItem<T>, 'requestFn' | 'operation'> {
+    if (typeof source === 'function') {
+      return { requestFn: source };
+    }
+    const executor = this.executors.get(source.kind);
+    if (!executor) {
+      throw new Error(`No executor registered for queue operation "${source.kind}"`);
+    }
+    return { requestFn: context => executor(source.params, context), operation: source };
+  }
+
+  /**
+   * Queue a request, or attach it to an identical pending/in-flight one,
+   * or answer it from the response cache
+   */
+  private enqueue<T>(source: RequestSource<T>, options: EnqueueOptions): QueuedRequest<T> {
+    let resolved: Pick<QueueItem<T>, 'requestFn' | 'operation'>;
+    try {
+      resolved = this.resolveSource(source);
+    } catch (error) {
+      return this.rejected(error);
+    }
+    const key = resolved.operation ? operationKey(resolved.operation) : null;
+    
+    if (key) {
+      const active = this.activeByKey.get(key);
+      if (active) {
+        return this.bindCaller(active, this.attachToItem(active, resolved.operation!, options), options.signal);
+      }
+      
+      const cached = this.responseCache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return this.answerFromCache(resolved, cached.result, options);
+      }
+      this.responseCache.delete(key);
+    }
+    
+    const item = this.createItem(uuidv4(), resolved, options);
+    this.queue.push(item);
+    this.trackItem(item);
+    if (key) this.activeByKey.set(key, item);
+    logger.debug(`Queued ${this.getPriorityTypeString(item.priority)} request: ${item.description} [${item.id}]`);
+    
+    // Sort queue by priority (lower number = higher priority)
+    this.sortQueue();
+    
+    // Start processing if not already running; a user request may also bring a pending wait forward
+    if (!this.paused && !this.inFlight && (!this.processing || this.requestScheduled)) {
+      this.scheduleNextRequest();
+    }
+    return this.bindCaller(item, Object.assign(item.promise, { id: item.id }), options.signal);
+  }
+
+  /**
+   * Count a caller of an item. A caller with a signal is rejected as soon as it aborts,
+   * and the item is cancelled once every caller has withdrawn.
+   */
+  private bindCaller<T>(item: QueueItem<T>, request: QueuedRequest<T>, signal?: AbortSignal): QueuedRequest<T> {
+    item.callers++;
+    if (!signal) return request;
+
+    const withdrawn = new Promise<never>((_, reject) => {
+      const onAbort = () => {
+        reject(new Error('Request cancelled: caller aborted'));
+        item.callers--;
+        if (item.callers <= 0 && (item.status === 'pending' || item.status === 'processing')) {
+          this.cancelItem(item, 'every caller aborted');
+        }
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => signal.removeEventListener('abort', onAbort);
+      item.promise.then(cleanup, cleanup);
+    });
+    return Object.assign(Promise.race([request, withdrawn]), { id: request.id });
+  }
+
+  /**
+   * Build a queue item together with the promise its callers wait on
+   */
+  private createItem<T>(
+    id: string,
+    { requestFn, operation }: Pick<QueueItem<T>, 'requestFn' | 'operation'>,
+    options: EnqueueOptions
+  ): QueueItem<T> {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: any) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return {
+      id,
+      requestFn,
+      operation,
+      priority: options.priority,
+      resolve,
+      reject,
+      timestamp: Date.now(),
+      description: options.description,
+      isCritical: options.isCritical,
+      status: 'pending',
+      key: operation ? operationKey(operation) : null,
+      resultHandlers: operation?.onResult ? [operation.onResult] : [],
+      promise,
+      deadline: this.deadlineFor(options),
+      page: options.page ?? null,
+      callers: 0,
+      abortController: new AbortController(),
+      startedAt: null,
+      finishedAt: null,
+      attempts: 0,
+    };
+  }
+
+  /**
+   * Explicit deadline, or the default expiry of background requests
+   */
+  private deadlineFor(options: EnqueueOptions): number | null {
+    if (options.deadline !== undefined) return options.deadline;
+    return options.priority === RequestPriority.SYSTEM_REQUEST
+      ? Date.now() + env.QUEUE_SYSTEM_REQUEST_TTL_MS
+      : null;
+  }
+
+  /**
+   * A duplicate request shares the existing item's outcome; the item takes the
+   * higher of the two priorities and also runs the duplicate's result handler
+   */
+  private attachToItem<T>(item: QueueItem<T>, operation: QueueOperation, options: EnqueueOptions): QueuedRequest<T> {
+    this.totalCoalesced++;
+    let changed = false;
+    
+    if (Number(options.priority) < Number(item.priority)) {
+      item.priority = options.priority;
+      changed = true;
+      if (item.status === 'pending') this.sortQueue();
+    }
+    if (options.isCritical && !item.isCritical) {
+      item.isCritical = true;
+      changed = true;
+    }
+    // The item lives as long as its most patient caller needs it
+    const deadline = this.deadlineFor(options);
+    if (item.deadline !== null && (deadline === null || deadline > item.deadline)) {
+      item.deadline = deadline;
+      changed = true;
+    }
+    if (item.page && item.page !== options.page) {
+      item.page = null;
+      changed = true;
+    }
+    const handler = operation.onResult;
+    if (handler && !item.resultHandlers.some(ref => stableStringify(ref) === stableStringify(handler))) {
+      item.resultHandlers.push(handler);
+      changed = true;
+    }
+    if (changed) this.trackItem(item);
+    
+    logger.debug(`Coalesced "${options.description}" with ${item.status} request [${item.id}]`);
+    return Object.assign(item.promise.then(result => result), { id: item.id });
+  }
+
+  /**
+   * Answer an exact repeat of a recent request without spending an API call.
+   * The item is still tracked, so its id can be polled like any other.
+   */
+  private answerFromCache<T>(
+    resolved: Pick<QueueItem<T>, 'requestFn' | 'operation'>,
+    result: T,
+    options: EnqueueOptions
+  ): QueuedRequest<T> {
+    this.totalCacheHits++;
+    const item = this.createItem(uuidv4(), resolved, { ...options, description: `${options.description} (cached)` });
+    item.status = 'processing';
+    this.trackItem(item);
+    logger.debug(`Answered "${options.description}" from the response cache [${item.id}]`);
+    
+    this.completeItem(item, result);
+    return Object.assign(item.promise, { id: item.id });
+  }
+
+  /**
+   * Store the response through the item's result handlers, then resolve it
+   */
+  private async completeItem<T>(item: QueueItem<T>, result: T): Promise<void> {
+    // Store the response before reporting the request as done
+    await this.runResultHandlers(item, result);
+    
+    item.status = 'done';
+    item.result = result;
+    this.releaseKey(item);
+    this.persistStatus(item, 'done', { result });
+    this.settleItem(item);
+    item.resolve(result);
+  }
+
+  /**
+   * A settled item no longer absorbs duplicates
+   */
+  private releaseKey(item: QueueItem<any>): void {
+    if (item.key && this.activeByKey.get(item.key) === item) {
+      this.activeByKey.delete(item.key);
+    }
+  }
+
+  /**
+   * A QueuedRequest that failed before it could be queued
+   */
+  private rejected<T>(error: any): QueuedRequest<T> {
+    return Object.assign(Promise.reject(error) as Promise<T>, { id: uuidv4() });
+  }
+
+  /**
+   * Start tracking an item (or record changes to it), in memory and in the database
+   */
+  private trackItem(item: QueueItem<any>): void {
+    this.requestStatusMap.set(item.id, item);
+    this.emitItem(item);
+    const stored = this.toStoredItem(item);
+    this.persist(item.id, () => saveQueueItem(stored));
+  }
+
+  /**
+   * Record a status change of an item in the database
+   */
+  private persistStatus(
+    item: QueueItem<any>,
+    status: StoredRequestStatus,
+    outcome: { result?: any; error?: string | null } = {}
+  ): void {
+    const stored = this.toStoredItem(item);
+    this.persist(item.id, () => updateQueueItemStatus(stored, status, outcome));
+  }
+
+  /**
+   * Run a database write after the earlier writes of the same item. The writes go through a
+   * connection pool, so an item's insert could otherwise land after its later status changes.
+   */
+  private persist(id: string, write: () => Promise<void>): void {
+    const next = (this.pendingWrites.get(id) ?? Promise.resolve()).then(write);
+    this.pendingWrites.set(id, next);
+    next.then(() => {
+      if (this.pendingWrites.get(id) === next) this.pendingWrites.delete(id);
+    });
+  }
+
+  private toStoredItem(item: QueueItem<any>): StoredQueueItem {
+    return {
+      id: item.id,
+      operation: item.operation?.kind ?? null,
+      params: item.operation?.params ?? null,
+      result_handlers: item.resultHandlers.length > 0 ? item.resultHandlers : null,
+      description: item.description,
+      priority: item.priority,
+      is_critical: !!item.isCritical,
+      status: item.status,
+      deadline: item.deadline !== null ? new Date(item.deadline) : null,
+      page: item.page,
+      attempts: item.attempts,
+      created_at: new Date(item.timestamp),
+    };
+  }
+
+  /**
+   * Run the result handlers attached to an item; a failing handler doesn't fail the request
+   */
+  private async runResultHandlers(item: QueueItem<any>, result: any): Promise<void> {
+    for (const ref of item.resultHandlers) {
+      const handler = this.resultHandlers.get(ref.name);
+      if (!handler) {
+        logger.warn(`No result handler registered as "${ref.name}" for ${item.description}`);
+        continue;
+      }
+      try {
+        await handler(result, ref.context || {});
+      } catch (error) {
+        logger.error(`Result handler "${ref.name}" failed for ${item.description}`, error);
+      }
+    }
+  }
+
+  /**
+   * A request failed: back off, then retry it if the error is retryable and attempts are left
+   */
+  private handleRequestError(item: QueueItem<any>, slot: ApiKeySlot, error: any): void {
+    const info = classifyRequestError(error);
     const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const baseWait = Math.max(0, this.FREE_TIER_RATE_LIMIT_MS - timeSinceLastRequest);
-    return baseWait + index * this.FREE_TIER_RATE_LIMIT_MS;
+    this.keyPool.recordError(slot, info.status, now, info.retryAfterMs);
+    this.saveRateLimitState();
+    this.totalErrors++;
+    this.lastError = { message: info.message, status: info.status, retryable: info.retryable, at: new Date(now).toISOString() };
+
+    if (!info.retryable) {
+      logger.warn(`Request failed with a non-retryable error: ${item.description} [${item.id}]: ${info.message}`);
+      this.failItem(item, error);
+      return;
+    }
+
+    this.consecutiveErrors++;
+    this.currentBackoffTime = Math.min(this.maxBackoffTime, this.baseBackoffTime * 2 ** (this.consecutiveErrors - 1));
+    // Jitter between half and the full backoff, so retries don't line up
+    const backoff = this.currentBackoffTime / 2 + Math.random() * this.currentBackoffTime / 2;
+    this.backoffUntil = now + Math.max(backoff, info.retryAfterMs ?? 0);
+    const retryAt = new Date(this.backoffUntil).toISOString();
+
+    if (item.attempts >= env.QUEUE_MAX_ATTEMPTS) {
+      logger.warn(`Giving up on ${item.description} [${item.id}] after ${item.attempts} attempt(s): ${info.message}`);
+      this.failItem(item, error);
+      return;
+    }
+
+    logger.warn(`Retrying ${item.description} [${item.id}] (attempt ${item.attempts + 1} of ${env.QUEUE_MAX_ATTEMPTS}) after ${info.message} on key ${slot.id}; backing off until ${retryAt}`);
+    item.status = 'pending';
+    item.error = error;
+    if (this.inFlight === item) this.inFlight = null;
+    this.queue.push(item);
+    this.sortQueue();
+    this.trackItem(item);
+    this.emitState();
+  }
+
+  private resetBackoff(): void {
+    this.consecutiveErrors = 0;
+    this.currentBackoffTime = this.baseBackoffTime;
+    this.backoffUntil = 0;
   }
 
   /**
-   * Get the status of a request by ID
+   * Mark an item as failed (or cancelled) and reject its promise
    */
-  getRequestStatus(id: string): QueueItem<any> | undefined {
-    return this.requestStatusMap.get(id);
+  private failItem(item: QueueItem<any>, error: any, status: 'error' | 'cancelled' = 'error'): void {
+    item.status = status;
+    item.error = error;
+    this.releaseKey(item);
+    this.persistStatus(item, status, { error: String(error?.message ?? error) });
+    this.settleItem(item);
+    item.reject(error);
   }
 }
 
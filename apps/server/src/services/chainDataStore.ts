@@ -0,0 +1,286 @@
+import { db } from '../db/index.js';
+import { stats } from '../db/schema/stats.js';
+import { desc, eq, sql } from 'drizzle-orm';
+import { transactions, transactionInputs, transactionOutputs } from '../db/schema/transactions.js';
+import { walletHistorySync, wallets, walletSnapshots, walletTransactions } from '../db/schema/wallets.js';
+import { logger } from '../utils/logger.js';
+import { toChainCode, type AddressHistoryPage, type AddressSummary, type ChainStats, type ChainTransaction } from './providers/index.js';
+import type { BlockchainStats } from '../../../shared/stats.js';
+import { rollupStats } from './statsRollups.js';
+import { shouldTakeSnapshot } from './walletHistory.js';
+
+/**
+ * Writes normalized provider data to our tables.
+ * Used by the scheduler, the routes and the queue's result handlers alike.
+ */
+
+/**
+ * Map a provider transaction to a row of the transactions table
+ */
+export function toTransactionRecord(tx: ChainTransaction) {
+  return {
+    hash: tx.hash,
+    chain: toChainCode(tx.chain),
+    block_number: tx.block_id !== null ? String(tx.block_id) : null,
+    block_time: tx.time,
+    value: tx.value,
+    fee: tx.fee,
+    // Placeholder so the row is still stored when the provider has no address info
+    sender: tx.sender || 'Unknown',
+    receiver: tx.receiver || 'Unknown',
+    status: tx.block_id ? 'confirmed' : 'pending',
+    raw_payload: tx.raw,
+  };
+}
+
+/**
+ * Rows of the transaction_inputs and transaction_outputs tables for a provider transaction
+ */
+export function toTransactionPartRecords(tx: ChainTransaction) {
+  return {
+    inputs: tx.inputs.map(input => ({ transaction_hash: tx.hash, ...input })),
+    outputs: tx.outputs.map(output => ({ transaction_hash: tx.hash, ...output })),
+  };
+}
+
+// Rows per INSERT for inputs/outputs; a single transaction can have thousands
+const PART_CHUNK_SIZE = 1000;
+
+function chunk<T>(rows: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Store every input and output of the transactions (their rows must exist already).
+ * Outputs are upserted so spent-by references are filled in once an output gets spent.
+ */
+export async function storeTransactionParts(txs: ChainTransaction[]) {
+  const parts = txs.map(toTransactionPartRecords);
+  const inputs = parts.flatMap(part => part.inputs);
+  const outputs = parts.flatMap(part => part.outputs);
+
+  for (const rows of chunk(inputs, PART_CHUNK_SIZE)) {
+    await db.insert(transactionInputs)
+      .values(rows)
+      .onConflictDoNothing({ target: [transactionInputs.transaction_hash, transactionInputs.index] });
+  }
+  for (const rows of chunk(outputs, PART_CHUNK_SIZE)) {
+    await db.insert(transactionOutputs)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [transactionOutputs.transaction_hash, transactionOutputs.index],
+        set: {
+          spent_by_transaction_hash: sql`excluded.spent_by_transaction_hash`,
+          spent_by_input_index: sql`excluded.spent_by_input_index`,
+        },
+      });
+  }
+}
+
+/**
+ * Insert or refresh a wallet from an address summary, keeping first_seen and label,
+ * and add a wallet_snapshots row for the balance history (see shouldTakeSnapshot)
+ */
+export async function storeAddressSummary(summary: AddressSummary) {
+  const walletRecord = {
+    address: summary.address,
+    chain: toChainCode(summary.chain),
+    last_seen: new Date(),
+    balance: summary.balance,
+    transaction_count: String(summary.transaction_count),
+    raw_payload: summary.raw,
+  };
+
+  await db.insert(wallets)
+    .values({ ...walletRecord, first_seen: new Date() })
+    .onConflictDoUpdate({ target: wallets.address, set: walletRecord });
+
+  const [previous] = await db.select({
+    balance: walletSnapshots.balance,
+    transaction_count: walletSnapshots.transaction_count,
+    taken_at: walletSnapshots.taken_at,
+  })
+    .from(walletSnapshots)
+    .where(eq(walletSnapshots.address, summary.address))
+    .orderBy(desc(walletSnapshots.taken_at))
+    .limit(1);
+  if (!shouldTakeSnapshot(previous, summary, walletRecord.last_seen)) {
+    logger.debug(`Stored wallet ${summary.address} (unchanged, last snapshot is recent)`);
+    return walletRecord;
+  }
+  await db.insert(walletSnapshots).values({
+    address: summary.address,
+    chain: walletRecord.chain,
+    taken_at: walletRecord.last_seen,
+    balance: summary.balance,
+    received: summary.received,
+    spent: summary.spent,
+    transaction_count: summary.transaction_count,
+    balance_usd: summary.balance_usd,
+  });
+
+  logger.debug(`Stored wallet ${summary.address}`);
+  return walletRecord;
+}
+
+/**
+ * Cache one page of an address's history in wallet_transactions and record how far the history
+ * has been fetched. Refetched entries are updated, e.g. once they are mined.
+ */
+export async function storeAddressHistory(page: AddressHistoryPage) {
+  const chain = toChainCode(page.chain);
+  const rows = page.transactions
+    // An entry without a time can't be placed in the history
+    .filter(tx => tx.time !== null)
+    .map(tx => ({
+      address: page.address,
+      hash: tx.hash,
+      chain,
+      block_number: tx.block_id,
+      time: tx.time!,
+      balance_change: tx.balance_change,
+    }));
+
+  if (rows.length > 0) {
+    await db.insert(walletTransactions)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [walletTransactions.address, walletTransactions.hash],
+        set: {
+          block_number: sql`excluded.block_number`,
+          time: sql`excluded.time`,
+          balance_change: sql`excluded.balance_change`,
+        },
+      });
+  }
+  // Refetching the newest page must not move the offset of the next older page back
+  await db.insert(walletHistorySync)
+    .values({ address: page.address, chain, fetched_count: page.offset + page.listed, complete: page.complete, synced_at: new Date() })
+    .onConflictDoUpdate({
+      target: walletHistorySync.address,
+      set: {
+        fetched_count: sql`greatest(${walletHistorySync.fetched_count}, excluded.fetched_count)`,
+        complete: sql`${walletHistorySync.complete} or excluded.complete`,
+        synced_at: sql`excluded.synced_at`,
+      },
+    });
+
+  logger.debug(`Stored ${rows.length} history entries of wallet ${page.address} (offset ${page.offset})`);
+}
+
+export interface IngestResult {
+  inserted: number;
+  updated: number; // existing rows whose status or block changed
+}
+
+/**
+ * Store a batch of provider transactions with one upsert.
+ * New hashes are inserted; for known ones only the confirmation fields are refreshed, and a
+ * confirmed row is never turned back into a pending one. Inputs and outputs are stored too.
+ */
+export async function ingestTransactions(txs: ChainTransaction[]): Promise<IngestResult> {
+  // A hash may only appear once per upsert; the last copy wins
+  const batch = [...new Map(txs.map(tx => [tx.hash, tx])).values()];
+  if (batch.length === 0) return { inserted: 0, updated: 0 };
+
+  const becomesConfirmed = sql`(${transactions.block_number} is null and excluded.block_number is not null)`;
+  const rows = await db.insert(transactions)
+    .values(batch.map(toTransactionRecord))
+    .onConflictDoUpdate({
+      target: transactions.hash,
+      set: {
+        block_number: sql`coalesce(excluded.block_number, ${transactions.block_number})`,
+        status: sql`case when excluded.block_number is not null then excluded.status else ${transactions.status} end`,
+        // Pending rows carry the time they were first seen, confirmed ones the block time
+        block_time: sql`case when ${becomesConfirmed} then excluded.block_time else ${transactions.block_time} end`,
+        // A mined transaction wasn't replaced after all
+        replaced_by: sql`null`,
+      },
+      // Leave unchanged rows alone, so they don't count as updated
+      where: sql`excluded.block_number is not null and (${transactions.block_number} is distinct from excluded.block_number or ${transactions.status} is distinct from excluded.status)`,
+    })
+    // xmax is 0 for a freshly inserted row
+    .returning({ hash: transactions.hash, inserted: sql<boolean>`(xmax = 0)` });
+
+  await storeTransactionParts(batch);
+
+  const inserted = rows.filter(row => row.inserted).length;
+  const result = { inserted, updated: rows.length - inserted };
+  logger.debug(`Ingested ${batch.length} transaction(s): ${result.inserted} new, ${result.updated} updated`);
+  return result;
+}
+
+/**
+ * Store a single transaction, see ingestTransactions
+ */
+export async function storeTransaction(tx: ChainTransaction) {
+  return ingestTransactions([tx]);
+}
+
+/**
+ * Map a row of the stats table to the DTO served to the client
+ */
+export function toBlockchainStats(row: typeof stats.$inferSelect): BlockchainStats {
+  return {
+    timestamp: row.timestamp.toISOString(),
+    bitcoin_blocks: row.bitcoin_blocks,
+    bitcoin_blocks_24h: row.bitcoin_blocks_24h,
+    bitcoin_hashrate: row.bitcoin_hashrate ?? '0',
+    bitcoin_difficulty: row.bitcoin_difficulty,
+    bitcoin_mempool_transactions: row.bitcoin_mempool_transactions,
+    bitcoin_market_price_usd: row.bitcoin_market_price_usd ?? 0,
+    bitcoin_average_transaction_fee_usd_24h: row.bitcoin_average_transaction_fee_usd_24h,
+    bitcoin_volume_24h: row.bitcoin_volume_24h,
+    bitcoin_suggested_fee: row.bitcoin_suggested_fee,
+    ethereum_blocks: row.ethereum_blocks,
+    ethereum_blocks_24h: row.ethereum_blocks_24h,
+    ethereum_hashrate: row.ethereum_hashrate ?? '0',
+    ethereum_difficulty: row.ethereum_difficulty,
+    ethereum_mempool_transactions: row.ethereum_mempool_transactions,
+    ethereum_market_price_usd: row.ethereum_market_price_usd ?? 0,
+    ethereum_average_transaction_fee_usd_24h: row.ethereum_average_transaction_fee_usd_24h,
+    ethereum_volume_24h: row.ethereum_volume_24h,
+    ethereum_suggested_fee: row.ethereum_suggested_fee,
+  };
+}
+
+/**
+ * Store a stats snapshot for both chains
+ * @returns The stored snapshot as sent to clients
+ */
+export async function storeStats(btcStats: ChainStats, ethStats: ChainStats): Promise<BlockchainStats> {
+  const statsPayload = {
+    data: {
+      bitcoin: { data: btcStats.raw },
+      ethereum: { data: ethStats.raw },
+    },
+  };
+
+  const [row] = await db.insert(stats).values({
+    raw_payload: statsPayload,
+    bitcoin_blocks: btcStats.blocks,
+    bitcoin_blocks_24h: btcStats.blocks_24h,
+    bitcoin_hashrate: btcStats.hashrate,
+    bitcoin_difficulty: btcStats.difficulty,
+    bitcoin_mempool_transactions: btcStats.mempool_transactions,
+    bitcoin_market_price_usd: btcStats.market_price_usd,
+    bitcoin_average_transaction_fee_usd_24h: btcStats.average_transaction_fee_usd_24h,
+    bitcoin_volume_24h: btcStats.volume_24h,
+    bitcoin_suggested_fee: btcStats.suggested_fee,
+    ethereum_blocks: ethStats.blocks,
+    ethereum_blocks_24h: ethStats.blocks_24h,
+    ethereum_hashrate: ethStats.hashrate,
+    ethereum_difficulty: ethStats.difficulty,
+    ethereum_mempool_transactions: ethStats.mempool_transactions,
+    ethereum_market_price_usd: ethStats.market_price_usd,
+    ethereum_average_transaction_fee_usd_24h: ethStats.average_transaction_fee_usd_24h,
+    ethereum_volume_24h: ethStats.volume_24h,
+    ethereum_suggested_fee: ethStats.suggested_fee,
+  }).returning();
+
+  const snapshot = toBlockchainStats(row);
+  await rollupStats(snapshot);
+  return snapshot;
+}
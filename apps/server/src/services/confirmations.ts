@@ -0,0 +1,104 @@
+import { and, desc, eq, isNotNull, isNull, lte, max, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { stats } from '../db/schema/stats.js';
+import { transactions } from '../db/schema/transactions.js';
+import type { ChainCode } from './providers/index.js';
+import type { TransactionFinality } from '../../../shared/transactions.js';
+
+/**
+ * Confirmation counts of stored transactions relative to the chain tip.
+ * - The tip is the highest block we know of: the latest stats snapshot or the newest stored block,
+ *   whichever is higher (stats are only fetched while someone views the dashboard)
+ * - A mined transaction has tip - block + 1 confirmations, an unmined one 0
+ * - Finality filters: unconfirmed (0), confirmed (1+) and final (FINAL_CONFIRMATIONS+)
+ */
+
+export type ChainTips = Record<ChainCode, number | null>; // null: no block known yet
+
+// Confirmations after which a transaction counts as final
+export const FINAL_CONFIRMATIONS = 6;
+
+export const TRANSACTION_FINALITIES: TransactionFinality[] = ['unconfirmed', 'confirmed', 'final'];
+
+export function isTransactionFinality(value: unknown): value is TransactionFinality {
+  return (TRANSACTION_FINALITIES as unknown[]).includes(value);
+}
+
+/**
+ * Height of the latest block per chain
+ */
+export async function getChainTips(): Promise<ChainTips> {
+  const [[latest], storedBlocks] = await Promise.all([
+    db.select({ bitcoin: stats.bitcoin_blocks, ethereum: stats.ethereum_blocks })
+      .from(stats)
+      .orderBy(desc(stats.timestamp))
+      .limit(1),
+    db.select({ chain: transactions.chain, block: max(transactions.block_number) })
+      .from(transactions)
+      .groupBy(transactions.chain),
+  ]);
+
+  const stored = (chain: ChainCode) => {
+    const block = storedBlocks.find(row => row.chain === chain)?.block;
+    return block != null ? Number(block) : null;
+  };
+  const highest = (...heights: Array<number | null>) => {
+    const known = heights.filter((height): height is number => height !== null && height >= 0);
+    return known.length > 0 ? Math.max(...known) : null;
+  };
+
+  // Stats count the blocks from height 0, so the tip is one below the count
+  return {
+    BTC: highest(latest ? latest.bitcoin - 1 : null, stored('BTC')),
+    ETH: highest(latest ? latest.ethereum - 1 : null, stored('ETH')),
+  };
+}
+
+/**
+ * Confirmations of a transaction mined in `blockNumber` (null: not mined); null while the tip is unknown
+ */
+export function countConfirmations(blockNumber: string | number | null, tip: number | null): number | null {
+  if (blockNumber === null) return 0;
+  if (tip === null) return null;
+  // A block newer than the tip we know of still has the one confirmation of being mined
+  return Math.max(1, tip - Number(blockNumber) + 1);
+}
+
+/**
+ * Whether a transaction with this many confirmations meets a finality level (same rules as finalityCondition)
+ */
+export function hasFinality(confirmations: number | null, finality: TransactionFinality): boolean {
+  if (finality === 'unconfirmed') return confirmations === 0;
+  // null: mined, but the tip isn't known yet
+  if (finality === 'confirmed') return confirmations !== 0;
+  return confirmations !== null && confirmations >= FINAL_CONFIRMATIONS;
+}
+
+/**
+ * Add the `confirmations` field to transaction rows
+ */
+export function withConfirmations<T extends { chain: string; block_number: string | null }>(
+  rows: T[],
+  tips: ChainTips
+): Array<T & { confirmations: number | null }> {
+  return rows.map(row => ({ ...row, confirmations: countConfirmations(row.block_number, tips[row.chain as ChainCode] ?? null) }));
+}
+
+/**
+ * Condition on the transactions table selecting the rows of a finality level
+ */
+export function finalityCondition(finality: TransactionFinality, tips: ChainTips): SQL {
+  if (finality === 'unconfirmed') return isNull(transactions.block_number);
+  if (finality === 'confirmed') return isNotNull(transactions.block_number);
+
+  // Final: mined at least FINAL_CONFIRMATIONS - 1 blocks below the tip of its chain
+  const chains = (Object.keys(tips) as ChainCode[]).filter(chain => tips[chain] !== null);
+  // Without a known tip nothing is final yet
+  if (chains.length === 0) return sql`false`;
+  return or(
+    ...chains.map(chain => and(
+      eq(transactions.chain, chain),
+      lte(transactions.block_number, String(tips[chain]! - FINAL_CONFIRMATIONS + 1))
+    ))
+  )!;
+}
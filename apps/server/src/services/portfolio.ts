@@ -0,0 +1,229 @@
+import { and, desc, eq, inArray, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { stats, statsRollups } from '../db/schema/stats.js';
+import { walletSnapshots, walletTransactions, watchedWallets } from '../db/schema/wallets.js';
+import { listWatchedWallets } from './watchlist.js';
+import type { ChainCode } from './providers/index.js';
+import type { StatsMetric } from '../../../shared/stats.js';
+import type { WatchedWallet } from '../../../shared/wallets.js';
+import type {
+  Portfolio,
+  PortfolioActivity,
+  PortfolioChainHolding,
+  PortfolioChange,
+  PortfolioWalletHolding,
+} from '../../../shared/portfolio.js';
+
+/**
+ * Combined view of the watched wallets.
+ * - Holdings are the balances in the wallets table, valued at the latest stats market price
+ * - The 24h and 7d changes compare with the holdings then (each wallet's last snapshot before that
+ *   time, its current balance when it has none) at the price then (the 1h stats rollup of that hour)
+ * - Recent activity comes from the address history the watchlist refresh keeps in wallet_transactions
+ */
+
+export const CHAIN_DECIMALS: Record<ChainCode, number> = { BTC: 8, ETH: 18 };
+
+const CHAINS: ChainCode[] = ['BTC', 'ETH'];
+const PRICE_METRICS: Record<ChainCode, StatsMetric> = {
+  BTC: 'bitcoin_market_price_usd',
+  ETH: 'ethereum_market_price_usd',
+};
+const CHANGE_PERIODS = {
+  change_24h: 24 * 60 * 60 * 1000,
+  change_7d: 7 * 24 * 60 * 60 * 1000,
+};
+const RECENT_ACTIVITY_LIMIT = 20;
+
+export type ChainPrices = Record<ChainCode, number | null>;
+type ChangePeriod = keyof typeof CHANGE_PERIODS;
+
+/**
+ * Holdings at the start of a change period: balances by address and the prices then
+ */
+export interface PortfolioPeriodStart {
+  balances: Map<string, string>;
+  prices: ChainPrices;
+}
+
+/**
+ * USD value of an amount in smallest units; null without a price
+ */
+export function toUsd(amount: string | bigint, chain: ChainCode, price: number | null): number | null {
+  if (BigInt(amount) === 0n) return 0;
+  return price === null ? null : (Number(amount) / 10 ** CHAIN_DECIMALS[chain]) * price;
+}
+
+function toChange(value: number | null, start: number | null): PortfolioChange | null {
+  if (value === null || start === null) return null;
+  return {
+    start_value_usd: start,
+    change_usd: value - start,
+    change_percent: start === 0 ? null : ((value - start) / start) * 100,
+  };
+}
+
+// Sum of values, null when any of them is unknown
+function sumValues(values: Array<number | null>): number | null {
+  return values.some(value => value === null) ? null : values.reduce<number>((sum, value) => sum + value!, 0);
+}
+
+function share(value: number | null, total: number | null): number | null {
+  return value === null || total === null || total === 0 ? null : value / total;
+}
+
+/**
+ * Holdings per chain and wallet, allocation and changes from the watched wallets' balances,
+ * the latest prices and the holdings at the start of each change period
+ */
+export function summarizePortfolio(
+  wallets: Array<Pick<WatchedWallet, 'id' | 'address' | 'chain' | 'name' | 'balance'>>,
+  prices: ChainPrices,
+  periods: Record<ChangePeriod, PortfolioPeriodStart>
+): Omit<Portfolio, 'recent_activity' | 'prices_at'> {
+  const chainTotals = CHAINS.map(chain => {
+    const chainWallets = wallets.filter(wallet => wallet.chain === chain);
+    const balance = chainWallets.reduce((sum, wallet) => sum + BigInt(wallet.balance ?? '0'), 0n);
+    const startValue = (period: ChangePeriod) => {
+      const { balances, prices: startPrices } = periods[period];
+      const startBalance = chainWallets
+        .reduce((sum, wallet) => sum + BigInt(balances.get(wallet.address) ?? wallet.balance ?? '0'), 0n);
+      return toUsd(startBalance, chain, startPrices[chain]);
+    };
+    return {
+      chain,
+      walletCount: chainWallets.length,
+      balance,
+      value: toUsd(balance, chain, prices[chain]),
+      start: { change_24h: startValue('change_24h'), change_7d: startValue('change_7d') },
+    };
+  });
+
+  const total = sumValues(chainTotals.map(chain => chain.value));
+  const totalStart = (period: ChangePeriod) => sumValues(chainTotals.map(chain => chain.start[period]));
+
+  const chains: PortfolioChainHolding[] = chainTotals.map(chain => ({
+    chain: chain.chain,
+    wallet_count: chain.walletCount,
+    balance: chain.balance.toString(),
+    price_usd: prices[chain.chain],
+    value_usd: chain.value,
+    allocation: share(chain.value, total),
+    change_24h: toChange(chain.value, chain.start.change_24h),
+    change_7d: toChange(chain.value, chain.start.change_7d),
+  }));
+
+  const walletHoldings: PortfolioWalletHolding[] = wallets.map(wallet => {
+    const value = wallet.balance !== null ? toUsd(wallet.balance, wallet.chain, prices[wallet.chain]) : null;
+    return {
+      id: wallet.id,
+      address: wallet.address,
+      chain: wallet.chain,
+      name: wallet.name,
+      balance: wallet.balance,
+      value_usd: value,
+      allocation: share(value, total),
+    };
+  });
+
+  return {
+    total_value_usd: total,
+    change_24h: toChange(total, totalStart('change_24h')),
+    change_7d: toChange(total, totalStart('change_7d')),
+    chains,
+    wallets: walletHoldings,
+  };
+}
+
+async function getLatestPrices(): Promise<{ prices: ChainPrices; at: Date | null }> {
+  const [latest] = await db.select({
+    timestamp: stats.timestamp,
+    BTC: stats.bitcoin_market_price_usd,
+    ETH: stats.ethereum_market_price_usd,
+  })
+    .from(stats)
+    .orderBy(desc(stats.timestamp))
+    .limit(1);
+  return latest
+    ? { prices: { BTC: latest.BTC, ETH: latest.ETH }, at: latest.timestamp }
+    : { prices: { BTC: null, ETH: null }, at: null };
+}
+
+// Last price of the 1h rollup bucket a time falls into (or the latest one before it)
+async function getPricesAt(time: Date): Promise<ChainPrices> {
+  const [BTC, ETH] = await Promise.all(CHAINS.map(async chain => {
+    const [bucket] = await db.select({ last: statsRollups.last })
+      .from(statsRollups)
+      .where(and(
+        eq(statsRollups.resolution, '1h'),
+        eq(statsRollups.metric, PRICE_METRICS[chain]),
+        lte(statsRollups.bucket_start, time)
+      ))
+      .orderBy(desc(statsRollups.bucket_start))
+      .limit(1);
+    return bucket?.last ?? null;
+  }));
+  return { BTC, ETH };
+}
+
+// Balance of each watched address as of its last snapshot taken at or before a time
+async function getBalancesAt(time: Date): Promise<Map<string, string>> {
+  const rows = await db.selectDistinctOn([walletSnapshots.address], {
+    address: walletSnapshots.address,
+    balance: walletSnapshots.balance,
+  })
+    .from(walletSnapshots)
+    .where(and(
+      inArray(walletSnapshots.address, db.select({ address: watchedWallets.address }).from(watchedWallets)),
+      lte(walletSnapshots.taken_at, time)
+    ))
+    .orderBy(walletSnapshots.address, desc(walletSnapshots.taken_at));
+  return new Map(rows.map(row => [row.address, row.balance]));
+}
+
+async function getRecentActivity(prices: ChainPrices): Promise<PortfolioActivity[]> {
+  const rows = await db.select({
+    hash: walletTransactions.hash,
+    chain: walletTransactions.chain,
+    address: walletTransactions.address,
+    wallet_name: watchedWallets.name,
+    time: walletTransactions.time,
+    block_number: walletTransactions.block_number,
+    balance_change: walletTransactions.balance_change,
+  })
+    .from(walletTransactions)
+    .innerJoin(watchedWallets, eq(watchedWallets.address, walletTransactions.address))
+    .orderBy(desc(walletTransactions.time), desc(walletTransactions.hash))
+    .limit(RECENT_ACTIVITY_LIMIT);
+
+  return rows.map(row => {
+    const chain = row.chain as ChainCode;
+    return {
+      ...row,
+      chain,
+      time: row.time.toISOString(),
+      value_usd: toUsd(row.balance_change, chain, prices[chain]),
+    };
+  });
+}
+
+export async function getPortfolio(now: Date = new Date()): Promise<Portfolio> {
+  const periodStart = async (period: ChangePeriod): Promise<PortfolioPeriodStart> => {
+    const time = new Date(now.getTime() - CHANGE_PERIODS[period]);
+    const [balances, prices] = await Promise.all([getBalancesAt(time), getPricesAt(time)]);
+    return { balances, prices };
+  };
+
+  const [wallets, latest, change_24h, change_7d] = await Promise.all([
+    listWatchedWallets(),
+    getLatestPrices(),
+    periodStart('change_24h'),
+    periodStart('change_7d'),
+  ]);
+
+  return {
+    ...summarizePortfolio(wallets, latest.prices, { change_24h, change_7d }),
+    recent_activity: await getRecentActivity(latest.prices),
+    prices_at: latest.at?.toISOString() ?? null,
+  };
+}
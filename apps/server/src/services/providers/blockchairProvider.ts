@@ -0,0 +1,428 @@
+import { logger } from '../../utils/logger.js';
+import {
+  fetchDashboardStats,
+  fetchRecentBitcoinTransactions,
+  fetchRecentEthereumTransactions,
+  fetchRecentTransactionsWithTimeFilter,
+  fetchTransactionByHash,
+  fetchTransactionsByHashes,
+  fetchWalletByAddress,
+  fetchWalletByAddressUserCritical,
+  MAX_TRANSACTIONS_PER_BATCH,
+  queueAddressHistoryFetch,
+  queueWalletFetch
+} from '../blockchairApi.js';
+import { blockchairQueue, type QueuedRequest } from '../blockchairRequestQueue.js';
+import { storeAddressHistory, storeAddressSummary, storeStats, storeTransaction } from '../chainDataStore.js';
+import { env } from '../../env.js';
+import { notifyClients } from '../sseClients.js';
+import type {
+  AddressHistoryPage,
+  AddressSummary,
+  AddressTransaction,
+  Chain,
+  ChainDataProvider,
+  ChainStats,
+  ChainTransaction,
+  ProviderRequestOptions,
+  QueuedLookup,
+  TransactionInput,
+  TransactionOutput
+} from './types.js';
+
+// How far back the recent transactions listing looks
+const RECENT_TRANSACTIONS_WINDOW_MINUTES = 15;
+
+// Queue result handlers that store Blockchair responses
+const STORE_ADDRESS = 'blockchair.storeAddress';
+const STORE_TRANSACTION = 'blockchair.storeTransaction';
+const STORE_STATS = 'blockchair.storeStats';
+const STORE_ADDRESS_HISTORY = 'blockchair.storeAddressHistory';
+
+/**
+ * Parse Blockchair timestamps ("2024-05-10 12:00:00", always UTC) or unix seconds
+ */
+export function parseBlockchairTime(value: any): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return new Date(value * 1000);
+  if (typeof value === 'string') {
+    if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+      return new Date(value.replace(' ', 'T') + 'Z');
+    }
+    if (!isNaN(Date.parse(value))) return new Date(value);
+    if (!isNaN(parseInt(value, 10))) return new Date(parseInt(value, 10) * 1000);
+  }
+  return null;
+}
+
+function collectRecipients(entries: any): string[] {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((entry: any) => entry && typeof entry.recipient === 'string')
+    .map((entry: any) => entry.recipient);
+}
+
+function optionalIndex(value: any): number | null {
+  return value === null || value === undefined || value === '' ? null : Number(value);
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Bitcoin inputs from a transaction dashboard; each entry is the output being spent
+ */
+function toBitcoinInputs(entries: any): TransactionInput[] {
+  if (!Array.isArray(entries)) return [];
+  return entries.filter(Boolean).map((entry: any, position: number) => ({
+    index: optionalIndex(entry.spending_index) ?? position,
+    address: typeof entry.recipient === 'string' ? entry.recipient : null,
+    value: String(entry.value ?? '0'),
+    script_type: entry.type ?? null,
+    spent_transaction_hash: entry.transaction_hash ?? null,
+    spent_output_index: optionalIndex(entry.index),
+  }));
+}
+
+function toBitcoinOutputs(entries: any): TransactionOutput[] {
+  if (!Array.isArray(entries)) return [];
+  return entries.filter(Boolean).map((entry: any, position: number) => ({
+    index: optionalIndex(entry.index) ?? position,
+    address: typeof entry.recipient === 'string' ? entry.recipient : null,
+    value: String(entry.value ?? '0'),
+    script_type: entry.type ?? null,
+    spent_by_transaction_hash: entry.spending_transaction_hash ?? null,
+    spent_by_input_index: optionalIndex(entry.spending_index),
+  }));
+}
+
+/**
+ * Normalize a Blockchair transaction row, optionally enriched with its dashboard details
+ * (`{ transaction, inputs, outputs }` for Bitcoin, `{ transaction, calls }` for Ethereum)
+ */
+export function normalizeBlockchairTransaction(chain: Chain, tx: any, details?: any): ChainTransaction {
+  const base = tx || details?.transaction || {};
+
+  if (chain === 'bitcoin') {
+    const detailInputs = collectRecipients(details?.inputs);
+    const detailOutputs = collectRecipients(details?.outputs);
+    const inputAddresses = detailInputs.length > 0 ? detailInputs : (Array.isArray(base.input_addresses) ? base.input_addresses : []);
+    const outputAddresses = detailOutputs.length > 0 ? detailOutputs : (Array.isArray(base.output_addresses) ? base.output_addresses : []);
+
+    return {
+      hash: base.hash,
+      chain,
+      block_id: typeof base.block_id === 'number' && base.block_id > 0 ? base.block_id : null,
+      time: parseBlockchairTime(base.time) || new Date(),
+      value: String(base.output_total ?? base.value ?? '0'),
+      fee: String(base.fee ?? '0'),
+      sender: inputAddresses[0] || null,
+      receiver: outputAddresses[0] || null,
+      input_addresses: inputAddresses,
+      output_addresses: outputAddresses,
+      inputs: toBitcoinInputs(details?.inputs),
+      outputs: toBitcoinOutputs(details?.outputs),
+      raw: details ? { transaction: base, details } : base,
+    };
+  }
+
+  const sender = base.sender || details?.transaction?.sender || null;
+  const receiver = base.recipient || base.receiver || details?.transaction?.recipient || null;
+  const value = String(base.value ?? '0');
+
+  return {
+    hash: base.hash,
+    chain,
+    block_id: typeof base.block_id === 'number' && base.block_id > 0 ? base.block_id : null,
+    time: parseBlockchairTime(base.time) || new Date(),
+    value,
+    fee: String(base.fee ?? '0'),
+    sender,
+    receiver,
+    input_addresses: sender ? [sender] : [],
+    output_addresses: receiver ? [receiver] : [],
+    // An Ethereum transfer moves the value from its sender to its recipient
+    inputs: sender
+      ? [{ index: 0, address: sender, value, script_type: null, spent_transaction_hash: null, spent_output_index: null }]
+      : [],
+    outputs: receiver
+      ? [{ index: 0, address: receiver, value, script_type: null, spent_by_transaction_hash: null, spent_by_input_index: null }]
+      : [],
+    raw: details ? { transaction: base, details } : base,
+  };
+}
+
+/**
+ * Normalize one chain's entry of a Blockchair /stats response
+ */
+export function normalizeBlockchairStats(chain: Chain, response: any): ChainStats {
+  if (!response || !response.data) {
+    throw new Error('Invalid stats data received');
+  }
+
+  const chainData = response.data[chain]?.data || {};
+  return {
+    chain,
+    blocks: Number(chainData.blocks) || 0,
+    blocks_24h: optionalNumber(chainData.blocks_24h),
+    hashrate: String(chainData.hashrate_24h || '0'),
+    difficulty: optionalNumber(chainData.difficulty),
+    mempool_transactions: Number(chainData.mempool_transactions) || 0,
+    market_price_usd: Number(chainData.market_price_usd) || 0,
+    average_transaction_fee_usd_24h: optionalNumber(chainData.average_transaction_fee_usd_24h),
+    volume_24h: chainData.volume_24h != null ? String(chainData.volume_24h) : null,
+    // BTC suggests sat/byte; ETH suggests gwei per speed, "normal" is the middle one
+    suggested_fee: chain === 'bitcoin'
+      ? optionalNumber(chainData.suggested_transaction_fee_per_byte_sat)
+      : optionalNumber(chainData.suggested_transaction_fee_gwei_options?.normal),
+    raw: chainData,
+  };
+}
+
+
+// Blockchair lists unconfirmed transactions with block_id -1
+function minedBlockId(value: unknown): number | null {
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+function toAddressTransaction(tx: any): AddressTransaction {
+  return {
+    hash: tx.hash,
+    block_id: minedBlockId(tx.block_id),
+    time: parseBlockchairTime(tx.time),
+    balance_change: String(tx.balance_change ?? '0'),
+  };
+}
+
+/**
+ * Net balance change per transaction from an Ethereum address's calls (value only, fees aren't listed)
+ */
+function callsToAddressTransactions(address: string, calls: any[]): AddressTransaction[] {
+  const byHash = new Map<string, AddressTransaction>();
+  for (const call of calls) {
+    if (!call || typeof call.transaction_hash !== 'string') continue;
+    const entry = byHash.get(call.transaction_hash) ?? {
+      hash: call.transaction_hash,
+      block_id: minedBlockId(call.block_id),
+      time: parseBlockchairTime(call.time),
+      balance_change: '0',
+    };
+    let change = BigInt(entry.balance_change);
+    const value = /^\d+$/.test(String(call.value)) ? BigInt(call.value) : 0n;
+    if (call.recipient?.toLowerCase() === address) change += value;
+    if (call.sender?.toLowerCase() === address) change -= value;
+    byHash.set(call.transaction_hash, { ...entry, balance_change: change.toString() });
+  }
+  return [...byHash.values()];
+}
+
+/**
+ * Normalize one page of a Blockchair address dashboard fetched with limit/offset.
+ * Bitcoin lists transactions (bare hashes without transaction_details, which carry nothing to show
+ * and are skipped), Ethereum lists calls, several of which can belong to one transaction.
+ */
+export function normalizeBlockchairAddressHistory(
+  chain: Chain,
+  address: string,
+  offset: number,
+  limit: number,
+  response: any
+): AddressHistoryPage | null {
+  const entry = response?.data?.[address] ?? (response?.data ? Object.values(response.data)[0] : null) as any;
+  if (!entry) return null;
+
+  const list: any[] = (chain === 'bitcoin' ? entry.transactions : entry.calls) ?? [];
+  const transactions = chain === 'bitcoin'
+    ? list.filter(tx => tx && typeof tx === 'object' && tx.hash).map(toAddressTransaction)
+    : callsToAddressTransactions(address.toLowerCase(), list);
+  return {
+    address,
+    chain,
+    offset,
+    listed: list.length,
+    complete: list.length < limit,
+    transactions,
+  };
+}
+
+/**
+ * Normalize a Blockchair address dashboard response
+ */
+export function normalizeBlockchairAddress(chain: Chain, address: string, response: any): AddressSummary | null {
+  const entry = response?.data?.[address] ?? (response?.data ? Object.values(response.data)[0] : null) as any;
+  if (!entry) return null;
+
+  const info = entry.address || {};
+  // Blockchair returns bare hashes unless transaction_details=true was requested
+  const transactions: AddressTransaction[] = Array.isArray(entry.transactions)
+    ? entry.transactions.map((tx: any) => typeof tx === 'string'
+      ? { hash: tx, block_id: null, time: null, balance_change: '0' }
+      : toAddressTransaction(tx))
+    : [];
+
+  return {
+    address,
+    chain,
+    balance: String(info.balance ?? '0'),
+    received: String(info.received ?? info.received_approximate ?? '0'),
+    spent: String(info.spent ?? info.spent_approximate ?? '0'),
+    balance_usd: optionalNumber(info.balance_usd),
+    transaction_count: Number(info.transaction_count ?? info.call_count ?? transactions.length) || 0,
+    transactions,
+    raw: response,
+  };
+}
+
+/**
+ * Turn whatever shape fetchRecentTransactionsWithTimeFilter produced into a plain list
+ */
+function toTransactionList(response: any): any[] {
+  if (!response || !response.data) return [];
+  if (Array.isArray(response.data)) return response.data;
+  if (typeof response.data === 'object') return Object.values(response.data);
+  return [];
+}
+
+/**
+ * ChainDataProvider backed by the Blockchair REST API.
+ * Every call goes through blockchairApi.ts and therefore through the shared request queue.
+ */
+class BlockchairProvider implements ChainDataProvider {
+  readonly name = 'blockchair';
+
+  supports(chain: Chain): boolean {
+    return chain === 'bitcoin' || chain === 'ethereum';
+  }
+
+  async getStats(chain: Chain, options: ProviderRequestOptions = {}): Promise<ChainStats> {
+    // Blockchair serves every chain's stats from one /stats call; the queue coalesces
+    // concurrent per-chain lookups into a single request
+    return normalizeBlockchairStats(chain, await fetchDashboardStats(options.isUserRequest, undefined, options));
+  }
+
+  async getRecentTransactions(chain: Chain, limit: number, options: ProviderRequestOptions = {}): Promise<ChainTransaction[]> {
+    const isUserRequest = options.isUserRequest ?? false;
+    try {
+      const response = await fetchRecentTransactionsWithTimeFilter(chain, RECENT_TRANSACTIONS_WINDOW_MINUTES, limit, isUserRequest, options);
+      return toTransactionList(response)
+        .filter(tx => tx && tx.hash)
+        .map(tx => normalizeBlockchairTransaction(chain, tx, tx.has_detailed_info ? tx.details : undefined));
+    } catch (error: any) {
+      // A cancelled or expired request should not be replaced by another one
+      if (error.message?.startsWith('Request cancelled')) throw error;
+      // Fall back to the mempool listing, which needs no detail lookups
+      logger.warn(`Recent ${chain} transactions fetch failed, falling back to mempool listing: ${error.message}`);
+      const response = chain === 'bitcoin'
+        ? await fetchRecentBitcoinTransactions(limit, options)
+        : await fetchRecentEthereumTransactions(limit, options);
+      return toTransactionList(response)
+        .filter(tx => tx && tx.hash)
+        .map(tx => normalizeBlockchairTransaction(chain, tx));
+    }
+  }
+
+  async getTransaction(chain: Chain, hash: string, options: ProviderRequestOptions = {}): Promise<ChainTransaction | null> {
+    const response = await fetchTransactionByHash(chain, hash, options.isUserRequest ?? true, undefined, options);
+    const details = response?.data?.[hash];
+    if (!details || !details.transaction) return null;
+    return normalizeBlockchairTransaction(chain, details.transaction, details);
+  }
+
+  async getTransactions(chain: Chain, hashes: string[], options: ProviderRequestOptions = {}): Promise<Map<string, ChainTransaction>> {
+    const found = new Map<string, ChainTransaction>();
+    for (let i = 0; i < hashes.length; i += MAX_TRANSACTIONS_PER_BATCH) {
+      const batch = hashes.slice(i, i + MAX_TRANSACTIONS_PER_BATCH);
+      const response = await fetchTransactionsByHashes(chain, batch, options.isUserRequest ?? false, options);
+      for (const hash of batch) {
+        const details = response?.data?.[hash];
+        if (details && details.transaction) {
+          found.set(hash, normalizeBlockchairTransaction(chain, details.transaction, details));
+        }
+      }
+    }
+    return found;
+  }
+
+  async getAddress(chain: Chain, address: string, options: ProviderRequestOptions = {}): Promise<AddressSummary | null> {
+    const response = options.critical
+      ? await fetchWalletByAddressUserCritical(chain, address)
+      : await fetchWalletByAddress(chain, address, options.isUserRequest ?? true, options);
+    return normalizeBlockchairAddress(chain, address, response);
+  }
+
+  queueAddressLookup(chain: Chain, address: string, options: ProviderRequestOptions = {}): QueuedLookup {
+    return toQueuedLookup(queueWalletFetch(chain, address, options.isUserRequest ?? true, {
+      name: STORE_ADDRESS,
+      context: { chain, address },
+    }, options));
+  }
+
+  queueTransactionLookup(chain: Chain, hash: string, options: ProviderRequestOptions = {}): QueuedLookup {
+    return toQueuedLookup(fetchTransactionByHash(chain, hash, options.isUserRequest ?? true, {
+      name: STORE_TRANSACTION,
+      context: { chain, hash },
+    }, options));
+  }
+
+  queueAddressHistoryLookup(chain: Chain, address: string, offset: number, options: ProviderRequestOptions = {}): QueuedLookup {
+    const limit = env.WALLET_HISTORY_PAGE_SIZE;
+    return toQueuedLookup(queueAddressHistoryFetch(chain, address, offset, limit, options.isUserRequest ?? true, {
+      name: STORE_ADDRESS_HISTORY,
+      context: { chain, address, offset, limit },
+    }, options));
+  }
+
+  queueStatsRefresh(options: ProviderRequestOptions = {}): QueuedLookup {
+    return toQueuedLookup(fetchDashboardStats(options.isUserRequest, { name: STORE_STATS }, options));
+  }
+}
+
+/**
+ * Expose a queued request as a lookup; failures are already recorded by the queue
+ */
+function toQueuedLookup(request: QueuedRequest<any>): QueuedLookup {
+  return {
+    requestId: request.id,
+    done: request.then(
+      () => undefined,
+      error => logger.debug(`Queued Blockchair lookup ${request.id} failed: ${error.message}`)
+    ),
+  };
+}
+
+blockchairQueue.registerResultHandler(STORE_ADDRESS, async (response, { chain, address }) => {
+  const summary = normalizeBlockchairAddress(chain, address, response);
+  if (summary) await storeAddressSummary(summary);
+});
+
+blockchairQueue.registerResultHandler(STORE_TRANSACTION, async (response, { chain, hash }) => {
+  const details = response?.data?.[hash];
+  if (!details || !details.transaction) {
+    logger.warn(`Blockchair returned no ${chain} transaction ${hash}`);
+    return;
+  }
+  await storeTransaction(normalizeBlockchairTransaction(chain, details.transaction, details));
+});
+
+blockchairQueue.registerResultHandler(STORE_ADDRESS_HISTORY, async (response, { chain, address, offset, limit }) => {
+  const page = normalizeBlockchairAddressHistory(chain, address, offset, limit, response);
+  if (page) await storeAddressHistory(page);
+  // Every page carries the address summary; the newest one also refreshes the wallets row and its snapshot
+  if (offset === 0) {
+    const summary = normalizeBlockchairAddress(chain, address, response);
+    if (summary) await storeAddressSummary(summary);
+  }
+});
+
+blockchairQueue.registerResultHandler(STORE_STATS, async response => {
+  const snapshot = await storeStats(
+    normalizeBlockchairStats('bitcoin', response),
+    normalizeBlockchairStats('ethereum', response)
+  );
+  notifyClients('stats', snapshot);
+});
+
+export const blockchairProvider = new BlockchairProvider();
@@ -0,0 +1,52 @@
+import { env } from '../../env.js';
+import { blockchairProvider } from './blockchairProvider.js';
+import type { Chain, ChainCode, ChainDataProvider } from './types.js';
+
+export * from './types.js';
+
+// Every backend we know how to talk to, by the name used in config
+const providers: Record<string, ChainDataProvider> = {
+  [blockchairProvider.name]: blockchairProvider,
+};
+
+// Configured backend per chain (BITCOIN_DATA_PROVIDER / ETHEREUM_DATA_PROVIDER)
+const configuredProviders: Record<Chain, string> = {
+  bitcoin: env.BITCOIN_DATA_PROVIDER,
+  ethereum: env.ETHEREUM_DATA_PROVIDER,
+};
+
+/**
+ * Register an additional backend so it can be selected through config
+ */
+export function registerChainDataProvider(provider: ChainDataProvider): void {
+  providers[provider.name] = provider;
+}
+
+/**
+ * Get the data provider configured for a chain
+ */
+export function getChainDataProvider(chain: Chain): ChainDataProvider {
+  const name = configuredProviders[chain];
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown chain data provider "${name}" configured for ${chain}`);
+  }
+  if (!provider.supports(chain)) {
+    throw new Error(`Chain data provider "${name}" does not support ${chain}`);
+  }
+  return provider;
+}
+
+/**
+ * Map a chain to the code stored in our tables
+ */
+export function toChainCode(chain: Chain): ChainCode {
+  return chain === 'bitcoin' ? 'BTC' : 'ETH';
+}
+
+/**
+ * Map a stored chain code back to a chain
+ */
+export function fromChainCode(code: string): Chain {
+  return code === 'BTC' ? 'bitcoin' : 'ethereum';
+}
@@ -0,0 +1,130 @@
+/**
+ * Chain-agnostic data shapes returned by every ChainDataProvider.
+ * Routes and the scheduler only consume these, never a backend's raw response.
+ */
+
+import type { ChainStatsSnapshot } from '../../../../shared/stats.js';
+
+export type Chain = 'bitcoin' | 'ethereum';
+
+// Chain code as stored in the `chain` column of our tables
+export type ChainCode = 'BTC' | 'ETH';
+
+export interface ChainStats extends ChainStatsSnapshot {
+  chain: Chain;
+  raw: any; // provider payload for this chain, kept for raw_payload columns
+}
+
+// An input of a transaction; for BTC it is the output it spends
+export interface TransactionInput {
+  index: number;
+  address: string | null;
+  value: string; // smallest unit (satoshi / wei)
+  script_type: string | null;
+  // Transaction and output index of the spent output (BTC only)
+  spent_transaction_hash: string | null;
+  spent_output_index: number | null;
+}
+
+export interface TransactionOutput {
+  index: number;
+  address: string | null;
+  value: string;
+  script_type: string | null;
+  // Transaction and input index that spent this output, once spent (BTC only)
+  spent_by_transaction_hash: string | null;
+  spent_by_input_index: number | null;
+}
+
+export interface ChainTransaction {
+  hash: string;
+  chain: Chain;
+  block_id: number | null;
+  time: Date;
+  value: string; // smallest unit (satoshi / wei)
+  fee: string;
+  sender: string | null;
+  receiver: string | null;
+  input_addresses: string[];
+  output_addresses: string[];
+  // Every input and output; empty when the provider returned no details
+  // (Ethereum transfers have one of each: sender and recipient)
+  inputs: TransactionInput[];
+  outputs: TransactionOutput[];
+  raw: any;
+}
+
+export interface AddressTransaction {
+  hash: string;
+  block_id: number | null;
+  time: Date | null;
+  // Net effect on the address's balance, smallest unit; negative when it sent more than it received
+  balance_change: string;
+}
+
+// One page of an address's transaction history, newest first
+export interface AddressHistoryPage {
+  address: string;
+  chain: Chain;
+  // Position of the page in the backend's list and the number of list entries it covered
+  offset: number;
+  listed: number;
+  // Whether the list ended within this page
+  complete: boolean;
+  transactions: AddressTransaction[];
+}
+
+export interface AddressSummary {
+  address: string;
+  chain: Chain;
+  balance: string;
+  received: string;
+  spent: string;
+  // Value of the balance in USD as reported by the backend, null when it doesn't
+  balance_usd: number | null;
+  transaction_count: number;
+  transactions: AddressTransaction[];
+  raw: any;
+}
+
+export interface ProviderRequestOptions {
+  // User-initiated requests jump ahead of background work where the backend queues calls
+  isUserRequest?: boolean;
+  // Must go through ahead of everything else; backends without a queue can ignore it
+  critical?: boolean;
+  // Cancels the request (if it hasn't completed yet)
+  signal?: AbortSignal;
+  // Epoch ms after which a queued request is dropped instead of sent
+  deadline?: number;
+  // Page the data is fetched for; queued requests are dropped once nobody views it
+  page?: string;
+}
+
+// A lookup running in the background whose result is stored in our tables when it arrives
+export interface QueuedLookup {
+  requestId: string; // poll through the /status/:requestId endpoints
+  done: Promise<void>;
+}
+
+/**
+ * A backend able to answer our blockchain questions for one or more chains
+ * (Blockchair, a local node RPC, an explorer API, ...)
+ */
+export interface ChainDataProvider {
+  readonly name: string;
+  supports(chain: Chain): boolean;
+  getStats(chain: Chain, options?: ProviderRequestOptions): Promise<ChainStats>;
+  getRecentTransactions(chain: Chain, limit: number, options?: ProviderRequestOptions): Promise<ChainTransaction[]>;
+  getTransaction(chain: Chain, hash: string, options?: ProviderRequestOptions): Promise<ChainTransaction | null>;
+  // Several transactions at once, keyed by hash; hashes the backend doesn't know are left out
+  getTransactions(chain: Chain, hashes: string[], options?: ProviderRequestOptions): Promise<Map<string, ChainTransaction>>;
+  getAddress(chain: Chain, address: string, options?: ProviderRequestOptions): Promise<AddressSummary | null>;
+  // Background variants that store the result (wallets / transactions / stats tables)
+  queueAddressLookup(chain: Chain, address: string, options?: ProviderRequestOptions): QueuedLookup;
+  queueTransactionLookup(chain: Chain, hash: string, options?: ProviderRequestOptions): QueuedLookup;
+  // Fetches the history page of an address starting at offset into the wallet_transactions cache;
+  // the newest page (offset 0) refreshes the wallets row as well
+  queueAddressHistoryLookup(chain: Chain, address: string, offset: number, options?: ProviderRequestOptions): QueuedLookup;
+  // Refreshes stats for every chain the provider serves
+  queueStatsRefresh(options?: ProviderRequestOptions): QueuedLookup;
+}
@@ -0,0 +1,156 @@
+import { and, eq, inArray, isNotNull, lt } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { requestQueue, queueState } from '../db/schema/requestQueue.js';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Persistence for the Blockchair request queue.
+ * Writes never throw: a database hiccup must not stop API requests from being processed,
+ * it only means the affected item will not survive a restart.
+ */
+
+export type StoredRequestStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+const FINISHED_STATUSES: StoredRequestStatus[] = ['done', 'error', 'cancelled'];
+
+export interface StoredQueueItem {
+  id: string;
+  operation: string | null;
+  params: Record<string, any> | null;
+  result_handlers: Array<{ name: string; context?: Record<string, any> }> | null;
+  description: string;
+  priority: number;
+  is_critical: boolean;
+  status: StoredRequestStatus;
+  result?: any;
+  error?: string | null;
+  deadline: Date | null;
+  page: string | null;
+  attempts: number;
+  created_at: Date;
+}
+
+export function isQueuePersistenceEnabled(): boolean {
+  return env.QUEUE_PERSISTENCE;
+}
+
+/**
+ * Insert (or overwrite) a queue item
+ */
+export async function saveQueueItem(item: StoredQueueItem): Promise<void> {
+  if (!isQueuePersistenceEnabled()) return;
+  try {
+    const values = {
+      ...item,
+      result: item.result ?? null,
+      error: item.error ?? null,
+      updated_at: new Date(),
+    };
+    await db.insert(requestQueue)
+      .values(values)
+      .onConflictDoUpdate({ target: requestQueue.id, set: values });
+  } catch (error) {
+    logger.error(`Failed to persist queue item ${item.id}`, error);
+  }
+}
+
+/**
+ * Record a status change (and the outcome once the request has finished).
+ * An upsert, so the change sticks even if the item's insert never made it.
+ */
+export async function updateQueueItemStatus(
+  item: StoredQueueItem,
+  status: StoredRequestStatus,
+  outcome: { result?: any; error?: string | null } = {}
+): Promise<void> {
+  if (!isQueuePersistenceEnabled()) return;
+  try {
+    const change = {
+      status,
+      result: outcome.result ?? null,
+      error: outcome.error ?? null,
+      updated_at: new Date(),
+    };
+    await db.insert(requestQueue)
+      .values({ ...item, ...change })
+      .onConflictDoUpdate({ target: requestQueue.id, set: change });
+  } catch (error) {
+    logger.error(`Failed to update queue item ${item.id} to ${status}`, error);
+  }
+}
+
+function toStoredItem(row: typeof requestQueue.$inferSelect): StoredQueueItem {
+  return {
+    ...row,
+    params: row.params as StoredQueueItem['params'],
+    result_handlers: row.result_handlers as StoredQueueItem['result_handlers'],
+    status: row.status as StoredRequestStatus,
+  };
+}
+
+/**
+ * Items that were waiting or running when the server last stopped
+ */
+export async function loadUnfinishedQueueItems(): Promise<StoredQueueItem[]> {
+  if (!isQueuePersistenceEnabled()) return [];
+  const rows = await db.select()
+    .from(requestQueue)
+    .where(inArray(requestQueue.status, ['pending', 'processing']));
+  return rows.map(toStoredItem);
+}
+
+/**
+ * Look up a single item, e.g. for a status request after a restart
+ */
+export async function findQueueItem(id: string): Promise<StoredQueueItem | null> {
+  if (!isQueuePersistenceEnabled()) return null;
+  const rows = await db.select()
+    .from(requestQueue)
+    .where(eq(requestQueue.id, id))
+    .limit(1);
+  return rows.length > 0 ? toStoredItem(rows[0]) : null;
+}
+
+/**
+ * Retention for finished items: the response stays while a status poll may still ask for it
+ * (QUEUE_RESULT_RETENTION_MINUTES), the row itself for QUEUE_RETENTION_HOURS
+ */
+export async function pruneQueueItems(now: Date = new Date()): Promise<void> {
+  if (!isQueuePersistenceEnabled()) return;
+  const finishedBefore = (ms: number) => and(
+    inArray(requestQueue.status, FINISHED_STATUSES),
+    lt(requestQueue.updated_at, new Date(now.getTime() - ms))
+  );
+
+  const deleted = await db.delete(requestQueue)
+    .where(finishedBefore(env.QUEUE_RETENTION_HOURS * 60 * 60 * 1000))
+    .returning({ id: requestQueue.id });
+  // updated_at stays as it is, so the row still goes once it is old enough
+  const cleared = await db.update(requestQueue)
+    .set({ result: null })
+    .where(and(finishedBefore(env.QUEUE_RESULT_RETENTION_MINUTES * 60 * 1000), isNotNull(requestQueue.result)))
+    .returning({ id: requestQueue.id });
+
+  logger.info(`Pruned ${deleted.length} finished queue items, dropped the response of ${cleared.length}`);
+}
+
+export async function saveQueueState(key: string, value: any): Promise<void> {
+  if (!isQueuePersistenceEnabled()) return;
+  try {
+    await db.insert(queueState)
+      .values({ key, value, updated_at: new Date() })
+      .onConflictDoUpdate({ target: queueState.key, set: { value, updated_at: new Date() } });
+  } catch (error) {
+    logger.error(`Failed to persist queue state ${key}`, error);
+  }
+}
+
+export async function loadQueueState<T>(key: string): Promise<T | null> {
+  if (!isQueuePersistenceEnabled()) return null;
+  const rows = await db.select()
+    .from(queueState)
+    .where(eq(queueState.key, key))
+    .limit(1);
+  return rows.length > 0 ? rows[0].value as T : null;
+}
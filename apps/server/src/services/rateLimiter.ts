@@ -0,0 +1,178 @@
+/**
+ * Token bucket used to pace Blockchair requests.
+ * - Tokens refill continuously at `requestsPerMinute`, up to `burst`
+ * - Every request is charged its Blockchair `request_cost`; expensive calls can
+ *   push the bucket below zero, which delays the next request accordingly
+ * - A daily budget caps the total cost per UTC day (Blockchair resets limits at 00:00 UTC)
+ * - Background requests leave a share of the burst and of the daily budget to user requests
+ */
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  dailyBudget: number;
+  burst: number;
+  // Share (0-1) of burst and daily budget that only user requests may use
+  userReserveShare?: number;
+}
+
+export type ApiTier = 'free' | 'paid';
+
+// User requests may use the whole capacity, background requests only what's left after the reserve
+export type RequestLane = 'user' | 'system';
+
+// Default limits per Blockchair plan; each value can be overridden through env
+export const API_TIER_LIMITS: Record<ApiTier, RateLimitConfig> = {
+  // Keyless access: one request per minute keeps us clear of 430 bans
+  free: { requestsPerMinute: 1, dailyBudget: 1440, burst: 1 },
+  // Requests made with an API key
+  paid: { requestsPerMinute: 60, dailyBudget: 10000, burst: 5 },
+};
+
+// Serializable limiter state, persisted so limits hold across restarts
+export interface RateLimiterState {
+  tokens: number;
+  updatedAt: number;
+  dailySpent: number;
+  dailyResetAt: number;
+}
+
+export interface RateLimiterStatus extends RateLimitConfig {
+  availableTokens: number;
+  dailySpent: number;
+  dailyRemaining: number;
+  dailyResetAt: string;
+  waitMs: number;
+}
+
+/**
+ * Start of the next UTC day
+ */
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Read the request cost Blockchair reports in a response's `context`
+ */
+export function getRequestCost(response: any): number | null {
+  const cost = Number(response?.context?.request_cost);
+  return Number.isFinite(cost) && cost >= 0 ? cost : null;
+}
+
+export class TokenBucketRateLimiter {
+  private tokens: number;
+  private updatedAt: number;
+  private dailySpent = 0;
+  private dailyResetAt: number;
+
+  constructor(readonly config: RateLimitConfig, now: number = Date.now()) {
+    this.tokens = config.burst;
+    this.updatedAt = now;
+    this.dailyResetAt = nextUtcMidnight(now);
+  }
+
+  /**
+   * Average spacing between requests at the configured rate
+   */
+  get intervalMs(): number {
+    return 60000 / this.config.requestsPerMinute;
+  }
+
+  private refill(now: number): void {
+    if (now >= this.dailyResetAt) {
+      this.dailySpent = 0;
+      this.dailyResetAt = nextUtcMidnight(now);
+    }
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsed / this.intervalMs);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Capacity a request in the given lane must leave untouched
+   */
+  private reserveFor(lane: RequestLane): { tokens: number; daily: number } {
+    const share = lane === 'system' ? this.config.userReserveShare ?? 0 : 0;
+    return {
+      tokens: Math.floor(this.config.burst * share),
+      daily: Math.floor(this.config.dailyBudget * share),
+    };
+  }
+
+  /**
+   * Milliseconds until a request with the given cost may be sent
+   */
+  getWaitTime(cost: number = 1, now: number = Date.now(), lane: RequestLane = 'user'): number {
+    this.refill(now);
+    const reserve = this.reserveFor(lane);
+    if (this.dailySpent + cost > this.config.dailyBudget - reserve.daily) {
+      return this.dailyResetAt - now;
+    }
+    // A request needs a full token; costs above one are charged afterwards as debt
+    const needed = Math.min(cost, 1) + reserve.tokens;
+    if (this.tokens >= needed) return 0;
+    return Math.ceil((needed - this.tokens) * this.intervalMs);
+  }
+
+  /**
+   * Charge the bucket and the daily budget
+   */
+  consume(cost: number = 1, now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens -= cost;
+    this.dailySpent += cost;
+  }
+
+  /**
+   * Estimated wait for the request at the given position in the queue (0 = next)
+   */
+  estimateWait(position: number, now: number = Date.now()): number {
+    return this.getWaitTime(1, now) + position * this.intervalMs;
+  }
+
+  getStatus(now: number = Date.now()): RateLimiterStatus {
+    const waitMs = this.getWaitTime(1, now);
+    return {
+      ...this.config,
+      availableTokens: Math.round(this.tokens * 100) / 100,
+      dailySpent: this.dailySpent,
+      dailyRemaining: Math.max(0, this.config.dailyBudget - this.dailySpent),
+      dailyResetAt: new Date(this.dailyResetAt).toISOString(),
+      waitMs,
+    };
+  }
+
+  toState(): RateLimiterState {
+    return {
+      tokens: this.tokens,
+      updatedAt: this.updatedAt,
+      dailySpent: this.dailySpent,
+      dailyResetAt: this.dailyResetAt,
+    };
+  }
+
+  restoreState(state: RateLimiterState, now: number = Date.now()): void {
+    this.tokens = Math.min(this.config.burst, Number(state.tokens) || 0);
+    this.updatedAt = Number(state.updatedAt) || now;
+    this.dailySpent = Number(state.dailySpent) || 0;
+    this.dailyResetAt = Number(state.dailyResetAt) || nextUtcMidnight(now);
+    this.refill(now);
+  }
+}
+
+/**
+ * Limits for a tier with env overrides applied
+ */
+export function resolveRateLimitConfig(
+  tier: ApiTier,
+  overrides: { throttleMs?: number | null; dailyBudget?: number | null; burst?: number | null; userReserveShare?: number } = {}
+): RateLimitConfig {
+  const defaults = API_TIER_LIMITS[tier] || API_TIER_LIMITS.free;
+  return {
+    requestsPerMinute: overrides.throttleMs ? 60000 / overrides.throttleMs : defaults.requestsPerMinute,
+    dailyBudget: overrides.dailyBudget ?? defaults.dailyBudget,
+    burst: overrides.burst ?? defaults.burst,
+    userReserveShare: overrides.userReserveShare ?? 0,
+  };
+}
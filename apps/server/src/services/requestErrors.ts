@@ -0,0 +1,44 @@
+/**
+ * Classification of failed API requests for the queue's retry and backoff logic.
+ * - Retryable: rate limits (402/429/430), server errors (5xx), network failures, malformed payloads
+ * - Fatal: every other 4xx, e.g. an unknown address or a bad request; retrying can't help
+ */
+
+export const RETRYABLE_STATUSES = [402, 429, 430];
+
+export interface RequestErrorInfo {
+  retryable: boolean;
+  status: number | null;
+  // Server-requested delay (Retry-After header or Blockchair's error context)
+  retryAfterMs: number | null;
+  message: string;
+}
+
+/**
+ * Parse a Retry-After header: either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function classifyRequestError(error: any): RequestErrorInfo {
+  const status = typeof error?.status === 'number' ? error.status : null;
+  const retryAfterMs = typeof error?.retryAfterMs === 'number' ? error.retryAfterMs : null;
+  const message = String(error?.message ?? error);
+
+  let retryable: boolean;
+  if (status !== null) {
+    retryable = RETRYABLE_STATUSES.includes(status) || status >= 500;
+  } else {
+    // No HTTP status: connection problems (node-fetch FetchError) or an unparseable body
+    retryable = error?.name === 'FetchError' || error instanceof SyntaxError;
+  }
+
+  return { retryable, status, retryAfterMs, message };
+}
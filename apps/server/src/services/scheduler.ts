@@ -4,29 +4,27 @@ import { env } from '../env.js';
 import { db } from '../db/index.js';
 import { stats } from '../db/schema/stats.js';
 import { transactions } from '../db/schema/transactions.js';
-import { 
-  fetchDashboardStats, 
-  fetchRecentBitcoinTransactions,
-  fetchRecentEthereumTransactions,
-  fetchTransactionByHash,
-  extractSenderAddress,
-  extractReceiverAddress,
-  fetchRecentTransactionsWithTimeFilter
-} from './blockchairApi.js';
-import { eq, desc, sql } from 'drizzle-orm';
+import { getChainDataProvider, type Chain, type ChainTransaction } from './providers/index.js';
+import { desc } from 'drizzle-orm';
 import { pageTracker } from './pageTracker.js';
 import { blockchairQueue } from './blockchairRequestQueue.js';
-
-// Track active SSE clients for real-time updates
-export const sseClients = new Map<string, { response: any }>();
-
-// Maximum number of transactions to keep in the database
-const MAX_TRANSACTION_RECORDS = 1000;
+import { notifyClients } from './sseClients.js';
+import { ingestTransactions, storeStats } from './chainDataStore.js';
+import { pruneStats } from './statsRollups.js';
+import { runTransactionRetention } from './transactionRetention.js';
+import { reconcilePendingTransactions } from './transactionReconciliation.js';
+import { refreshWatchedWallets } from './watchlist.js';
+import { pruneQueueItems } from './queueStore.js';
 
 // Task schedules
 let transactionFetchingTask: cron.ScheduledTask | null = null;
 let delayedFetchTimeout: NodeJS.Timeout | null = null;
 let statsFetchingTask: cron.ScheduledTask | null = null;
+let statsPruningTask: cron.ScheduledTask | null = null;
+let queuePruningTask: cron.ScheduledTask | null = null;
+let transactionRetentionTask: cron.ScheduledTask | null = null;
+let transactionReconciliationTask: cron.ScheduledTask | null = null;
+let watchlistRefreshTask: cron.ScheduledTask | null = null;
 
 /**
  * Initialize the scheduler for periodic data fetching
@@ -79,11 +77,59 @@ export function initScheduler() {
         return;
       }
       logger.debug('Queueing background transaction fetch - users are on transactions page');
-      await fetchAndStoreTransactions(false);
+      await fetchAndStoreTransactions(false, 'transactions');
     } catch (error) {
       logger.error('Background transaction fetch failed:', error);
     }
   });
+  // Apply the stats retention policy every hour (database only, no API calls)
+  statsPruningTask = cron.schedule('15 * * * *', async () => {
+    try {
+      await pruneStats();
+    } catch (error) {
+      logger.error('Stats pruning failed:', error);
+    }
+  });
+  // Drop finished request_queue rows and old responses every hour (database only)
+  queuePruningTask = cron.schedule('45 * * * *', async () => {
+    try {
+      await pruneQueueItems();
+    } catch (error) {
+      logger.error('Queue pruning failed:', error);
+    }
+  });
+  // Apply the transaction retention policy every 10 minutes (database only)
+  transactionRetentionTask = cron.schedule('*/10 * * * *', async () => {
+    try {
+      await runTransactionRetention();
+    } catch (error) {
+      logger.error('Transaction retention failed:', error);
+    }
+  });
+  // Re-check pending transactions every 5 minutes (background API requests)
+  transactionReconciliationTask = cron.schedule('*/5 * * * *', async () => {
+    try {
+      if (blockchairQueue.isGloballyPaused() || blockchairQueue.isSchedulerPaused()) {
+        logger.info('Skipping pending transaction reconciliation due to system pause');
+        return;
+      }
+      await reconcilePendingTransactions();
+    } catch (error) {
+      logger.error('Pending transaction reconciliation failed:', error);
+    }
+  });
+  // Queue background refreshes of watched wallets every 5 minutes
+  watchlistRefreshTask = cron.schedule('*/5 * * * *', async () => {
+    try {
+      if (blockchairQueue.isGloballyPaused() || blockchairQueue.isSchedulerPaused()) {
+        logger.info('Skipping watchlist refresh due to system pause');
+        return;
+      }
+      await refreshWatchedWallets();
+    } catch (error) {
+      logger.error('Watchlist refresh failed:', error);
+    }
+  });
 }
 
 /**
@@ -113,7 +159,7 @@ export function scheduleDelayedTransactionFetch() {
   }
   
   // Check if the queue is empty and no API calls have been made yet
-  if (blockchairQueue.getStatus().totalProcessed === 0 || blockchairQueue.getStatus().lastRequestTime === 0) {
+  if (blockchairQueue.getStatus().lastRequestTime === 0) {
     logger.debug('Scheduling immediate transaction fetch (no prior API calls)');
     // Use a tiny delay just to let other operations finish
     delayedFetchTimeout = setTimeout(async () => {
@@ -123,7 +169,7 @@ export function scheduleDelayedTransactionFetch() {
       }
       
       logger.debug('Executing immediate transaction fetch (no prior API calls)');
-      await fetchAndStoreTransactions(true);
+      await fetchAndStoreTransactions(true, 'transactions');
       delayedFetchTimeout = null;
     }, 1000);
     return;
@@ -145,7 +191,7 @@ export function scheduleDelayedTransactionFetch() {
     }
     
     logger.debug(`Executing delayed transaction fetch after ${Math.round(delayTime/1000)}s wait`);
-    await fetchAndStoreTransactions(true);
+    await fetchAndStoreTransactions(true, 'transactions');
     delayedFetchTimeout = null;
   }, delayTime);
 }
@@ -183,31 +229,17 @@ export function resumeScheduler() {
 async function fetchAndStoreStats() {
   try {
     logger.debug('Fetching blockchain stats');
-    const statsData = await fetchDashboardStats();
-    
-    if (!statsData || !statsData.data) {
-      throw new Error('Invalid stats data received');
-    }
-    
-    // Extract relevant stats
-    const btcData = statsData.data.bitcoin?.data || {};
-    const ethData = statsData.data.ethereum?.data || {};
+    // Only worth the API call while someone is on the dashboard
+    const [btcStats, ethStats] = await Promise.all([
+      getChainDataProvider('bitcoin').getStats('bitcoin', { page: 'home' }),
+      getChainDataProvider('ethereum').getStats('ethereum', { page: 'home' }),
+    ]);
     
     // Store in database
-    await db.insert(stats).values({
-      raw_payload: statsData,
-      bitcoin_blocks: btcData.blocks || 0,
-      bitcoin_hashrate: String(btcData.hashrate_24h || '0'),
-      bitcoin_mempool_transactions: btcData.mempool_transactions || 0,
-      bitcoin_market_price_usd: String(btcData.market_price_usd || '0'),
-      ethereum_blocks: ethData.blocks || 0,
-      ethereum_hashrate: String(ethData.hashrate_24h || '0'),
-      ethereum_mempool_transactions: ethData.mempool_transactions || 0,
-      ethereum_market_price_usd: String(ethData.market_price_usd || '0'),
-    });
+    const snapshot = await storeStats(btcStats, ethStats);
     
-    // Notify connected clients with the raw API response
-    notifyClients('stats', statsData);
+    // Notify connected clients
+    notifyClients('stats', snapshot);
     
     logger.debug('Stats stored successfully');
   } catch (error) {
@@ -218,254 +250,23 @@ async function fetchAndStoreStats() {
 /**
  * Fetch and store recent transactions
  * @param isUserRequest Whether this is triggered by user action (higher priority)
+ * @param page Page the fetch is for; the queued requests are dropped if everyone has left it by then
  */
-async function fetchAndStoreTransactions(isUserRequest: boolean = false) {
+async function fetchAndStoreTransactions(isUserRequest: boolean = false, page?: string) {
   try {
     logger.debug(`Fetching recent transactions (user-initiated: ${isUserRequest})`);
     
-    // Calculate how many transactions to fetch from each blockchain
-    const limit = 10; // Number of transactions to fetch from each blockchain - Blockchair batch limit
-    const timeMinutes = 15; // Look for transactions from the last 15 minutes
+    // Number of transactions to fetch from each blockchain - Blockchair batch limit
+    const limit = 10;
     
-    // ----- FETCH BITCOIN TRANSACTIONS -----
-    logger.info('Fetching Bitcoin transactions...');
-    
-    // First try using our optimized batch API approach
-    try {
-      const btcTxData = await fetchRecentTransactionsWithTimeFilter('bitcoin', timeMinutes, limit, isUserRequest);
-      await processTransactionData('BTC', btcTxData, isUserRequest);
-      logger.info('Successfully processed Bitcoin transactions with batch API');
-    } catch (batchError: any) {
-      logger.warn(`Batch Bitcoin fetch failed, falling back to individual fetches: ${batchError.message}`);
-      
-      // Fall back to the original approach if batch fails
-      const btcTxData = await fetchRecentBitcoinTransactions(limit);
-      
-      if (btcTxData && btcTxData.data && Array.isArray(btcTxData.data)) {
-        let processedCount = 0;
-        
-        logger.info(`Processing ${btcTxData.data.length} Bitcoin transactions individually`);
-        
-        for (const tx of btcTxData.data) {
-          if (!tx || !tx.hash) continue;
-          
-          // Check if we already have this transaction
-          const existingTx = await db.select()
-            .from(transactions)
-            .where(eq(transactions.hash, tx.hash))
-            .limit(1);
-            
-          if (existingTx.length > 0) {
-            logger.debug(`Transaction ${tx.hash} already exists, skipping`);
-            continue;
-          }
-          
-          // First, try to get the transaction details with inputs/outputs
-          try {
-            // Make sure we respect rate limits between individual transaction fetches
-            const timeUntilNextAllowed = blockchairQueue.getTimeUntilNextRequest();
-            if (timeUntilNextAllowed > 0) {
-              logger.debug(`Waiting ${Math.round(timeUntilNextAllowed/1000)}s before fetching next transaction details`);
-              await new Promise(resolve => setTimeout(resolve, timeUntilNextAllowed + 1000));
-            }
-            
-            // Pass the isUserRequest flag down to the API call
-            const txDetails = await fetchTransactionByHash('bitcoin', tx.hash, isUserRequest);
-            
-            if (txDetails && txDetails.data && txDetails.data[tx.hash]) {
-              const detailedTx = txDetails.data[tx.hash];
-              
-              await insertTransaction({
-                hash: tx.hash,
-                chain: 'BTC',
-                block_number: tx.block_id || null,
-                block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                          (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-                value: String(tx.output_total || tx.value || '0'),
-                fee: String(tx.fee || '0'),
-                sender: extractSenderAddress(detailedTx, 'bitcoin') || 'Unknown',
-                receiver: extractReceiverAddress(detailedTx, 'bitcoin') || 'Unknown',
-                status: tx.block_id ? 'confirmed' : 'pending',
-                raw_payload: {
-                  transaction: tx,
-                  details: detailedTx
-                },
-              });
-              
-              processedCount++;
-              logger.debug(`Processed Bitcoin transaction ${tx.hash} with detailed info`);
-            } else {
-              // Fall back to simple transaction data
-              await insertTransaction({
-                hash: tx.hash,
-                chain: 'BTC',
-                block_number: tx.block_id || null,
-                block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                          (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-                value: String(tx.output_total || tx.value || '0'),
-                fee: String(tx.fee || '0'),
-                sender: (tx.input_addresses && tx.input_addresses[0]) || 'Unknown',
-                receiver: (tx.output_addresses && tx.output_addresses[0]) || 'Unknown',
-                status: tx.block_id ? 'confirmed' : 'pending',
-                raw_payload: tx,
-              });
-              
-              processedCount++;
-              logger.debug(`Processed Bitcoin transaction ${tx.hash} with basic info`);
-            }
-          } catch (fetchError: any) {
-            // If detailed fetch fails, try with simple data
-            logger.debug(`Error fetching details for ${tx.hash}: ${fetchError.message}`);
-            
-            await insertTransaction({
-              hash: tx.hash,
-              chain: 'BTC',
-              block_number: tx.block_id || null,
-              block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                        (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-              value: String(tx.output_total || tx.value || '0'),
-              fee: String(tx.fee || '0'),
-              sender: (tx.input_addresses && tx.input_addresses[0]) || 'Unknown',
-              receiver: (tx.output_addresses && tx.output_addresses[0]) || 'Unknown',
-              status: tx.block_id ? 'confirmed' : 'pending',
-              raw_payload: tx,
-            });
-            
-            processedCount++;
-            logger.debug(`Processed Bitcoin transaction ${tx.hash} with fallback info after error`);
-          }
-          
-          // Limit the number of individual fetches to respect rate limits
-          if (processedCount >= 5) {
-            logger.info(`Limiting to ${processedCount} individual Bitcoin transactions to respect rate limits`);
-            break;
-          }
-        }
-        
-        logger.info(`Successfully processed ${processedCount} Bitcoin transactions individually`);
-      }
-    }
-    
-    // Check rate limit before fetching Ethereum transactions
-    const timeBeforeEthFetch = blockchairQueue.getTimeUntilNextRequest();
-    if (timeBeforeEthFetch > 0) {
-      logger.info(`Waiting ${Math.round(timeBeforeEthFetch/1000)}s before fetching ETH transactions due to rate limit`);
-      await new Promise(resolve => setTimeout(resolve, timeBeforeEthFetch + 500));
-    }
-    
-    // ----- FETCH ETHEREUM TRANSACTIONS -----
-    logger.info('Fetching Ethereum transactions...');
-    
-    // First try using our optimized batch API approach
-    try {
-      const ethTxData = await fetchRecentTransactionsWithTimeFilter('ethereum', timeMinutes, limit, isUserRequest);
-      await processTransactionData('ETH', ethTxData, isUserRequest);
-      logger.info('Successfully processed Ethereum transactions with batch API');
-    } catch (batchError: any) {
-      logger.warn(`Batch Ethereum fetch failed, falling back to individual fetches: ${batchError.message}`);
-      
-      // Fall back to the original approach if batch fails
-      const ethTxData = await fetchRecentEthereumTransactions(limit);
-      
-      if (ethTxData && ethTxData.data && Array.isArray(ethTxData.data)) {
-        let processedCount = 0;
-        
-        logger.info(`Processing ${ethTxData.data.length} Ethereum transactions individually`);
-        
-        for (const tx of ethTxData.data) {
-          if (!tx || !tx.hash) continue;
-          
-          // Check if we already have this transaction
-          const existingTx = await db.select()
-            .from(transactions)
-            .where(eq(transactions.hash, tx.hash))
-            .limit(1);
-            
-          if (existingTx.length > 0) {
-            logger.debug(`Transaction ${tx.hash} already exists, skipping`);
-            continue;
-          }
-          
-          try {
-            // Make sure we respect rate limits between individual transaction fetches
-            const timeUntilNextAllowed = blockchairQueue.getTimeUntilNextRequest();
-            if (timeUntilNextAllowed > 0) {
-              logger.debug(`Waiting ${Math.round(timeUntilNextAllowed/1000)}s before fetching next transaction details`);
-              await new Promise(resolve => setTimeout(resolve, timeUntilNextAllowed + 1000));
-            }
-            
-            // Pass the isUserRequest flag down to the API call
-            const txDetails = await fetchTransactionByHash('ethereum', tx.hash, isUserRequest);
-            
-            if (txDetails && txDetails.data && txDetails.data[tx.hash]) {
-              const detailedTx = txDetails.data[tx.hash];
-              
-              await insertTransaction({
-                hash: tx.hash,
-                chain: 'ETH',
-                block_number: tx.block_id || null,
-                block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                          (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-                value: String(tx.value || '0'),
-                fee: String(tx.fee || '0'),
-                sender: extractSenderAddress(detailedTx, 'ethereum') || 'Unknown',
-                receiver: extractReceiverAddress(detailedTx, 'ethereum') || 'Unknown',
-                status: tx.block_id ? 'confirmed' : 'pending',
-                raw_payload: {
-                  transaction: tx,
-                  details: detailedTx
-                },
-              });
-              
-              processedCount++;
-              logger.debug(`Processed Ethereum transaction ${tx.hash} with detailed info`);
-            } else {
-              await insertTransaction({
-                hash: tx.hash,
-                chain: 'ETH',
-                block_number: tx.block_id || null,
-                block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                          (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-                value: String(tx.value || '0'),
-                fee: String(tx.fee || '0'),
-                sender: tx.sender || 'Unknown',
-                receiver: tx.recipient || tx.receiver || 'Unknown',
-                status: tx.block_id ? 'confirmed' : 'pending',
-                raw_payload: tx,
-              });
-              
-              processedCount++;
-              logger.debug(`Processed Ethereum transaction ${tx.hash} with basic info`);
-            }
-          } catch (fetchError: any) {
-            logger.debug(`Error fetching details for ${tx.hash}: ${fetchError.message}`);
-            
-            await insertTransaction({
-              hash: tx.hash,
-              chain: 'ETH',
-              block_number: tx.block_id || null,
-              block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                        (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-              value: String(tx.value || '0'),
-              fee: String(tx.fee || '0'),
-              sender: tx.sender || 'Unknown',
-              receiver: tx.recipient || tx.receiver || 'Unknown',
-              status: tx.block_id ? 'confirmed' : 'pending',
-              raw_payload: tx,
-            });
-            
-            processedCount++;
-            logger.debug(`Processed Ethereum transaction ${tx.hash} with fallback info after error`);
-          }
-          
-          // Limit the number of individual fetches to respect rate limits
-          if (processedCount >= 5) {
-            logger.info(`Limiting to ${processedCount} individual Ethereum transactions to respect rate limits`);
-            break;
-          }
-        }
-        
-        logger.info(`Successfully processed ${processedCount} Ethereum transactions individually`);
+    for (const chain of ['bitcoin', 'ethereum'] as Chain[]) {
+      logger.info(`Fetching ${chain} transactions...`);
+      try {
+        const chainTransactions = await getChainDataProvider(chain).getRecentTransactions(chain, limit, { isUserRequest, page });
+        await processTransactionData(chain, chainTransactions);
+        logger.info(`Successfully processed ${chain} transactions`);
+      } catch (error: any) {
+        logger.warn(`Fetching ${chain} transactions failed: ${error.message}`);
       }
     }
     
@@ -484,244 +285,17 @@ async function fetchAndStoreTransactions(isUserRequest: boolean = false) {
 }
 
 /**
- * Helper function to process transaction data from Blockchair API
- * @param chain Chain identifier (BTC or ETH)
- * @param txData Response data from Blockchair
- * @param isUserRequest Whether this is a user-initiated request
+ * Helper function to store the transactions returned by a data provider
+ * @param chain Chain the transactions belong to
+ * @param chainTransactions Normalized transactions from the provider
  */
-async function processTransactionData(chain: string, txData: any, isUserRequest: boolean) {
-  if (!txData || !txData.data) {
-    logger.warn(`No ${chain} transaction data found or invalid response format`);
-    return;
-  }
-  
-  // Check if data is in expected format
-  let txList: any[] = [];
-  
-  // Handle different response formats
-  if (Array.isArray(txData.data)) {
-    // Direct array format
-    txList = txData.data;
-    logger.debug(`Processing ${chain} transactions in array format (${txList.length} items)`);
-  } else if (typeof txData.data === 'object') {
-    // Object format with hash keys
-    txList = Object.values(txData.data) as any[];
-    logger.debug(`Processing ${chain} transactions in object format (${txList.length} items)`);
-  } else {
-    logger.warn(`Unexpected data format from ${chain} API: ${typeof txData.data}`);
-    return;
-  }
-  
-  logger.info(`Processing ${txList.length} transactions from ${chain}`);
-  
-  // Log the structure of the first transaction for debugging
-  if (txList.length > 0) {
-    const sampleTx = txList[0];
-    logger.debug(`Sample ${chain} transaction structure:`, JSON.stringify(sampleTx).substring(0, 500));
-  }
-  
-  const newTransactionsToProcess = [];
-  
-  // First, identify which transactions are new and need to be processed
-  for (let i = 0; i < txList.length; i++) {
-    const tx = txList[i];
-    if (!tx || !tx.hash) {
-      logger.debug(`Skipping transaction with no hash`);
-      continue;
-    }
-    
-    // Check if transaction already exists in database
-    const existingTx = await db.select()
-      .from(transactions)
-      .where(eq(transactions.hash, tx.hash))
-      .limit(1);
-      
-    if (existingTx.length === 0) {
-      // This is a new transaction, add it to our processing list
-      newTransactionsToProcess.push(tx);
-    } else {
-      logger.debug(`Transaction ${tx.hash} already exists, skipping`);
-    }
-  }
-  
-  // Log how many new transactions we found
-  logger.info(`Found ${newTransactionsToProcess.length} new ${chain} transactions to process`);
-  
-  // Process new transactions
-  for (const tx of newTransactionsToProcess) {
-    try {
-      // Process based on chain type
-      if (chain === 'BTC') {
-        // For Bitcoin, we need to handle the basic format without detailed address information
-        let senderAddress = null;
-        let receiverAddress = null;
-        
-        // For basic Bitcoin transaction format, like the one shown in the example
-        // We won't have sender/receiver addresses directly - we need to fetch them separately
-        // or use the batch request to get more details
-        
-        // In the simplified basic format, attempt to use any address info we might have
-        if (tx.input_addresses && Array.isArray(tx.input_addresses) && tx.input_addresses.length > 0) {
-          senderAddress = tx.input_addresses[0];
-        }
-        
-        if (tx.output_addresses && Array.isArray(tx.output_addresses) && tx.output_addresses.length > 0) {
-          receiverAddress = tx.output_addresses[0];
-        }
-        
-        // If we have detailed transaction info, try to extract addresses from there
-        if (tx.has_detailed_info) {
-          if (tx.details && tx.details.inputs && Array.isArray(tx.details.inputs) && tx.details.inputs.length > 0) {
-            const senderInput = tx.details.inputs.find((input: any) => input.recipient);
-            senderAddress = senderInput ? senderInput.recipient : senderAddress;
-          }
-          
-          if (tx.details && tx.details.outputs && Array.isArray(tx.details.outputs) && tx.details.outputs.length > 0) {
-            const receiverOutput = tx.details.outputs.find((output: any) => output.recipient);
-            receiverAddress = receiverOutput ? receiverOutput.recipient : receiverAddress;
-          }
-        }
-        
-        // For transactions without address info, use placeholder text
-        // At least we'll store the transaction in the database
-        if (!senderAddress) {
-          logger.warn(`No sender address found for BTC transaction ${tx.hash}`);
-          senderAddress = 'Unknown';
-        }
-        
-        if (!receiverAddress) {
-          logger.warn(`No receiver address found for BTC transaction ${tx.hash}`);
-          receiverAddress = 'Unknown';
-        }
-        
-        logger.debug(`Bitcoin transaction ${tx.hash} - sender: ${senderAddress}, receiver: ${receiverAddress}`);
-        
-        // Insert transaction with the data we have
-        await insertTransaction({
-          hash: tx.hash,
-          chain: 'BTC',
-          block_number: tx.block_id || null,
-          block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                      (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-          value: String(tx.output_total || tx.value || '0'),
-          fee: String(tx.fee || '0'),
-          sender: senderAddress,
-          receiver: receiverAddress,
-          status: tx.block_id ? 'confirmed' : 'pending',
-          raw_payload: tx,
-        });
-      } else if (chain === 'ETH') {
-        let sender = tx.sender || null;
-        let receiver = tx.recipient || tx.receiver || null;
-        
-        // Additional fallbacks for Ethereum
-        if (!sender && tx.transaction && tx.transaction.sender) {
-          sender = tx.transaction.sender;
-        }
-        
-        if (!receiver && tx.transaction && tx.transaction.recipient) {
-          receiver = tx.transaction.recipient;
-        }
-        
-        // For transactions without address info, use placeholder text
-        if (!sender) {
-          logger.warn(`No sender address found for ETH transaction ${tx.hash}`);
-          sender = 'Unknown';
-        }
-        
-        if (!receiver) {
-          logger.warn(`No receiver address found for ETH transaction ${tx.hash}`);
-          receiver = 'Unknown';
-        }
-        
-        logger.debug(`Ethereum transaction ${tx.hash} - sender: ${sender}, receiver: ${receiver}`);
-        
-        await insertTransaction({
-          hash: tx.hash,
-          chain: 'ETH',
-          block_number: tx.block_id || null,
-          block_time: tx.time && !isNaN(Date.parse(tx.time)) ? new Date(tx.time) : 
-                      (tx.time && !isNaN(parseInt(tx.time)) ? new Date(parseInt(tx.time) * 1000) : new Date()),
-          value: String(tx.value || '0'),
-          fee: String(tx.fee || '0'),
-          sender: sender,
-          receiver: receiver,
-          status: tx.block_id ? 'confirmed' : 'pending',
-          raw_payload: tx,
-        });
-      }
-      logger.debug(`Processed ${chain} transaction ${tx.hash}`);
-    } catch (error) {
-      logger.error(`Error processing ${chain} transaction ${tx.hash}:`, error);
-      // Continue with the next transaction
+async function processTransactionData(chain: Chain, chainTransactions: ChainTransaction[]) {
+  for (const tx of chainTransactions) {
+    if (!tx.sender || !tx.receiver) {
+      logger.warn(`Missing sender or receiver address for ${chain} transaction ${tx.hash}`);
     }
   }
-}
 
-/**
- * Helper function to safely insert a transaction with duplicate handling
- */
-async function insertTransaction(txData: any) {
-  try {
-    // Check if transaction already exists
-    const existingTx = await db.select()
-      .from(transactions)
-      .where(eq(transactions.hash, txData.hash))
-      .limit(1);
-    
-    if (existingTx.length === 0) {
-      // Count current records before inserting
-      const countResult = await db.select({ count: sql`COUNT(*)` })
-        .from(transactions);
-      
-      const total = parseInt(countResult[0].count as string, 10);
-      
-      // If we're at or above the limit, delete the oldest transaction first
-      if (total >= MAX_TRANSACTION_RECORDS) {
-        // Find the oldest transaction
-        const oldestTx = await db.select({ hash: transactions.hash })
-          .from(transactions)
-          .orderBy(transactions.block_time)
-          .limit(1);
-        
-        if (oldestTx.length > 0) {
-          // Delete the oldest transaction
-          await db.delete(transactions)
-            .where(eq(transactions.hash, oldestTx[0].hash));
-          
-          logger.debug(`Deleted oldest transaction ${oldestTx[0].hash} to maintain limit of ${MAX_TRANSACTION_RECORDS}`);
-        }
-      }
-      
-      // Insert new transaction
-      await db.insert(transactions).values(txData);
-      logger.debug(`Inserted transaction ${txData.hash}`);
-    } else {
-      // Optional: update transaction if needed (e.g., status changes)
-      // For now, we're just skipping duplicates
-      logger.debug(`Transaction ${txData.hash} already exists, skipping`);
-    }
-  } catch (error: any) {
-    // Handle possible race condition where transaction was inserted after our check
-    if (error.message?.includes('duplicate key value violates unique constraint')) {
-      logger.debug(`Transaction ${txData.hash} was inserted by another process`);
-    } else {
-      // Re-throw other errors
-      throw error;
-    }
-  }
+  const { inserted, updated } = await ingestTransactions(chainTransactions);
+  logger.info(`Stored ${chainTransactions.length} ${chain} transactions: ${inserted} new, ${updated} updated`);
 }
-
-/**
- * Notify SSE clients with updates
- */
-function notifyClients(event: string, data: any) {
-  sseClients.forEach(client => {
-    try {
-      client.response.write(`event: ${event}\n`);
-      client.response.write(`data: ${JSON.stringify(data)}\n\n`);
-    } catch (error) {
-      logger.error(`Error sending SSE update to client`, error);
-    }
-  });
-} 
\ No newline at end of file
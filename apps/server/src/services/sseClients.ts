@@ -0,0 +1,18 @@
+import { logger } from '../utils/logger.js';
+
+// Track active SSE clients for real-time updates
+export const sseClients = new Map<string, { response: any }>();
+
+/**
+ * Notify SSE clients with updates
+ */
+export function notifyClients(event: string, data: any) {
+  sseClients.forEach(client => {
+    try {
+      client.response.write(`event: ${event}\n`);
+      client.response.write(`data: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      logger.error(`Error sending SSE update to client`, error);
+    }
+  });
+}
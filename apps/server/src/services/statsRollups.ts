@@ -0,0 +1,189 @@
+import { and, asc, eq, gte, inArray, lt, lte, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { stats, statsRollups } from '../db/schema/stats.js';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import type {
+  BlockchainStats,
+  StatsHistory,
+  StatsHistoryPoint,
+  StatsMetric,
+  StatsResolution,
+} from '../../../shared/stats.js';
+
+/**
+ * Time-series rollups of the stats snapshots.
+ * - Every stored snapshot is folded into its 1m, 1h and 1d bucket per metric (min, max, avg, last)
+ * - The history endpoint reads the coarsest resolution that still gives enough points for the window
+ * - Raw rows and fine buckets are pruned after their retention period
+ */
+
+export const STATS_METRICS: StatsMetric[] = [
+  'bitcoin_blocks',
+  'bitcoin_blocks_24h',
+  'bitcoin_hashrate',
+  'bitcoin_difficulty',
+  'bitcoin_mempool_transactions',
+  'bitcoin_market_price_usd',
+  'bitcoin_average_transaction_fee_usd_24h',
+  'bitcoin_volume_24h',
+  'bitcoin_suggested_fee',
+  'ethereum_blocks',
+  'ethereum_blocks_24h',
+  'ethereum_hashrate',
+  'ethereum_difficulty',
+  'ethereum_mempool_transactions',
+  'ethereum_market_price_usd',
+  'ethereum_average_transaction_fee_usd_24h',
+  'ethereum_volume_24h',
+  'ethereum_suggested_fee',
+];
+
+export const RESOLUTION_MS: Record<StatsResolution, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Finest resolution first; windows up to `maxWindowMs` are served from it
+const RESOLUTION_CHOICES: Array<{ resolution: StatsResolution; maxWindowMs: number }> = [
+  { resolution: '1m', maxWindowMs: 6 * RESOLUTION_MS['1h'] },
+  { resolution: '1h', maxWindowMs: 14 * RESOLUTION_MS['1d'] },
+  { resolution: '1d', maxWindowMs: Infinity },
+];
+
+export function isStatsResolution(value: unknown): value is StatsResolution {
+  return typeof value === 'string' && value in RESOLUTION_MS;
+}
+
+export function isStatsMetric(value: unknown): value is StatsMetric {
+  return (STATS_METRICS as unknown[]).includes(value);
+}
+
+/**
+ * Start of the bucket a time falls into (UTC, like the stored timestamps)
+ */
+export function bucketStart(resolution: StatsResolution, time: Date): Date {
+  const size = RESOLUTION_MS[resolution];
+  return new Date(Math.floor(time.getTime() / size) * size);
+}
+
+/**
+ * Resolution for a history window: a few hundred points at most
+ */
+export function pickResolution(windowMs: number): StatsResolution {
+  return RESOLUTION_CHOICES.find(choice => windowMs <= choice.maxWindowMs)!.resolution;
+}
+
+/**
+ * One rollup row per resolution and metric for a single snapshot (metrics without a value are skipped)
+ */
+export function toRollupRows(snapshot: BlockchainStats): Array<typeof statsRollups.$inferInsert> {
+  const time = new Date(snapshot.timestamp);
+  const rows: Array<typeof statsRollups.$inferInsert> = [];
+  for (const metric of STATS_METRICS) {
+    const raw = snapshot[metric];
+    const value = raw === null ? NaN : Number(raw);
+    if (!Number.isFinite(value)) continue;
+    for (const resolution of Object.keys(RESOLUTION_MS) as StatsResolution[]) {
+      rows.push({
+        resolution,
+        bucket_start: bucketStart(resolution, time),
+        metric,
+        min: value,
+        max: value,
+        avg: value,
+        last: value,
+        samples: 1,
+        last_at: time,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Fold a stored snapshot into its buckets
+ */
+export async function rollupStats(snapshot: BlockchainStats) {
+  const rows = toRollupRows(snapshot);
+  if (rows.length === 0) return;
+
+  await db.insert(statsRollups)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [statsRollups.resolution, statsRollups.metric, statsRollups.bucket_start],
+      set: {
+        min: sql`least(${statsRollups.min}, excluded.min)`,
+        max: sql`greatest(${statsRollups.max}, excluded.max)`,
+        avg: sql`(${statsRollups.avg} * ${statsRollups.samples} + excluded.avg) / (${statsRollups.samples} + 1)`,
+        samples: sql`${statsRollups.samples} + 1`,
+        // A late sample doesn't replace a newer one
+        last: sql`case when excluded.last_at >= ${statsRollups.last_at} then excluded.last else ${statsRollups.last} end`,
+        last_at: sql`greatest(${statsRollups.last_at}, excluded.last_at)`,
+      },
+    });
+}
+
+/**
+ * Metric series between two times, at the given resolution or the one picked for the window
+ */
+export async function getStatsHistory(
+  from: Date,
+  to: Date,
+  metrics: StatsMetric[] = STATS_METRICS,
+  resolution: StatsResolution = pickResolution(to.getTime() - from.getTime())
+): Promise<StatsHistory> {
+  const rows = await db.select()
+    .from(statsRollups)
+    .where(and(
+      eq(statsRollups.resolution, resolution),
+      inArray(statsRollups.metric, metrics),
+      // Include the bucket `from` falls into
+      gte(statsRollups.bucket_start, bucketStart(resolution, from)),
+      lte(statsRollups.bucket_start, to)
+    ))
+    .orderBy(asc(statsRollups.bucket_start));
+
+  const series: StatsHistory['series'] = {};
+  for (const metric of metrics) series[metric] = [];
+  for (const row of rows) {
+    const point: StatsHistoryPoint = {
+      timestamp: row.bucket_start.toISOString(),
+      min: row.min,
+      max: row.max,
+      avg: row.avg,
+      last: row.last,
+      samples: row.samples,
+    };
+    series[row.metric as StatsMetric]?.push(point);
+  }
+
+  return { resolution, from: from.toISOString(), to: to.toISOString(), series };
+}
+
+/**
+ * Delete raw stats rows and 1m/1h buckets past their retention period
+ */
+export async function pruneStats(now: Date = new Date()) {
+  const hours = (count: number) => new Date(now.getTime() - count * RESOLUTION_MS['1h']);
+  const days = (count: number) => new Date(now.getTime() - count * RESOLUTION_MS['1d']);
+
+  const [rawRows, minuteRows, hourRows] = await Promise.all([
+    db.delete(stats)
+      .where(and(
+        lt(stats.timestamp, hours(env.STATS_RAW_RETENTION_HOURS)),
+        // The latest snapshot stays, GET /api/stats/latest serves it however old it is
+        sql`${stats.id} <> (select max(id) from ${stats})`
+      ))
+      .returning({ id: stats.id }),
+    db.delete(statsRollups)
+      .where(and(eq(statsRollups.resolution, '1m'), lt(statsRollups.bucket_start, days(env.STATS_1M_RETENTION_DAYS))))
+      .returning({ metric: statsRollups.metric }),
+    db.delete(statsRollups)
+      .where(and(eq(statsRollups.resolution, '1h'), lt(statsRollups.bucket_start, days(env.STATS_1H_RETENTION_DAYS))))
+      .returning({ metric: statsRollups.metric }),
+  ]);
+
+  logger.info(`Pruned ${rawRows.length} stats rows, ${minuteRows.length} 1m and ${hourRows.length} 1h rollups`);
+}
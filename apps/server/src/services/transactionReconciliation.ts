@@ -0,0 +1,178 @@
+import { and, eq, inArray, ne, sql } from 'drizzle-orm';
+import { alias, type PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '../db/index.js';
+import { transactionInputs, transactionOutputs, transactions } from '../db/schema/transactions.js';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { ingestTransactions } from './chainDataStore.js';
+import { fromChainCode, getChainDataProvider, type ChainCode, type ChainTransaction } from './providers/index.js';
+import { notifyClients } from './sseClients.js';
+import type { TransactionConfirmedEvent, TransactionStatus } from '../../../shared/transactions.js';
+
+/**
+ * Moves pending transactions along their lifecycle.
+ * - Pending rows are looked up again through the provider (background lane of the request queue),
+ *   the ones checked longest ago first
+ * - Mined ones get their block number, block time and 'confirmed' status, and a
+ *   `transaction_confirmed` SSE event goes out
+ * - One the provider no longer knows is 'replaced' when we have seen a conflicting transaction
+ *   (BTC: spending the same output, ETH: same sender and nonce), 'dropped' once it has been
+ *   missing past the grace period
+ */
+
+export interface ReconciliationResult {
+  chain: ChainCode;
+  checked: number;
+  confirmed: number;
+  dropped: number;
+  replaced: number;
+}
+
+export interface PendingLookup {
+  found: ChainTransaction | undefined; // undefined: the provider doesn't know the hash
+  replacedBy: string | null;
+  firstSeen: Date; // block_time of a pending row is the time it was first seen
+}
+
+const CHAINS: ChainCode[] = ['BTC', 'ETH'];
+
+/**
+ * Status a pending transaction moves to after a lookup
+ */
+export function classifyPendingTransaction(lookup: PendingLookup, now: Date, dropAfterMinutes: number): TransactionStatus {
+  if (lookup.found) return lookup.found.block_id !== null ? 'confirmed' : 'pending';
+  if (lookup.replacedBy) return 'replaced';
+  // The provider may not have seen a fresh transaction yet
+  const missingFor = now.getTime() - lookup.firstSeen.getTime();
+  return missingFor >= dropAfterMinutes * 60 * 1000 ? 'dropped' : 'pending';
+}
+
+/**
+ * Hash of a stored transaction that conflicts with the given Bitcoin one: it spends an output
+ * the given one spends too, or is recorded as that output's spender
+ */
+async function findBitcoinReplacement(hash: string): Promise<string | null> {
+  const other = alias(transactionInputs, 'other_inputs');
+  const [conflictingInput] = await db.select({ hash: other.transaction_hash })
+    .from(transactionInputs)
+    .innerJoin(other, and(
+      eq(other.spent_transaction_hash, transactionInputs.spent_transaction_hash),
+      eq(other.spent_output_index, transactionInputs.spent_output_index),
+      ne(other.transaction_hash, transactionInputs.transaction_hash)
+    ))
+    .where(eq(transactionInputs.transaction_hash, hash))
+    .limit(1);
+  if (conflictingInput) return conflictingInput.hash;
+
+  const [spentOutput] = await db.select({ hash: transactionOutputs.spent_by_transaction_hash })
+    .from(transactionInputs)
+    .innerJoin(transactionOutputs, and(
+      eq(transactionOutputs.transaction_hash, transactionInputs.spent_transaction_hash),
+      eq(transactionOutputs.index, transactionInputs.spent_output_index)
+    ))
+    .where(and(
+      eq(transactionInputs.transaction_hash, hash),
+      ne(transactionOutputs.spent_by_transaction_hash, hash)
+    ))
+    .limit(1);
+  return spentOutput?.hash ?? null;
+}
+
+/**
+ * Hash of another stored Ethereum transaction with the same sender and nonce
+ */
+async function findEthereumReplacement(hash: string): Promise<string | null> {
+  const other = alias(transactions, 'other_transactions');
+  // The nonce is only kept in the provider payload, with or without dashboard details around it
+  const nonce = (payload: PgColumn) => sql`coalesce(${payload}->'transaction'->>'nonce', ${payload}->>'nonce')`;
+  const [conflicting] = await db.select({ hash: other.hash })
+    .from(transactions)
+    .innerJoin(other, and(
+      eq(other.chain, 'ETH'),
+      eq(other.sender, transactions.sender),
+      ne(other.hash, transactions.hash),
+      sql`${nonce(other.raw_payload)} = ${nonce(transactions.raw_payload)}`
+    ))
+    .where(and(eq(transactions.hash, hash), ne(transactions.sender, 'Unknown')))
+    .limit(1);
+  return conflicting?.hash ?? null;
+}
+
+async function reconcileChain(chain: ChainCode, now: Date): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = { chain, checked: 0, confirmed: 0, dropped: 0, replaced: 0 };
+  const pending = await db.select({ hash: transactions.hash, block_time: transactions.block_time })
+    .from(transactions)
+    .where(and(eq(transactions.chain, chain), eq(transactions.status, 'pending')))
+    .orderBy(sql`${transactions.last_checked_at} asc nulls first`)
+    .limit(env.TRANSACTION_RECONCILE_BATCH_SIZE);
+  if (pending.length === 0) return result;
+
+  const providerChain = fromChainCode(chain);
+  const found = await getChainDataProvider(providerChain).getTransactions(
+    providerChain,
+    pending.map(row => row.hash),
+    { isUserRequest: false }
+  );
+
+  await db.update(transactions)
+    .set({ last_checked_at: now })
+    .where(inArray(transactions.hash, pending.map(row => row.hash)));
+  result.checked = pending.length;
+
+  const mined: ChainTransaction[] = [];
+  for (const row of pending) {
+    const tx = found.get(row.hash);
+    const replacedBy = tx ? null : chain === 'BTC'
+      ? await findBitcoinReplacement(row.hash)
+      : await findEthereumReplacement(row.hash);
+    const status = classifyPendingTransaction({ found: tx, replacedBy, firstSeen: row.block_time }, now, env.TRANSACTION_DROP_AFTER_MINUTES);
+
+    if (status === 'confirmed') {
+      mined.push(tx!);
+    } else if (status === 'replaced' || status === 'dropped') {
+      await db.update(transactions)
+        .set({ status, replaced_by: replacedBy })
+        .where(and(eq(transactions.hash, row.hash), eq(transactions.status, 'pending')));
+      result[status]++;
+    }
+  }
+
+  if (mined.length > 0) {
+    // The upsert sets block number, block time and status of the known rows
+    await ingestTransactions(mined);
+    for (const tx of mined) {
+      const event: TransactionConfirmedEvent = {
+        hash: tx.hash,
+        chain,
+        block_number: tx.block_id!,
+        block_time: tx.time.toISOString(),
+      };
+      notifyClients('transaction_confirmed', event);
+    }
+    result.confirmed = mined.length;
+  }
+
+  return result;
+}
+
+/**
+ * Look up a batch of pending transactions per chain and record what became of them
+ */
+export async function reconcilePendingTransactions(now: Date = new Date()): Promise<ReconciliationResult[]> {
+  const results: ReconciliationResult[] = [];
+  for (const chain of CHAINS) {
+    let result: ReconciliationResult;
+    try {
+      result = await reconcileChain(chain, now);
+    } catch (error: any) {
+      // One chain's lookup failing shouldn't hold up the other; the rows are retried next run
+      logger.warn(`Reconciling pending ${chain} transactions failed: ${error.message}`);
+      continue;
+    }
+    if (result.confirmed > 0 || result.dropped > 0 || result.replaced > 0) {
+      logger.info(`Reconciled ${result.checked} pending ${chain} transactions: ${result.confirmed} confirmed, ${result.replaced} replaced, ${result.dropped} dropped`);
+    }
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,135 @@
+import { and, asc, count, eq, inArray, isNotNull, lt, not, type SQL } from 'drizzle-orm';
+import { union } from 'drizzle-orm/pg-core';
+import { db } from '../db/index.js';
+import { transactions } from '../db/schema/transactions.js';
+import { wallets, watchedWallets } from '../db/schema/wallets.js';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { involvesAnyAddress } from './addressActivity.js';
+import type { ChainCode } from './providers/index.js';
+
+/**
+ * Background retention for the transactions table.
+ * - Per chain, rows older than the age limit go, then the oldest rows beyond the count limit
+ * - Transactions of labelled and watched wallets are kept regardless
+ * - Deletes run in small batches with a pause in between, so the scheduler's inserts
+ *   never wait long on the table; inputs and outputs go with their transaction (FK cascade)
+ */
+
+export interface RetentionPolicy {
+  maxAgeDays: number | null; // null: no age limit
+  maxCount: number | null; // null: no count limit
+}
+
+export interface RetentionSettings {
+  maxTransactions: number | null;
+  maxTransactionsPerChain: Partial<Record<ChainCode, number | null>>;
+  maxAgeDays: number | null;
+  maxAgeDaysPerChain: Partial<Record<ChainCode, number | null>>;
+}
+
+export interface RetentionResult {
+  chain: ChainCode;
+  expired: number; // deleted for their age
+  overLimit: number; // deleted for the count limit
+}
+
+// Pause between delete batches
+const BATCH_PAUSE_MS = 100;
+
+const CHAINS: ChainCode[] = ['BTC', 'ETH'];
+
+/**
+ * Policy of a chain: its own limits where set, the shared ones otherwise
+ */
+export function resolveRetentionPolicy(chain: ChainCode, settings: RetentionSettings): RetentionPolicy {
+  return {
+    maxAgeDays: settings.maxAgeDaysPerChain[chain] ?? settings.maxAgeDays,
+    maxCount: settings.maxTransactionsPerChain[chain] ?? settings.maxTransactions,
+  };
+}
+
+function settingsFromEnv(): RetentionSettings {
+  return {
+    maxTransactions: env.MAX_TRANSACTIONS,
+    maxTransactionsPerChain: { BTC: env.MAX_TRANSACTIONS_BTC, ETH: env.MAX_TRANSACTIONS_ETH },
+    maxAgeDays: env.TRANSACTION_MAX_AGE_DAYS,
+    maxAgeDaysPerChain: { BTC: env.TRANSACTION_MAX_AGE_DAYS_BTC, ETH: env.TRANSACTION_MAX_AGE_DAYS_ETH },
+  };
+}
+
+/**
+ * Condition on the transactions table: the row may be deleted by retention
+ */
+function notExempt(): SQL {
+  const protectedAddresses = union(
+    db.select({ address: wallets.address })
+      .from(wallets)
+      .where(isNotNull(wallets.label)),
+    db.select({ address: watchedWallets.address })
+      .from(watchedWallets)
+  );
+  return not(involvesAnyAddress(protectedAddresses));
+}
+
+/**
+ * Delete up to `limit` rows matching the condition, oldest first, one batch at a time
+ * @returns Number of rows deleted
+ */
+async function deleteInBatches(condition: SQL, limit: number = Infinity): Promise<number> {
+  let deleted = 0;
+  while (deleted < limit) {
+    const batchSize = Math.min(env.TRANSACTION_RETENTION_BATCH_SIZE, limit - deleted);
+    const batch = db.select({ hash: transactions.hash })
+      .from(transactions)
+      .where(condition)
+      .orderBy(asc(transactions.block_time))
+      .limit(batchSize);
+    const rows = await db.delete(transactions)
+      .where(inArray(transactions.hash, batch))
+      .returning({ hash: transactions.hash });
+
+    deleted += rows.length;
+    if (rows.length < batchSize) break;
+    await new Promise(resolve => setTimeout(resolve, BATCH_PAUSE_MS));
+  }
+  return deleted;
+}
+
+async function applyPolicy(chain: ChainCode, policy: RetentionPolicy, now: Date): Promise<RetentionResult> {
+  const deletable = and(eq(transactions.chain, chain), notExempt())!;
+  const result: RetentionResult = { chain, expired: 0, overLimit: 0 };
+
+  if (policy.maxAgeDays !== null) {
+    const cutoff = new Date(now.getTime() - policy.maxAgeDays * 24 * 60 * 60 * 1000);
+    result.expired = await deleteInBatches(and(deletable, lt(transactions.block_time, cutoff))!);
+  }
+
+  if (policy.maxCount !== null) {
+    // Exempt rows don't count towards the limit
+    const [{ total }] = await db.select({ total: count() }).from(transactions).where(deletable);
+    if (total > policy.maxCount) {
+      result.overLimit = await deleteInBatches(deletable, total - policy.maxCount);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply the retention policy of every chain
+ */
+export async function runTransactionRetention(
+  settings: RetentionSettings = settingsFromEnv(),
+  now: Date = new Date()
+): Promise<RetentionResult[]> {
+  const results: RetentionResult[] = [];
+  for (const chain of CHAINS) {
+    const result = await applyPolicy(chain, resolveRetentionPolicy(chain, settings), now);
+    if (result.expired > 0 || result.overLimit > 0) {
+      logger.info(`Transaction retention removed ${result.expired} expired and ${result.overLimit} excess ${chain} transactions`);
+    }
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,72 @@
+import { and, asc, desc, eq, gte, lt, lte } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { walletSnapshots } from '../db/schema/wallets.js';
+import { env } from '../env.js';
+import type { AddressSummary, ChainCode } from './providers/index.js';
+import type { WalletHistory, WalletSnapshot } from '../../../shared/wallets.js';
+
+/**
+ * Balance history of addresses.
+ * - storeAddressSummary adds a wallet_snapshots row for every stored lookup (page view, manual refresh
+ *   or the watchlist's background refresh), with the provider's USD value at the time
+ * - Lookups that find the balance and transaction count unchanged are thinned out to one snapshot
+ *   per WALLET_SNAPSHOT_INTERVAL_MINUTES, so bursts of page views don't add a row each
+ * - A snapshot holds until the next one; a window's history starts with the last snapshot
+ *   before it, the balance held when the window begins
+ */
+
+export function toWalletSnapshot(row: typeof walletSnapshots.$inferSelect): WalletSnapshot {
+  return {
+    taken_at: row.taken_at.toISOString(),
+    balance: row.balance,
+    received: row.received,
+    spent: row.spent,
+    transaction_count: row.transaction_count,
+    balance_usd: row.balance_usd,
+  };
+}
+
+/**
+ * Whether a stored lookup adds a snapshot: always when the balance or transaction count changed,
+ * otherwise once the last snapshot is at least the interval old
+ */
+export function shouldTakeSnapshot(
+  previous: Pick<typeof walletSnapshots.$inferSelect, 'balance' | 'transaction_count' | 'taken_at'> | undefined,
+  summary: Pick<AddressSummary, 'balance' | 'transaction_count'>,
+  now: Date,
+  intervalMinutes: number = env.WALLET_SNAPSHOT_INTERVAL_MINUTES
+): boolean {
+  if (!previous) return true;
+  const changed = BigInt(previous.balance) !== BigInt(summary.balance)
+    || previous.transaction_count !== summary.transaction_count;
+  return changed || now.getTime() - previous.taken_at.getTime() >= intervalMinutes * 60 * 1000;
+}
+
+/**
+ * Snapshots of an address taken between from and to, after the last one taken before from
+ */
+export async function getWalletHistory(address: string, chain: ChainCode, from: Date, to: Date): Promise<WalletHistory> {
+  const [before, rows] = await Promise.all([
+    db.select()
+      .from(walletSnapshots)
+      .where(and(eq(walletSnapshots.address, address), lt(walletSnapshots.taken_at, from)))
+      .orderBy(desc(walletSnapshots.taken_at))
+      .limit(1),
+    db.select()
+      .from(walletSnapshots)
+      .where(and(
+        eq(walletSnapshots.address, address),
+        gte(walletSnapshots.taken_at, from),
+        lte(walletSnapshots.taken_at, to)
+      ))
+      .orderBy(asc(walletSnapshots.taken_at)),
+  ]);
+
+  return {
+    address,
+    chain,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    snapshots: [...before, ...rows].map(toWalletSnapshot),
+  };
+}
@@ -0,0 +1,158 @@
+import { and, desc, eq, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '../db/index.js';
+import { transactions } from '../db/schema/transactions.js';
+import { walletHistorySync, walletTransactions } from '../db/schema/wallets.js';
+import { env } from '../env.js';
+import { involvesAddress, withAddressFlows } from './addressActivity.js';
+import { fromChainCode, getChainDataProvider, type ChainCode } from './providers/index.js';
+import type { TransactionStatus } from '../../../shared/transactions.js';
+import type { WalletTransaction, WalletTransactionsPage } from '../../../shared/wallets.js';
+
+/**
+ * Paginated transaction history of a wallet.
+ * - Merges the transactions table (any input or output of the address) with the provider's address
+ *   history cached in wallet_transactions; a hash found in both is returned once
+ * - The history is fetched through the queue one WALLET_HISTORY_PAGE_SIZE page at a time: once the
+ *   cached entries run out the next older page is queued, and the newest page again when the first
+ *   page is viewed and the last fetch is older than WALLET_HISTORY_REFRESH_MINUTES
+ * - A cursor is the time and hash of the last transaction returned, so new transactions don't shift pages
+ */
+
+export interface TransactionCursor {
+  time: Date;
+  hash: string;
+}
+
+export function encodeCursor(tx: Pick<WalletTransaction, 'time' | 'hash'>): string {
+  return Buffer.from(`${tx.time}|${tx.hash}`).toString('base64url');
+}
+
+/**
+ * @returns null when the cursor wasn't made by encodeCursor
+ */
+export function decodeCursor(cursor: string): TransactionCursor | null {
+  const [time, hash] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(time);
+  return hash && !isNaN(date.getTime()) ? { time: date, hash } : null;
+}
+
+// Newest first; the hash orders transactions of the same time
+function compareNewestFirst(a: WalletTransaction, b: WalletTransaction): number {
+  return b.time.localeCompare(a.time) || b.hash.localeCompare(a.hash);
+}
+
+/**
+ * Merge the next stored and cached history transactions (each at most limit + 1, newest first)
+ * into one page. A stored transaction keeps its status but takes the provider's balance change,
+ * which also covers inputs and outputs we never stored.
+ */
+export function mergeWalletTransactions(
+  stored: WalletTransaction[],
+  history: WalletTransaction[],
+  limit: number
+): { transactions: WalletTransaction[]; hasMore: boolean } {
+  const byHash = new Map(history.map(tx => [tx.hash, tx]));
+  for (const tx of stored) {
+    const cached = byHash.get(tx.hash);
+    byHash.set(tx.hash, cached
+      ? { ...tx, block_number: tx.block_number ?? cached.block_number, balance_change: cached.balance_change }
+      : tx);
+  }
+  const merged = [...byHash.values()].sort(compareNewestFirst);
+  return { transactions: merged.slice(0, limit), hasMore: merged.length > limit };
+}
+
+export interface HistorySyncState {
+  fetched_count: number;
+  complete: boolean;
+  synced_at: Date;
+}
+
+/**
+ * Offset of the history page to fetch for a request, null when the cache can serve it
+ * @param firstPage Whether the request had no cursor
+ * @param hasMore Whether the page was filled from what we have
+ */
+export function historyOffsetToFetch(
+  sync: HistorySyncState | undefined,
+  firstPage: boolean,
+  hasMore: boolean,
+  now: Date,
+  refreshMinutes: number = env.WALLET_HISTORY_REFRESH_MINUTES
+): number | null {
+  if (!sync) return 0;
+  if (!hasMore && !sync.complete) return sync.fetched_count;
+  if (firstPage && now.getTime() - sync.synced_at.getTime() >= refreshMinutes * 60 * 1000) return 0;
+  return null;
+}
+
+// Rows older than the cursor in newest-first order
+function olderThan(time: PgColumn, hash: PgColumn, cursor: TransactionCursor | null): SQL | undefined {
+  return cursor ? sql`(${time}, ${hash}) < (${cursor.time.toISOString()}::timestamp, ${cursor.hash})` : undefined;
+}
+
+/**
+ * One page of a wallet's transactions, newest first, queueing a history fetch when the cache falls short
+ * @param address As returned by validateAddress
+ */
+export async function getWalletTransactions(
+  address: string,
+  chain: ChainCode,
+  limit: number,
+  cursor: TransactionCursor | null,
+  now: Date = new Date()
+): Promise<WalletTransactionsPage> {
+  const [storedRows, historyRows, [sync]] = await Promise.all([
+    db.select()
+      .from(transactions)
+      .where(and(involvesAddress(address), olderThan(transactions.block_time, transactions.hash, cursor)))
+      .orderBy(desc(transactions.block_time), desc(transactions.hash))
+      .limit(limit + 1),
+    db.select()
+      .from(walletTransactions)
+      .where(and(eq(walletTransactions.address, address), olderThan(walletTransactions.time, walletTransactions.hash, cursor)))
+      .orderBy(desc(walletTransactions.time), desc(walletTransactions.hash))
+      .limit(limit + 1),
+    db.select()
+      .from(walletHistorySync)
+      .where(eq(walletHistorySync.address, address))
+      .limit(1),
+  ]);
+
+  const stored = (await withAddressFlows(address, storedRows)).map((tx): WalletTransaction => ({
+    hash: tx.hash,
+    block_number: tx.block_number !== null ? Number(tx.block_number) : null,
+    time: tx.block_time.toISOString(),
+    balance_change: tx.balance_change,
+    status: tx.status as TransactionStatus | null,
+  }));
+  const history = historyRows.map((row): WalletTransaction => ({
+    hash: row.hash,
+    block_number: row.block_number,
+    time: row.time.toISOString(),
+    balance_change: row.balance_change,
+    status: null,
+  }));
+  const page = mergeWalletTransactions(stored, history, limit);
+
+  const offset = historyOffsetToFetch(sync, cursor === null, page.hasMore, now);
+  let requestId: string | null = null;
+  if (offset !== null) {
+    // Identical lookups are coalesced by the queue, so repeated page views queue one fetch
+    const providerChain = fromChainCode(chain);
+    requestId = getChainDataProvider(providerChain)
+      .queueAddressHistoryLookup(providerChain, address, offset, { isUserRequest: true }).requestId;
+  }
+
+  const last = page.transactions[page.transactions.length - 1];
+  return {
+    address,
+    chain,
+    transactions: page.transactions,
+    next_cursor: page.hasMore && last ? encodeCursor(last) : null,
+    history_complete: sync?.complete ?? false,
+    request_id: requestId,
+    status_url: requestId ? `/api/wallets/${address}/status/${requestId}` : null,
+  };
+}
@@ -0,0 +1,138 @@
+import { asc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { wallets, watchedWallets } from '../db/schema/wallets.js';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { fromChainCode, getChainDataProvider, type ChainCode } from './providers/index.js';
+import type { WatchedWallet } from '../../../shared/wallets.js';
+
+/**
+ * The wallets page's watchlist.
+ * - Watched wallets live in watched_wallets; their balance is read from the cached wallets row
+ * - Adding one queues a user lookup right away; after that the scheduler queues background
+ *   refreshes for the wallets refreshed longest ago
+ * - Lookups fetch the newest page of the address history, which stores the balance and the
+ *   latest transactions (wallet_transactions) in one call
+ * - Their transactions are kept by the retention job
+ */
+
+export interface WatchedWalletInput {
+  // As returned by validateAddress
+  address: string;
+  chain: ChainCode;
+  name: string | null;
+  notes: string | null;
+}
+
+const watchedWalletColumns = {
+  watched: watchedWallets,
+  balance: wallets.balance,
+  transaction_count: wallets.transaction_count,
+};
+
+type WatchedWalletRow = {
+  watched: typeof watchedWallets.$inferSelect;
+  balance: string | null;
+  transaction_count: string | null;
+};
+
+function toWatchedWallet({ watched, balance, transaction_count }: WatchedWalletRow): WatchedWallet {
+  return {
+    id: watched.id,
+    address: watched.address,
+    chain: watched.chain as ChainCode,
+    name: watched.name,
+    notes: watched.notes,
+    created_at: watched.created_at.toISOString(),
+    balance,
+    transaction_count: transaction_count !== null ? Number(transaction_count) : null,
+    refreshed_at: watched.refreshed_at?.toISOString() ?? null,
+  };
+}
+
+export async function listWatchedWallets(): Promise<WatchedWallet[]> {
+  const rows = await db.select(watchedWalletColumns)
+    .from(watchedWallets)
+    .leftJoin(wallets, eq(wallets.address, watchedWallets.address))
+    .orderBy(asc(watchedWallets.created_at));
+  return rows.map(toWatchedWallet);
+}
+
+export async function getWatchedWallet(id: number): Promise<WatchedWallet | null> {
+  const [row] = await db.select(watchedWalletColumns)
+    .from(watchedWallets)
+    .leftJoin(wallets, eq(wallets.address, watchedWallets.address))
+    .where(eq(watchedWallets.id, id))
+    .limit(1);
+  return row ? toWatchedWallet(row) : null;
+}
+
+/**
+ * Add a wallet and queue its first lookup
+ * @returns The wallet and the id of the queued lookup, or null when the address is watched already
+ */
+export async function addWatchedWallet(input: WatchedWalletInput): Promise<{ wallet: WatchedWallet; requestId: string } | null> {
+  const { address } = input;
+  const [inserted] = await db.insert(watchedWallets)
+    .values({ ...input, refreshed_at: new Date() })
+    .onConflictDoNothing({ target: watchedWallets.address })
+    .returning({ id: watchedWallets.id });
+  if (!inserted) return null;
+
+  const chain = fromChainCode(input.chain);
+  const lookup = getChainDataProvider(chain).queueAddressHistoryLookup(chain, address, 0, { isUserRequest: true });
+  logger.info(`Added ${input.chain} wallet ${address} to the watchlist`);
+  return { wallet: (await getWatchedWallet(inserted.id))!, requestId: lookup.requestId };
+}
+
+/**
+ * Rename a wallet or change its notes
+ * @returns The updated wallet, null when there is none with this id
+ */
+export async function updateWatchedWallet(
+  id: number,
+  changes: Partial<Pick<WatchedWalletInput, 'name' | 'notes'>>
+): Promise<WatchedWallet | null> {
+  const updated = await db.update(watchedWallets)
+    .set(changes)
+    .where(eq(watchedWallets.id, id))
+    .returning({ id: watchedWallets.id });
+  return updated.length > 0 ? getWatchedWallet(id) : null;
+}
+
+/**
+ * @returns Whether there was a wallet with this id
+ */
+export async function removeWatchedWallet(id: number): Promise<boolean> {
+  const removed = await db.delete(watchedWallets)
+    .where(eq(watchedWallets.id, id))
+    .returning({ address: watchedWallets.address });
+  if (removed.length > 0) logger.info(`Removed wallet ${removed[0].address} from the watchlist`);
+  return removed.length > 0;
+}
+
+/**
+ * Queue background lookups for the watched wallets not refreshed within WATCHLIST_REFRESH_MINUTES
+ * @returns Number of lookups queued
+ */
+export async function refreshWatchedWallets(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - env.WATCHLIST_REFRESH_MINUTES * 60 * 1000);
+  const due = await db.select({ id: watchedWallets.id, address: watchedWallets.address, chain: watchedWallets.chain })
+    .from(watchedWallets)
+    .where(or(isNull(watchedWallets.refreshed_at), lt(watchedWallets.refreshed_at, cutoff)))
+    .orderBy(sql`${watchedWallets.refreshed_at} asc nulls first`)
+    .limit(env.WATCHLIST_REFRESH_BATCH_SIZE);
+  if (due.length === 0) return 0;
+
+  for (const wallet of due) {
+    const chain = fromChainCode(wallet.chain);
+    // The queue's result handler stores the summary in the wallets table and the newest history entries
+    getChainDataProvider(chain).queueAddressHistoryLookup(chain, wallet.address, 0, { isUserRequest: false });
+  }
+  await db.update(watchedWallets)
+    .set({ refreshed_at: now })
+    .where(inArray(watchedWallets.id, due.map(wallet => wallet.id)));
+
+  logger.debug(`Queued background refresh of ${due.length} watched wallet(s)`);
+  return due.length;
+}
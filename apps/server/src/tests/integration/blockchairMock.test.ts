@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { startMockBlockchairServer } from '../../mock/blockchairMockServer.js';
+
+type MockServer = Awaited<ReturnType<typeof startMockBlockchairServer>>;
+
+async function configureMock(mock: MockServer, config: Record<string, unknown>) {
+  await fetch(`${mock.url}/__mock/config`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+}
+
+// Real timers here: wait for something the mock server does
+async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the mock server');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+const BTC_HASH = 'd717f14579b2aa100fbbb34fa593feaed27248b762e3ab5805f0765a2b9c1d7e';
+const BTC_ADDRESS = 'bc1q5vc97xyvkcgfqru7x3l6azrdceg8090vzdud4g';
+
+describe('Blockchair mock server', () => {
+  let mock: MockServer;
+
+  beforeAll(async () => {
+    mock = await startMockBlockchairServer();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    await configureMock(mock, { failure: 'none', latencyMs: 0, failureRate: 1 });
+    await fetch(`${mock.url}/__mock/requests`, { method: 'DELETE' });
+  });
+
+  it('serves stats from fixtures with a Blockchair context block', async () => {
+    const response = await fetch(`${mock.url}/stats`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.bitcoin.data.blocks).toBe(893412);
+    expect(body.data.ethereum.data.market_price_usd).toBe(2478.12);
+    expect(body.context.code).toBe(200);
+    expect(body.context.request_cost).toBe(1);
+  });
+
+  it('serves confirmed and mempool transaction listings separately', async () => {
+    const confirmed = await (await fetch(`${mock.url}/bitcoin/transactions?limit=2`)).json();
+    const mempool = await (await fetch(`${mock.url}/bitcoin/mempool/transactions`)).json();
+
+    expect(confirmed.data).toHaveLength(2);
+    expect(confirmed.data.every((tx: any) => tx.block_id > 0)).toBe(true);
+    expect(mempool.data.every((tx: any) => tx.block_id === -1)).toBe(true);
+  });
+
+  it('serves single and batched transaction dashboards', async () => {
+    const single = await (await fetch(`${mock.url}/bitcoin/dashboards/transaction/${BTC_HASH}`)).json();
+    expect(single.data[BTC_HASH].inputs.length).toBeGreaterThan(0);
+
+    const batch = await (await fetch(`${mock.url}/bitcoin/dashboards/transactions/${BTC_HASH},unknown`)).json();
+    expect(Object.keys(batch.data)).toEqual([BTC_HASH]);
+  });
+
+  it('pages address transactions and answers unknown addresses with an empty record', async () => {
+    const known = await (await fetch(`${mock.url}/bitcoin/dashboards/address/${BTC_ADDRESS}?limit=1`)).json();
+    expect(known.data[BTC_ADDRESS].transactions).toHaveLength(1);
+    expect(known.data[BTC_ADDRESS].address.transaction_count).toBe(2);
+
+    const unknown = await (await fetch(`${mock.url}/ethereum/dashboards/address/0x0000000000000000000000000000000000000001`)).json();
+    expect(unknown.data['0x0000000000000000000000000000000000000001'].address.balance).toBe('0');
+  });
+
+  it('simulates rate limiting with Retry-After', async () => {
+    await fetch(`${mock.url}/__mock/config`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ failure: 'rate-limit-430', retryAfterSeconds: 30 }),
+    });
+
+    const response = await fetch(`${mock.url}/stats`);
+    const body = await response.json();
+
+    expect(response.status).toBe(430);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect(body.context.code).toBe(430);
+  });
+
+  it('simulates 429 rate limits and server errors', async () => {
+    await configureMock(mock, { failure: 'rate-limit-429', retryAfterSeconds: 5 });
+    const limited = await fetch(`${mock.url}/bitcoin/transactions`);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('5');
+
+    await configureMock(mock, { failure: 'server-error' });
+    const failed = await fetch(`${mock.url}/bitcoin/transactions`);
+    expect(failed.status).toBe(500);
+    expect((await failed.json()).context.error).toBe('Internal server error');
+  });
+
+  it('simulates malformed payloads and latency', async () => {
+    await fetch(`${mock.url}/__mock/config`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ failure: 'malformed', latencyMs: 50 }),
+    });
+
+    const started = Date.now();
+    const response = await fetch(`${mock.url}/stats`);
+    await expect(response.json()).rejects.toThrow();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('records every request it receives', async () => {
+    await fetch(`${mock.url}/ethereum/transactions`);
+    const log = await (await fetch(`${mock.url}/__mock/requests`)).json();
+
+    expect(log).toHaveLength(1);
+    expect(log[0].path).toBe('/ethereum/transactions');
+  });
+});
+
+describe('Blockchair provider against the mock server', () => {
+  let mock: MockServer;
+
+  beforeAll(async () => {
+    mock = await startMockBlockchairServer();
+    // env.ts reads these at import time: the mock's URL, room for retries within the
+    // keyless one-request-per-minute limit, and one retry before a request fails
+    process.env.BLOCKCHAIR_API_URL = mock.url;
+    process.env.BLOCKCHAIR_BURST = '10';
+    process.env.QUEUE_MAX_ATTEMPTS = '2';
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  it('normalizes stats fetched through the request queue', async () => {
+    const { getChainDataProvider } = await import('../../services/providers/index.js');
+
+    const [bitcoin, ethereum] = await Promise.all([
+      getChainDataProvider('bitcoin').getStats('bitcoin'),
+      getChainDataProvider('ethereum').getStats('ethereum'),
+    ]);
+
+    expect(bitcoin.blocks).toBe(893412);
+    expect(bitcoin.mempool_transactions).toBe(5123);
+    expect(ethereum.market_price_usd).toBe(2478.12);
+    // Both chains were answered by a single /stats call
+    expect(mock.requestLog.filter(entry => entry.path === '/stats')).toHaveLength(1);
+  });
+
+  it('retries a 429 once the Retry-After delay has passed', async () => {
+    const { getChainDataProvider } = await import('../../services/providers/index.js');
+    await configureMock(mock, { failure: 'rate-limit-429', retryAfterSeconds: 1 });
+
+    const started = Date.now();
+    const lookup = getChainDataProvider('bitcoin').getAddress('bitcoin', BTC_ADDRESS, { isUserRequest: true });
+    await waitFor(() => mock.requestLog.some(entry => entry.failed));
+    await configureMock(mock, { failure: 'none' });
+
+    const summary = await lookup;
+    expect(summary).toMatchObject({ address: BTC_ADDRESS, transaction_count: 2 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    const calls = mock.requestLog.filter(entry => entry.path.includes(BTC_ADDRESS));
+    expect(calls.map(entry => entry.failed)).toEqual([true, false]);
+  });
+
+  it('fails a request once the 5xx responses use up its attempts', async () => {
+    const { getChainDataProvider } = await import('../../services/providers/index.js');
+    const { blockchairQueue } = await import('../../services/blockchairRequestQueue.js');
+    await configureMock(mock, { failure: 'server-error' });
+
+    await expect(getChainDataProvider('bitcoin').getTransaction('bitcoin', BTC_HASH, { isUserRequest: true }))
+      .rejects.toThrow('API error: 500');
+    expect(mock.requestLog.filter(entry => entry.path.includes(BTC_HASH))).toHaveLength(2);
+    expect(blockchairQueue.getStatus().backoffStatus.lastError).toMatchObject({ status: 500, retryable: true });
+  });
+});
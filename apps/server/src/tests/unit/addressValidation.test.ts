@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keccak256,
+  looksLikeAddress,
+  parseChainCode,
+  validateAddress,
+  validateTransactionHash,
+} from '../../services/addressValidation.js';
+
+describe('validateAddress', () => {
+  it('recognizes Bitcoin and Ethereum addresses', () => {
+    expect(validateAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toEqual({ chain: 'BTC', address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa' });
+    expect(validateAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toEqual({ chain: 'BTC', address: '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy' });
+    expect(validateAddress('bc1q5vc97xyvkcgfqru7x3l6azrdceg8090vzdud4g')).toEqual({ chain: 'BTC', address: 'bc1q5vc97xyvkcgfqru7x3l6azrdceg8090vzdud4g' });
+    // Taproot (bech32m)
+    expect(validateAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toMatchObject({ chain: 'BTC' });
+    expect(validateAddress('0x742d35Cc6634C0532925a3b844Bc454e4438f44e')).toMatchObject({ chain: 'ETH' });
+  });
+
+  it('normalizes case where it carries no meaning', () => {
+    expect(validateAddress(' 0x742d35Cc6634C0532925a3b844Bc454e4438f44e ')).toEqual({ chain: 'ETH', address: '0x742d35cc6634c0532925a3b844bc454e4438f44e' });
+    expect(validateAddress('BC1QAR0SRRR7XFKVY5L643LYDNW9RE59GTZZWF5MDQ')).toEqual({ chain: 'BTC', address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq' });
+  });
+
+  it('rejects bad checksums', () => {
+    expect(validateAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toEqual({ error: 'Invalid Bitcoin address checksum' });
+    expect(validateAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdp')).toEqual({ error: 'Invalid Bitcoin address checksum' });
+    expect(validateAddress('0x742d35cC6634C0532925a3b844Bc454e4438f44e')).toEqual({ error: 'Invalid Ethereum address checksum (EIP-55)' });
+    expect(validateAddress('Bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq')).toHaveProperty('error');
+  });
+
+  it('rejects anything else, and addresses of the other chain', () => {
+    expect(validateAddress('0x742d35')).toHaveProperty('error');
+    expect(validateAddress('not an address')).toHaveProperty('error');
+    expect(validateAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'ETH')).toEqual({ error: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa is a Bitcoin address, not Ethereum' });
+  });
+});
+
+describe('validateTransactionHash', () => {
+  const txid = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+  it('tells the chains apart by the 0x prefix', () => {
+    expect(validateTransactionHash(txid)).toEqual({ chain: 'BTC', hash: txid });
+    expect(validateTransactionHash(`0x${txid.toUpperCase()}`)).toEqual({ chain: 'ETH', hash: `0x${txid}` });
+  });
+
+  it('follows the requested chain for an unprefixed hash', () => {
+    expect(validateTransactionHash(txid, 'ETH')).toEqual({ chain: 'ETH', hash: `0x${txid}` });
+    expect(validateTransactionHash(`0x${txid}`, 'BTC')).toHaveProperty('error');
+    expect(validateTransactionHash(txid.slice(1))).toHaveProperty('error');
+  });
+});
+
+describe('looksLikeAddress', () => {
+  it('matches address shapes only', () => {
+    expect(looksLikeAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toBe(true);
+    expect(looksLikeAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdp')).toBe(true);
+    expect(looksLikeAddress('satoshi')).toBe(false);
+  });
+});
+
+describe('parseChainCode', () => {
+  it('accepts chain codes and names', () => {
+    expect(parseChainCode('eth')).toBe('ETH');
+    expect(parseChainCode('Bitcoin')).toBe('BTC');
+    expect(parseChainCode(undefined)).toBeUndefined();
+    expect(parseChainCode('DOGE')).toBeNull();
+  });
+});
+
+describe('keccak256', () => {
+  it('matches the Keccak-256 test vectors', () => {
+    expect(keccak256(Buffer.alloc(0)).toString('hex')).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(keccak256(Buffer.from('abc')).toString('hex')).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+});
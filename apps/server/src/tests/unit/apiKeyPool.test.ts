@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ApiKeyPool, maskApiKey } from '../../services/apiKeyPool.js';
+
+const START = Date.UTC(2025, 0, 1, 12, 0, 0);
+const CONFIG = { requestsPerMinute: 1, dailyBudget: 10, burst: 1 };
+const COOLDOWN_MS = 10 * 60 * 1000;
+
+describe('ApiKeyPool', () => {
+  it('uses a single keyless slot when no keys are configured', () => {
+    const pool = new ApiKeyPool([], CONFIG, COOLDOWN_MS, START);
+
+    const slot = pool.acquire(START);
+    expect(slot?.key).toBeNull();
+    expect(pool.acquire(START)).toBeNull();
+    expect(pool.getWaitTime(START)).toBe(60000);
+  });
+
+  it('spreads requests over the keys with capacity left', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111', 'key-bbbb-2222'], CONFIG, COOLDOWN_MS, START);
+
+    const first = pool.acquire(START);
+    const second = pool.acquire(START);
+    expect(first?.key).not.toBe(second?.key);
+    expect(pool.acquire(START)).toBeNull();
+    // Two keys at one request per minute each
+    expect(pool.estimateWait(2, START)).toBe(60000 + 2 * 30000);
+  });
+
+  it('prefers the key with the most daily budget left', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111', 'key-bbbb-2222'], CONFIG, COOLDOWN_MS, START);
+    const [spent] = pool.slots;
+    pool.charge(spent, 5, START);
+
+    expect(pool.acquire(START)?.key).toBe('key-bbbb-2222');
+  });
+
+  it('takes a key out of rotation after a quota response', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111', 'key-bbbb-2222'], CONFIG, COOLDOWN_MS, START);
+    const slot = pool.acquire(START)!;
+    pool.recordError(slot, 430, START);
+
+    const later = START + 5 * 60000;
+    expect(pool.acquire(later)?.key).not.toBe(slot.key);
+    expect(pool.acquire(later)).toBeNull();
+
+    const status = pool.getStatus(later).find(key => key.id === slot.id)!;
+    expect(status.coolingDown).toBe(true);
+    expect(status.totalErrors).toBe(1);
+    expect(status.lastErrorStatus).toBe(430);
+
+    expect(pool.acquire(START + COOLDOWN_MS)?.key).toBe(slot.key);
+  });
+
+  it('cools a key down for as long as Retry-After asks', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111'], CONFIG, COOLDOWN_MS, START);
+    const slot = pool.acquire(START)!;
+    pool.recordError(slot, 429, START, 90000);
+
+    expect(pool.getStatus(START)[0].cooldownUntil).toBe(new Date(START + 90000).toISOString());
+    expect(pool.acquire(START + 90000)?.key).toBe(slot.key);
+  });
+
+  it('does not cool down on other errors', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111'], CONFIG, COOLDOWN_MS, START);
+    const slot = pool.acquire(START)!;
+    pool.recordError(slot, 500, START);
+
+    expect(pool.getStatus(START)[0].coolingDown).toBe(false);
+  });
+
+  it('restores usage per key and never exposes the full key', () => {
+    const pool = new ApiKeyPool(['key-aaaa-1111'], CONFIG, COOLDOWN_MS, START);
+    pool.acquire(START);
+
+    const restored = new ApiKeyPool(['key-aaaa-1111'], CONFIG, COOLDOWN_MS, START);
+    restored.restoreState(pool.toState(), START);
+    const [status] = restored.getStatus(START);
+    expect(status.totalRequests).toBe(1);
+    expect(status.dailySpent).toBe(1);
+    expect(status.id).toBe(maskApiKey('key-aaaa-1111'));
+    expect(JSON.stringify(restored.getStatus(START))).not.toContain('key-aaaa-1111');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+// chainDataStore loads the provider registry first, as the server does
+import { toTransactionPartRecords } from '../../services/chainDataStore.js';
+import { normalizeBlockchairStats, normalizeBlockchairTransaction } from '../../services/providers/blockchairProvider.js';
+
+const BTC_HASH = 'd717f14579b2aa100fbbb34fa593feaed27248b762e3ab5805f0765a2b9c1d7e';
+const ETH_HASH = '0xe863c8b6c0337ae32d6fcaa25516cdf2f8b8657666bef215b9282bfe20072697';
+
+function fixture(chain: string) {
+  return JSON.parse(readFileSync(new URL(`../../../fixtures/blockchair/${chain}/transaction-details.json`, import.meta.url), 'utf8')).data;
+}
+
+describe('normalizeBlockchairTransaction inputs and outputs', () => {
+  it('keeps every Bitcoin input and output with its spent references', () => {
+    const details = fixture('bitcoin')[BTC_HASH];
+    const tx = normalizeBlockchairTransaction('bitcoin', details.transaction, details);
+
+    expect(tx.inputs).toEqual([{
+      index: 0,
+      address: '18ZaVcAT9uahY1jsgF4MQSE7TiZrCjgR3v',
+      value: '150000000',
+      script_type: 'pubkeyhash',
+      spent_transaction_hash: '0000000000000000000000000000000000000000000000000000000000000000',
+      spent_output_index: 0,
+    }]);
+    expect(tx.outputs.map(output => [output.index, output.address, output.value])).toEqual([
+      [0, 'bc1q5vc97xyvkcgfqru7x3l6azrdceg8090vzdud4g', '120000000'],
+      [1, '18ZaVcAT9uahY1jsgF4MQSE7TiZrCjgR3v', '29985000'],
+    ]);
+    expect(tx.outputs[0].spent_by_transaction_hash).toBeNull();
+
+    const records = toTransactionPartRecords(tx);
+    expect(records.outputs.every(output => output.transaction_hash === BTC_HASH)).toBe(true);
+  });
+
+  it('has no parts for a listing row without details', () => {
+    const tx = normalizeBlockchairTransaction('bitcoin', { hash: BTC_HASH, block_id: 1, time: '2025-05-10 11:58:21' });
+    expect(tx.inputs).toEqual([]);
+    expect(tx.outputs).toEqual([]);
+  });
+
+  it('models an Ethereum transfer as one input and one output', () => {
+    const details = fixture('ethereum')[ETH_HASH];
+    const tx = normalizeBlockchairTransaction('ethereum', details.transaction, details);
+
+    expect(tx.inputs).toHaveLength(1);
+    expect(tx.inputs[0]).toMatchObject({ address: '0x42845de82a5bc539888ac78054a2399ccfc9fcc2', value: '1250000000000000000' });
+    expect(tx.outputs[0]).toMatchObject({ address: '0xda31ce3dd166bdcd3a33847e5bbb07fd07ca4778', value: '1250000000000000000' });
+  });
+});
+
+describe('normalizeBlockchairStats', () => {
+  const response = JSON.parse(readFileSync(new URL('../../../fixtures/blockchair/stats.json', import.meta.url), 'utf8'));
+
+  it('extracts typed Bitcoin stats', () => {
+    const { raw, ...stats } = normalizeBlockchairStats('bitcoin', response);
+    expect(stats).toEqual({
+      chain: 'bitcoin',
+      blocks: 893412,
+      blocks_24h: 146,
+      hashrate: '812345678901234567890',
+      difficulty: 121507793131898.1,
+      mempool_transactions: 5123,
+      market_price_usd: 103512,
+      average_transaction_fee_usd_24h: 1.47,
+      volume_24h: '78455123000000',
+      suggested_fee: 3,
+    });
+    expect(raw.best_block_height).toBe(893411);
+  });
+
+  it('keeps wei amounts as strings and takes the normal gas price suggestion', () => {
+    const stats = normalizeBlockchairStats('ethereum', response);
+    expect(stats.volume_24h).toBe('2345678901234567890123456');
+    expect(stats.suggested_fee).toBe(2);
+    expect(stats.market_price_usd).toBe(2478.12);
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { blockchairQueue, RequestPriority } from '../../services/blockchairRequestQueue.js';
+
+// The queue spaces real requests a minute apart, so time is simulated.
+// One fake clock for the whole file: the queue is a singleton and its rate limiter
+// must not see time go backwards between tests.
+const RATE_LIMIT_MS = 60000;
+
+beforeAll(() => {
+  vi.useFakeTimers();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe('BlockchairRequestQueue coalescing', () => {
+  const calls: Array<Record<string, any>> = [];
+  const stored: string[] = [];
+
+  beforeAll(() => {
+    blockchairQueue.registerOperation('test.echo', async params => {
+      calls.push(params);
+      return { echoed: params.value };
+    });
+    blockchairQueue.registerResultHandler('test.store', async (result, context) => {
+      stored.push(`${context.caller}:${result.echoed}`);
+    });
+  });
+
+  it('attaches duplicates of a pending request to the same call and id', async () => {
+    const first = blockchairQueue.addRequest({ kind: 'test.echo', params: { value: 'a' } }, false, 'first');
+    const second = blockchairQueue.addRequest({ kind: 'test.echo', params: { value: 'a' } }, true, 'second');
+
+    expect(second.id).toBe(first.id);
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+
+    await expect(first).resolves.toEqual({ echoed: 'a' });
+    await expect(second).resolves.toEqual({ echoed: 'a' });
+    expect(calls.filter(params => params.value === 'a')).toHaveLength(1);
+  });
+
+  it('treats params with the same content in a different order as one request', async () => {
+    const first = blockchairQueue.addRequest({ kind: 'test.echo', params: { value: 'b', limit: 10 } });
+    const second = blockchairQueue.addRequest({ kind: 'test.echo', params: { limit: 10, value: 'b' } });
+
+    expect(second.id).toBe(first.id);
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await Promise.all([first, second]);
+    expect(calls.filter(params => params.value === 'b')).toHaveLength(1);
+  });
+
+  it('answers an exact repeat from the response cache without another call', async () => {
+    // Let the rate limit window pass first, so the original runs right away and its
+    // response is still fresh for the repeat
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const original = blockchairQueue.addRequest({ kind: 'test.echo', params: { value: 'c' } });
+    await vi.advanceTimersByTimeAsync(1000);
+    await original;
+
+    const repeat = blockchairQueue.addRequest({ kind: 'test.echo', params: { value: 'c' } });
+    expect(repeat.id).not.toBe(original.id);
+    await expect(repeat).resolves.toEqual({ echoed: 'c' });
+    expect(calls.filter(params => params.value === 'c')).toHaveLength(1);
+
+    const status = await blockchairQueue.getRequestStatus(repeat.id);
+    expect(status?.status).toBe('done');
+  });
+
+  it('runs the result handler of every coalesced caller', async () => {
+    const first = blockchairQueue.addRequest({
+      kind: 'test.echo',
+      params: { value: 'd' },
+      onResult: { name: 'test.store', context: { caller: 'scheduler' } },
+    });
+    const second = blockchairQueue.addRequest({
+      kind: 'test.echo',
+      params: { value: 'd' },
+      onResult: { name: 'test.store', context: { caller: 'user' } },
+    });
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await Promise.all([first, second]);
+    expect(stored).toEqual(['scheduler:d', 'user:d']);
+  });
+
+  it('does not coalesce plain function requests', async () => {
+    const fn = vi.fn(async () => 'plain');
+    const first = blockchairQueue.addRequest(fn);
+    const second = blockchairQueue.addRequest(fn);
+
+    expect(second.id).not.toBe(first.id);
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 2);
+    await Promise.all([first, second]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('BlockchairRequestQueue cancellation', () => {
+  const calls: string[] = [];
+
+  beforeAll(() => {
+    blockchairQueue.registerOperation('test.record', async params => {
+      calls.push(params.value);
+      return { recorded: params.value };
+    });
+  });
+
+  it('cancels a pending request by id without calling the API', async () => {
+    const request = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'cancel-me' } }, true);
+    const outcome = expect(request).rejects.toThrow('Request cancelled');
+
+    expect(blockchairQueue.cancel(request.id)).toBe('cancelled');
+    await outcome;
+    expect(blockchairQueue.cancel(request.id)).toBe('finished');
+    expect(blockchairQueue.cancel('unknown-id')).toBe('not_found');
+    expect((await blockchairQueue.getRequestStatus(request.id))?.status).toBe('cancelled');
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 2);
+    expect(calls).not.toContain('cancel-me');
+  });
+
+  it('only cancels once every coalesced caller has aborted', async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'shared' } }, true, 'a', { signal: first.signal });
+    const b = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'shared' } }, true, 'b', { signal: second.signal });
+    const c = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'abandoned' } }, true, 'c', { signal: second.signal });
+    const cOutcome = expect(c).rejects.toThrow('Request cancelled');
+
+    first.abort();
+    await expect(a).rejects.toThrow('Request cancelled');
+    second.abort();
+    await cOutcome;
+    await expect(b).rejects.toThrow('Request cancelled');
+    expect((await blockchairQueue.getRequestStatus(b.id))?.status).toBe('cancelled');
+
+    // A caller without a signal keeps the request alive
+    const kept = new AbortController();
+    const d = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'kept' } }, true);
+    const e = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'kept' } }, true, 'e', { signal: kept.signal });
+    kept.abort();
+    await expect(e).rejects.toThrow('Request cancelled');
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 2);
+    await expect(d).resolves.toEqual({ recorded: 'kept' });
+    expect(calls).toEqual(['kept']);
+  });
+
+  it('drops requests past their deadline and requests for pages nobody views', async () => {
+    // Takes the free slot, so the others have to wait for the next one
+    const blocker = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'blocker' } }, true);
+    const expired = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'expired' } }, false, 'expired', {
+      deadline: Date.now() + 1000,
+    });
+    const unwatched = blockchairQueue.addRequest({ kind: 'test.record', params: { value: 'unwatched' } }, false, 'unwatched', {
+      page: 'transactions',
+    });
+    const outcomes = Promise.all([
+      expect(expired).rejects.toThrow('deadline passed'),
+      expect(unwatched).rejects.toThrow('transactions page'),
+    ]);
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 2);
+    await outcomes;
+    await blocker;
+    expect(calls).not.toContain('expired');
+    expect(calls).not.toContain('unwatched');
+  });
+});
+
+describe('BlockchairRequestQueue administration', () => {
+  const calls: string[] = [];
+
+  beforeAll(() => {
+    blockchairQueue.registerOperation('test.admin', async params => {
+      calls.push(params.value);
+      return { value: params.value };
+    });
+  });
+
+  it('reorders pending items when their priority changes', async () => {
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const blocker = blockchairQueue.addRequest({ kind: 'test.admin', params: { value: 'blocker' } }, true);
+    await vi.advanceTimersByTimeAsync(0);
+    const first = blockchairQueue.addRequest({ kind: 'test.admin', params: { value: 'first' } }, true);
+    const second = blockchairQueue.addRequest({ kind: 'test.admin', params: { value: 'second' } }, false);
+
+    expect(blockchairQueue.setPriority(second.id, RequestPriority.CRITICAL_REQUEST)).toBe('updated');
+    const order = blockchairQueue.listItems().map(item => item.id);
+    expect(order.indexOf(second.id)).toBeLessThan(order.indexOf(first.id));
+    expect(blockchairQueue.getItem(second.id)?.priority).toBe('critical');
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 3);
+    await Promise.all([blocker, first, second]);
+    expect(calls).toEqual(['blocker', 'second', 'first']);
+    expect(blockchairQueue.setPriority(first.id, RequestPriority.USER_REQUEST)).toBe('not_pending');
+    expect(blockchairQueue.getHistory()[0].id).toBe(first.id);
+  });
+
+  it('lifts the global pause once the user critical request has run', async () => {
+    const events: string[] = [];
+    const unsubscribe = blockchairQueue.subscribe(event => events.push(event.type));
+    const request = blockchairQueue.addUserCriticalRequest({ kind: 'test.admin', params: { value: 'critical' } }, 'critical');
+    expect(blockchairQueue.isGloballyPaused()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await expect(request).resolves.toEqual({ value: 'critical' });
+    expect(blockchairQueue.isGloballyPaused()).toBe(false);
+    expect(events).toContain('item');
+    expect(events).toContain('state');
+    unsubscribe();
+  });
+
+  it('ends the global pause when the user critical request is moved down', async () => {
+    blockchairQueue.pause();
+    const request = blockchairQueue.addUserCriticalRequest({ kind: 'test.admin', params: { value: 'demoted' } }, 'demoted');
+    expect(blockchairQueue.isGloballyPaused()).toBe(true);
+
+    expect(blockchairQueue.setPriority(request.id, RequestPriority.USER_REQUEST)).toBe('updated');
+    expect(blockchairQueue.isGloballyPaused()).toBe(false);
+
+    blockchairQueue.resume();
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await expect(request).resolves.toEqual({ value: 'demoted' });
+  });
+
+  it('runs the next item after a pause during an in-flight request is lifted', async () => {
+    let finish: () => void = () => {};
+    blockchairQueue.registerOperation('test.held', async params => {
+      await new Promise<void>(resolve => { finish = resolve; });
+      return { value: params.value };
+    });
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const held = blockchairQueue.addRequest({ kind: 'test.held', params: { value: 'held' } }, true);
+    await vi.advanceTimersByTimeAsync(0);
+    const next = blockchairQueue.addRequest({ kind: 'test.admin', params: { value: 'next' } }, true);
+
+    blockchairQueue.pause();
+    finish();
+    await expect(held).resolves.toEqual({ value: 'held' });
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 2);
+    expect(calls).not.toContain('next');
+
+    blockchairQueue.resume();
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await expect(next).resolves.toEqual({ value: 'next' });
+  });
+});
+
+describe('BlockchairRequestQueue retries', () => {
+  const attempts: Record<string, number> = {};
+
+  beforeAll(() => {
+    // Fails with params.status until params.failures attempts have been made
+    blockchairQueue.registerOperation('test.flaky', async params => {
+      attempts[params.value] = (attempts[params.value] ?? 0) + 1;
+      if (attempts[params.value] <= params.failures) {
+        throw Object.assign(new Error(`API error: ${params.status}`), { status: params.status });
+      }
+      return { value: params.value };
+    });
+  });
+
+  it('retries a retryable error after backing off', async () => {
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const request = blockchairQueue.addRequest({ kind: 'test.flaky', params: { value: 'flaky', failures: 1, status: 503 } }, true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const retrying = blockchairQueue.getItem(request.id);
+    expect(retrying?.status).toBe('pending');
+    expect(retrying?.attempts).toBe(1);
+    const backoff = blockchairQueue.getStatus().backoffStatus;
+    expect(backoff.consecutiveErrors).toBe(1);
+    expect(backoff.lastError).toMatchObject({ status: 503, retryable: true });
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    await expect(request).resolves.toEqual({ value: 'flaky' });
+    expect(blockchairQueue.getItem(request.id)?.attempts).toBe(2);
+    expect(blockchairQueue.getStatus().backoffStatus.consecutiveErrors).toBe(0);
+  });
+
+  it('fails a non-retryable error without retrying', async () => {
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const request = blockchairQueue.addRequest({ kind: 'test.flaky', params: { value: 'missing', failures: 5, status: 404 } }, true);
+    const outcome = expect(request).rejects.toThrow('API error: 404');
+
+    await vi.advanceTimersByTimeAsync(0);
+    await outcome;
+    expect(attempts.missing).toBe(1);
+    expect(blockchairQueue.getStatus().backoffStatus.consecutiveErrors).toBe(0);
+  });
+
+  it('gives up once the attempts are used up', async () => {
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS);
+    const request = blockchairQueue.addRequest({ kind: 'test.flaky', params: { value: 'down', failures: 5, status: 502 } }, true);
+    const outcome = expect(request).rejects.toThrow('API error: 502');
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT_MS * 3);
+    await outcome;
+    expect(attempts.down).toBe(3);
+    expect(blockchairQueue.getItem(request.id)).toMatchObject({ status: 'error', attempts: 3 });
+    expect(blockchairQueue.getStatus().backoffStatus.consecutiveErrors).toBe(3);
+  });
+});
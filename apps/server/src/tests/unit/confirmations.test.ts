@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { countConfirmations, hasFinality } from '../../services/confirmations.js';
+
+describe('countConfirmations', () => {
+  it('counts the block itself and every block on top of it', () => {
+    expect(countConfirmations('893400', 893400)).toBe(1);
+    expect(countConfirmations(893395, 893400)).toBe(6);
+    // Mined in a block newer than the tip we know of
+    expect(countConfirmations('893401', 893400)).toBe(1);
+  });
+
+  it('has none while unmined and is unknown without a tip', () => {
+    expect(countConfirmations(null, 893400)).toBe(0);
+    expect(countConfirmations(null, null)).toBe(0);
+    expect(countConfirmations('893400', null)).toBeNull();
+  });
+});
+
+describe('hasFinality', () => {
+  it('sorts confirmation counts into finality levels', () => {
+    expect(hasFinality(0, 'unconfirmed')).toBe(true);
+    expect(hasFinality(0, 'confirmed')).toBe(false);
+    expect(hasFinality(5, 'confirmed')).toBe(true);
+    expect(hasFinality(5, 'final')).toBe(false);
+    expect(hasFinality(6, 'final')).toBe(true);
+  });
+
+  it('treats a mined transaction without a known tip as confirmed but not final', () => {
+    expect(hasFinality(null, 'unconfirmed')).toBe(false);
+    expect(hasFinality(null, 'confirmed')).toBe(true);
+    expect(hasFinality(null, 'final')).toBe(false);
+  });
+});
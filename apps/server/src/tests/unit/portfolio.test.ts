@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { summarizePortfolio, toUsd, type PortfolioPeriodStart } from '../../services/portfolio.js';
+
+const btcWallet = { id: 1, address: '12a9g1TGgkNNV19d2JpwxTPsUUnpamrXwG', chain: 'BTC' as const, name: 'Cold storage', balance: '50000000' };
+const ethWallet = { id: 2, address: '0x742d35cc6634c0532925a3b844bc454e4438f44e', chain: 'ETH' as const, name: null, balance: '2000000000000000000' };
+
+function unchanged(prices: PortfolioPeriodStart['prices']): PortfolioPeriodStart {
+  return { balances: new Map(), prices };
+}
+
+describe('toUsd', () => {
+  it('converts the smallest unit at the chain decimals', () => {
+    expect(toUsd('150000000', 'BTC', 60000)).toBe(90000);
+    expect(toUsd('-500000000000000000', 'ETH', 3000)).toBe(-1500);
+    expect(toUsd('1', 'BTC', null)).toBeNull();
+    expect(toUsd('0', 'ETH', null)).toBe(0);
+  });
+});
+
+describe('summarizePortfolio', () => {
+  it('values holdings per chain and splits the allocation', () => {
+    const prices = { BTC: 60000, ETH: 3000 };
+    const portfolio = summarizePortfolio([btcWallet, ethWallet], prices, {
+      change_24h: unchanged(prices),
+      change_7d: unchanged(prices),
+    });
+
+    expect(portfolio.total_value_usd).toBe(36000);
+    expect(portfolio.chains).toEqual([
+      expect.objectContaining({ chain: 'BTC', wallet_count: 1, balance: '50000000', value_usd: 30000, allocation: 30000 / 36000 }),
+      expect.objectContaining({ chain: 'ETH', wallet_count: 1, balance: '2000000000000000000', value_usd: 6000, allocation: 6000 / 36000 }),
+    ]);
+    expect(portfolio.wallets[1]).toMatchObject({ id: 2, value_usd: 6000, allocation: 6000 / 36000 });
+    expect(portfolio.change_24h).toEqual({ start_value_usd: 36000, change_usd: 0, change_percent: 0 });
+  });
+
+  it('compares with the balances and prices at the start of the period', () => {
+    const portfolio = summarizePortfolio([btcWallet, ethWallet], { BTC: 60000, ETH: 3000 }, {
+      // The BTC wallet held 1 BTC a day ago; the ETH wallet has no snapshot then and counts as unchanged
+      change_24h: { balances: new Map([[btcWallet.address, '100000000']]), prices: { BTC: 50000, ETH: 2000 } },
+      change_7d: unchanged({ BTC: null, ETH: 2500 }),
+    });
+
+    expect(portfolio.chains[0].change_24h).toEqual({ start_value_usd: 50000, change_usd: -20000, change_percent: -40 });
+    expect(portfolio.chains[1].change_24h).toEqual({ start_value_usd: 4000, change_usd: 2000, change_percent: 50 });
+    expect(portfolio.change_24h).toMatchObject({ start_value_usd: 54000, change_usd: -18000 });
+    expect(portfolio.change_24h?.change_percent).toBeCloseTo(-33.33);
+    // Without a BTC price a week ago neither BTC nor the total has a 7d change
+    expect(portfolio.chains[0].change_7d).toBeNull();
+    expect(portfolio.chains[1].change_7d).toMatchObject({ change_usd: 1000 });
+    expect(portfolio.change_7d).toBeNull();
+  });
+
+  it('leaves values unknown before the first price', () => {
+    const prices = { BTC: null, ETH: 3000 };
+    const portfolio = summarizePortfolio([btcWallet, { ...ethWallet, balance: null }], prices, {
+      change_24h: unchanged(prices),
+      change_7d: unchanged(prices),
+    });
+
+    expect(portfolio.total_value_usd).toBeNull();
+    expect(portfolio.chains[1]).toMatchObject({ balance: '0', value_usd: 0, allocation: null });
+    expect(portfolio.wallets.map(wallet => wallet.value_usd)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { TokenBucketRateLimiter, getRequestCost, resolveRateLimitConfig } from '../../services/rateLimiter.js';
+
+const START = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+describe('TokenBucketRateLimiter', () => {
+  it('lets the first request through and spaces the next by the interval', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 1, dailyBudget: 100, burst: 1 }, START);
+
+    expect(limiter.getWaitTime(1, START)).toBe(0);
+    limiter.consume(1, START);
+    expect(limiter.getWaitTime(1, START)).toBe(60000);
+    expect(limiter.getWaitTime(1, START + 45000)).toBe(15000);
+    expect(limiter.getWaitTime(1, START + 60000)).toBe(0);
+  });
+
+  it('allows a burst after an idle period', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60, dailyBudget: 100, burst: 3 }, START);
+
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.getWaitTime(1, START)).toBe(0);
+      limiter.consume(1, START);
+    }
+    expect(limiter.getWaitTime(1, START)).toBe(1000);
+  });
+
+  it('delays further requests after an expensive call', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60, dailyBudget: 100, burst: 1 }, START);
+
+    limiter.consume(5, START);
+    // Four tokens of debt plus the next request's own token
+    expect(limiter.getWaitTime(1, START)).toBe(5000);
+  });
+
+  it('waits for the UTC day to roll over once the daily budget is spent', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60, dailyBudget: 2, burst: 5 }, START);
+
+    limiter.consume(2, START);
+    const status = limiter.getStatus(START);
+    expect(status.dailyRemaining).toBe(0);
+    expect(status.dailyResetAt).toBe('2025-01-02T00:00:00.000Z');
+    expect(limiter.getWaitTime(1, START)).toBe(12 * 60 * 60 * 1000);
+
+    const nextDay = Date.UTC(2025, 0, 2, 0, 0, 1);
+    expect(limiter.getWaitTime(1, nextDay)).toBe(0);
+    expect(limiter.getStatus(nextDay).dailyRemaining).toBe(2);
+  });
+
+  it('keeps the user reserve out of reach of background requests', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60, dailyBudget: 10, burst: 5, userReserveShare: 0.2 }, START);
+
+    // One of five burst tokens is reserved for users
+    for (let i = 0; i < 4; i++) {
+      expect(limiter.getWaitTime(1, START, 'system')).toBe(0);
+      limiter.consume(1, START);
+    }
+    expect(limiter.getWaitTime(1, START, 'system')).toBe(1000);
+    expect(limiter.getWaitTime(1, START, 'user')).toBe(0);
+
+    // Two of ten daily units are reserved for users
+    limiter.consume(4, START + 60000);
+    expect(limiter.getWaitTime(1, START + 120000, 'system')).toBe(12 * 60 * 60 * 1000 - 120000);
+    expect(limiter.getWaitTime(1, START + 120000, 'user')).toBe(0);
+  });
+
+  it('restores persisted state', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 1, dailyBudget: 100, burst: 1 }, START);
+    limiter.consume(3, START);
+
+    const restored = new TokenBucketRateLimiter(limiter.config, START + 1000);
+    restored.restoreState(limiter.toState(), START + 1000);
+    expect(restored.getStatus(START + 1000).dailySpent).toBe(3);
+    expect(restored.getWaitTime(1, START + 1000)).toBe(limiter.getWaitTime(1, START + 1000));
+  });
+});
+
+describe('rate limit config', () => {
+  it('uses tier defaults unless overridden', () => {
+    expect(resolveRateLimitConfig('free')).toEqual({ requestsPerMinute: 1, dailyBudget: 1440, burst: 1, userReserveShare: 0 });
+    expect(resolveRateLimitConfig('paid', { throttleMs: 500, dailyBudget: null, userReserveShare: 0.2 })).toEqual({
+      requestsPerMinute: 120,
+      dailyBudget: 10000,
+      burst: 5,
+      userReserveShare: 0.2,
+    });
+  });
+
+  it('reads the request cost from the Blockchair context', () => {
+    expect(getRequestCost({ data: {}, context: { request_cost: 2.5 } })).toBe(2.5);
+    expect(getRequestCost({ data: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { classifyRequestError, parseRetryAfter } from '../../services/requestErrors.js';
+
+describe('parseRetryAfter', () => {
+  const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+  it('reads delay-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(new Date(now + 30000).toUTCString(), now)).toBe(30000);
+    expect(parseRetryAfter(new Date(now - 30000).toUTCString(), now)).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('classifyRequestError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(classifyRequestError({ status: 430, retryAfterMs: 5000, message: 'limit' }))
+      .toEqual({ retryable: true, status: 430, retryAfterMs: 5000, message: 'limit' });
+    expect(classifyRequestError({ status: 503 }).retryable).toBe(true);
+    expect(classifyRequestError(Object.assign(new Error('socket hang up'), { name: 'FetchError' })).retryable).toBe(true);
+  });
+
+  it('treats other client errors as fatal', () => {
+    expect(classifyRequestError({ status: 404 }).retryable).toBe(false);
+    expect(classifyRequestError(new Error('Unknown operation')).retryable).toBe(false);
+  });
+});
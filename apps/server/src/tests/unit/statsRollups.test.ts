@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { bucketStart, pickResolution, toRollupRows, RESOLUTION_MS } from '../../services/statsRollups.js';
+import type { BlockchainStats } from '../../../../shared/stats.js';
+
+const SNAPSHOT: BlockchainStats = {
+  timestamp: '2025-05-10T11:58:21.000Z',
+  bitcoin_blocks: 893412,
+  bitcoin_blocks_24h: 146,
+  bitcoin_hashrate: '812345678901234567890',
+  bitcoin_difficulty: null,
+  bitcoin_mempool_transactions: 5123,
+  bitcoin_market_price_usd: 103512,
+  bitcoin_average_transaction_fee_usd_24h: null,
+  bitcoin_volume_24h: null,
+  bitcoin_suggested_fee: null,
+  ethereum_blocks: 22456789,
+  ethereum_blocks_24h: null,
+  ethereum_hashrate: '0',
+  ethereum_difficulty: null,
+  ethereum_mempool_transactions: 182,
+  ethereum_market_price_usd: 2478.12,
+  ethereum_average_transaction_fee_usd_24h: null,
+  ethereum_volume_24h: null,
+  ethereum_suggested_fee: null,
+};
+
+describe('stats rollups', () => {
+  it('puts a sample into its UTC minute, hour and day bucket', () => {
+    const time = new Date(SNAPSHOT.timestamp);
+    expect(bucketStart('1m', time).toISOString()).toBe('2025-05-10T11:58:00.000Z');
+    expect(bucketStart('1h', time).toISOString()).toBe('2025-05-10T11:00:00.000Z');
+    expect(bucketStart('1d', time).toISOString()).toBe('2025-05-10T00:00:00.000Z');
+  });
+
+  it('picks a coarser resolution for longer windows', () => {
+    expect(pickResolution(RESOLUTION_MS['1h'])).toBe('1m');
+    expect(pickResolution(24 * RESOLUTION_MS['1h'])).toBe('1h');
+    expect(pickResolution(7 * RESOLUTION_MS['1d'])).toBe('1h');
+    expect(pickResolution(60 * RESOLUTION_MS['1d'])).toBe('1d');
+  });
+
+  it('rolls up every metric that has a value', () => {
+    const rows = toRollupRows(SNAPSHOT);
+    const metrics = new Set(rows.map(row => row.metric));
+
+    expect(metrics.has('bitcoin_difficulty')).toBe(false);
+    expect(metrics.size).toBe(9);
+    expect(rows).toHaveLength(9 * 3);
+
+    const price = rows.find(row => row.metric === 'ethereum_market_price_usd' && row.resolution === '1h')!;
+    expect(price).toMatchObject({ min: 2478.12, max: 2478.12, avg: 2478.12, last: 2478.12, samples: 1 });
+    expect(price.bucket_start.toISOString()).toBe('2025-05-10T11:00:00.000Z');
+  });
+});
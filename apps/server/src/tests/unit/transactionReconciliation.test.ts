@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { classifyPendingTransaction } from '../../services/transactionReconciliation.js';
+import type { ChainTransaction } from '../../services/providers/index.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+function lookedUp(blockId: number | null): ChainTransaction {
+  return {
+    hash: 'abc',
+    chain: 'bitcoin',
+    block_id: blockId,
+    time: NOW,
+    value: '1000',
+    fee: '10',
+    sender: null,
+    receiver: null,
+    input_addresses: [],
+    output_addresses: [],
+    inputs: [],
+    outputs: [],
+    raw: {},
+  };
+}
+
+describe('classifyPendingTransaction', () => {
+  it('follows the provider while it knows the transaction', () => {
+    expect(classifyPendingTransaction({ found: lookedUp(900000), replacedBy: null, firstSeen: minutesAgo(5) }, NOW, 60))
+      .toBe('confirmed');
+    expect(classifyPendingTransaction({ found: lookedUp(null), replacedBy: null, firstSeen: minutesAgo(600) }, NOW, 60))
+      .toBe('pending');
+  });
+
+  it('marks a missing transaction replaced, or dropped after the grace period', () => {
+    expect(classifyPendingTransaction({ found: undefined, replacedBy: 'def', firstSeen: minutesAgo(5) }, NOW, 60))
+      .toBe('replaced');
+    expect(classifyPendingTransaction({ found: undefined, replacedBy: null, firstSeen: minutesAgo(30) }, NOW, 60))
+      .toBe('pending');
+    expect(classifyPendingTransaction({ found: undefined, replacedBy: null, firstSeen: minutesAgo(60) }, NOW, 60))
+      .toBe('dropped');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { resolveRetentionPolicy, type RetentionSettings } from '../../services/transactionRetention.js';
+
+const SETTINGS: RetentionSettings = {
+  maxTransactions: 1000,
+  maxTransactionsPerChain: { ETH: 5000 },
+  maxAgeDays: 30,
+  maxAgeDaysPerChain: { BTC: 90 },
+};
+
+describe('resolveRetentionPolicy', () => {
+  it('prefers the chain limits over the shared ones', () => {
+    expect(resolveRetentionPolicy('BTC', SETTINGS)).toEqual({ maxAgeDays: 90, maxCount: 1000 });
+    expect(resolveRetentionPolicy('ETH', SETTINGS)).toEqual({ maxAgeDays: 30, maxCount: 5000 });
+  });
+
+  it('has no limit where nothing is set', () => {
+    const settings = { ...SETTINGS, maxTransactions: null, maxAgeDays: null };
+    expect(resolveRetentionPolicy('ETH', settings)).toEqual({ maxAgeDays: null, maxCount: 5000 });
+    expect(resolveRetentionPolicy('BTC', settings)).toEqual({ maxAgeDays: 90, maxCount: null });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+// chainDataStore loads the provider registry first, as the server does
+import '../../services/chainDataStore.js';
+import { normalizeBlockchairAddress } from '../../services/providers/blockchairProvider.js';
+import { shouldTakeSnapshot, toWalletSnapshot } from '../../services/walletHistory.js';
+
+describe('toWalletSnapshot', () => {
+  it('returns the amounts as stored and an ISO timestamp', () => {
+    const snapshot = toWalletSnapshot({
+      id: 1,
+      address: '12a9g1TGgkNNV19d2JpwxTPsUUnpamrXwG',
+      chain: 'BTC',
+      taken_at: new Date('2025-05-10T12:00:00.000Z'),
+      balance: '4980000',
+      received: '7480000',
+      spent: '2500000',
+      transaction_count: 2,
+      balance_usd: 5154.9,
+    });
+
+    expect(snapshot).toEqual({
+      taken_at: '2025-05-10T12:00:00.000Z',
+      balance: '4980000',
+      received: '7480000',
+      spent: '2500000',
+      transaction_count: 2,
+      balance_usd: 5154.9,
+    });
+  });
+
+  it('keeps wei amounts of 1 ETH and more exact', () => {
+    const snapshot = toWalletSnapshot({
+      id: 2,
+      address: '0x42845de82a5bc539888ac78054a2399ccfc9fcc2',
+      chain: 'ETH',
+      taken_at: new Date('2025-05-10T12:00:00.000Z'),
+      balance: '2749958000000000000',
+      received: '4000000000000000000',
+      spent: '1250000000000000000',
+      transaction_count: 3,
+      balance_usd: 6814.73,
+    });
+
+    expect(snapshot).toMatchObject({ balance: '2749958000000000000', received: '4000000000000000000', spent: '1250000000000000000' });
+  });
+});
+
+describe('shouldTakeSnapshot', () => {
+  const now = new Date('2025-05-10T12:00:00.000Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  it('records changes of the balance or transaction count right away', () => {
+    const previous = { balance: '4980000', transaction_count: 2, taken_at: minutesAgo(1) };
+
+    expect(shouldTakeSnapshot(undefined, { balance: '4980000', transaction_count: 2 }, now, 15)).toBe(true);
+    expect(shouldTakeSnapshot(previous, { balance: '4980001', transaction_count: 2 }, now, 15)).toBe(true);
+    expect(shouldTakeSnapshot(previous, { balance: '4980000', transaction_count: 3 }, now, 15)).toBe(true);
+    expect(shouldTakeSnapshot(previous, { balance: '4980000', transaction_count: 2 }, now, 15)).toBe(false);
+  });
+
+  it('records an unchanged wallet again once the interval has passed', () => {
+    const previous = { balance: '4980000', transaction_count: 2, taken_at: minutesAgo(15) };
+
+    expect(shouldTakeSnapshot(previous, { balance: '4980000', transaction_count: 2 }, now, 15)).toBe(true);
+  });
+
+  it('compares wei amounts exactly', () => {
+    // Beyond what a double can tell apart
+    const previous = { balance: '2749958000000000000', transaction_count: 3, taken_at: minutesAgo(1) };
+
+    expect(shouldTakeSnapshot(previous, { balance: '2749958000000000000', transaction_count: 3 }, now, 15)).toBe(false);
+    expect(shouldTakeSnapshot(previous, { balance: '2749958000000000001', transaction_count: 3 }, now, 15)).toBe(true);
+  });
+});
+
+describe('normalizeBlockchairAddress', () => {
+  it('keeps the USD value Blockchair reports', () => {
+    const response = JSON.parse(readFileSync(new URL('../../../fixtures/blockchair/bitcoin/addresses.json', import.meta.url), 'utf8'));
+    const address = '12a9g1TGgkNNV19d2JpwxTPsUUnpamrXwG';
+    const summary = normalizeBlockchairAddress('bitcoin', address, { data: { [address]: response.data[address] } });
+
+    expect(summary).toMatchObject({ balance: '4980000', received: '7480000', spent: '2500000', balance_usd: 5154.9 });
+  });
+
+  it('keeps Ethereum balances of 1 ETH and more in wei', () => {
+    const response = JSON.parse(readFileSync(new URL('../../../fixtures/blockchair/ethereum/addresses.json', import.meta.url), 'utf8'));
+    const address = '0x42845de82a5bc539888ac78054a2399ccfc9fcc2';
+    const summary = normalizeBlockchairAddress('ethereum', address, { data: { [address]: response.data[address] } });
+
+    expect(summary).toMatchObject({ balance: '2749958000000000000', balance_usd: 6814.73 });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+// chainDataStore loads the provider registry first, as the server does
+import '../../services/chainDataStore.js';
+import { normalizeBlockchairAddressHistory } from '../../services/providers/blockchairProvider.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  historyOffsetToFetch,
+  mergeWalletTransactions,
+} from '../../services/walletTransactions.js';
+import type { WalletTransaction } from '../../../../shared/wallets.js';
+
+const tx = (hash: string, time: string, balance_change: string, status: WalletTransaction['status'] = null): WalletTransaction =>
+  ({ hash, block_number: null, time, balance_change, status });
+
+describe('mergeWalletTransactions', () => {
+  it('returns each hash once, newest first, with the provider balance change', () => {
+    const stored = [tx('b', '2025-05-10T12:00:00.000Z', '0', 'confirmed')];
+    const history = [tx('c', '2025-05-10T13:00:00.000Z', '500'), tx('b', '2025-05-10T12:00:00.000Z', '-300'), tx('a', '2025-05-09T00:00:00.000Z', '1000')];
+
+    const page = mergeWalletTransactions(stored, history, 2);
+    expect(page.transactions).toEqual([
+      tx('c', '2025-05-10T13:00:00.000Z', '500'),
+      tx('b', '2025-05-10T12:00:00.000Z', '-300', 'confirmed'),
+    ]);
+    expect(page.hasMore).toBe(true);
+    expect(mergeWalletTransactions(stored, history, 3).hasMore).toBe(false);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip the time and hash of a transaction', () => {
+    const cursor = encodeCursor(tx('0xabc', '2025-05-10T12:00:00.000Z', '0'));
+    expect(decodeCursor(cursor)).toEqual({ time: new Date('2025-05-10T12:00:00.000Z'), hash: '0xabc' });
+    expect(decodeCursor('nonsense')).toBeNull();
+  });
+});
+
+describe('historyOffsetToFetch', () => {
+  const now = new Date('2025-05-10T12:00:00.000Z');
+  const fresh = { fetched_count: 100, complete: false, synced_at: now };
+
+  it('fetches the first page of an unknown address and the next one when the cache runs out', () => {
+    expect(historyOffsetToFetch(undefined, true, true, now, 15)).toBe(0);
+    expect(historyOffsetToFetch(fresh, false, false, now, 15)).toBe(100);
+    expect(historyOffsetToFetch(fresh, false, true, now, 15)).toBeNull();
+    expect(historyOffsetToFetch({ ...fresh, complete: true }, false, false, now, 15)).toBeNull();
+  });
+
+  it('refetches the newest page for a stale first page', () => {
+    const stale = { ...fresh, synced_at: new Date(now.getTime() - 20 * 60 * 1000) };
+    expect(historyOffsetToFetch(stale, true, true, now, 15)).toBe(0);
+    expect(historyOffsetToFetch(stale, false, true, now, 15)).toBeNull();
+  });
+});
+
+describe('normalizeBlockchairAddressHistory', () => {
+  it('nets the Ethereum calls of each transaction', () => {
+    const address = '0x42845de82a5bc539888ac78054a2399ccfc9fcc2';
+    const response = {
+      data: {
+        [address]: {
+          calls: [
+            { block_id: 2, transaction_hash: '0xb', time: '2025-05-10 12:00:00', sender: address, recipient: '0x1', value: '300' },
+            { block_id: 2, transaction_hash: '0xb', time: '2025-05-10 12:00:00', sender: '0x1', recipient: address, value: '100' },
+            { block_id: -1, transaction_hash: '0xa', time: '2025-05-10 11:00:00', sender: '0x1', recipient: address, value: '50' },
+          ],
+        },
+      },
+    };
+
+    const page = normalizeBlockchairAddressHistory('ethereum', address, 0, 100, response);
+    expect(page).toMatchObject({ offset: 0, listed: 3, complete: true });
+    expect(page!.transactions.map(entry => [entry.hash, entry.block_id, entry.balance_change])).toEqual([
+      ['0xb', 2, '-200'],
+      ['0xa', null, '50'],
+    ]);
+  });
+
+  it('keeps Bitcoin entries with details and skips bare hashes', () => {
+    const address = '12a9g1TGgkNNV19d2JpwxTPsUUnpamrXwG';
+    const response = {
+      data: {
+        [address]: {
+          transactions: [
+            { block_id: 893400, hash: 'ff', time: '2025-05-10 11:58:21', balance_change: -2500000 },
+            'ee',
+          ],
+        },
+      },
+    };
+
+    const page = normalizeBlockchairAddressHistory('bitcoin', address, 100, 2, response);
+    expect(page).toMatchObject({ offset: 100, listed: 2, complete: false });
+    expect(page!.transactions).toEqual([
+      { hash: 'ff', block_id: 893400, time: new Date('2025-05-10T11:58:21Z'), balance_change: '-2500000' },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Portfolio DTOs shared by the server and the client.
+ * Declarations only, so both apps can import them as types without a build step.
+ */
+
+export type PortfolioChain = 'BTC' | 'ETH';
+
+/**
+ * How the USD value moved over a period: the holdings then at the price then, against now
+ */
+export interface PortfolioChange {
+  // Value at the start of the period
+  start_value_usd: number;
+  change_usd: number;
+  // Null when the start value was 0
+  change_percent: number | null;
+}
+
+/**
+ * Holdings of all watched wallets of one chain
+ */
+export interface PortfolioChainHolding {
+  chain: PortfolioChain;
+  wallet_count: number;
+  // Smallest unit (satoshi / wei) as a decimal string
+  balance: string;
+  // Latest stats market price; null before the first stats snapshot
+  price_usd: number | null;
+  value_usd: number | null;
+  // Share of the portfolio's USD value, 0 to 1
+  allocation: number | null;
+  change_24h: PortfolioChange | null;
+  change_7d: PortfolioChange | null;
+}
+
+/**
+ * One watched wallet's part of the portfolio
+ */
+export interface PortfolioWalletHolding {
+  id: number;
+  address: string;
+  chain: PortfolioChain;
+  name: string | null;
+  // Null until the wallet's first lookup is stored
+  balance: string | null;
+  value_usd: number | null;
+  allocation: number | null;
+}
+
+/**
+ * A transaction of a watched wallet
+ */
+export interface PortfolioActivity {
+  hash: string;
+  chain: PortfolioChain;
+  address: string;
+  wallet_name: string | null;
+  // ISO timestamp
+  time: string;
+  block_number: number | null;
+  // Net effect on the wallet's balance, smallest unit as a decimal string
+  balance_change: string;
+  // balance_change at the latest market price
+  value_usd: number | null;
+}
+
+/**
+ * GET /api/portfolio
+ */
+export interface Portfolio {
+  total_value_usd: number | null;
+  change_24h: PortfolioChange | null;
+  change_7d: PortfolioChange | null;
+  chains: PortfolioChainHolding[];
+  wallets: PortfolioWalletHolding[];
+  recent_activity: PortfolioActivity[];
+  // ISO timestamp of the stats snapshot the prices come from
+  prices_at: string | null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Stats DTOs shared by the server and the client.
+ * Declarations only, so both apps can import them as types without a build step.
+ */
+
+/**
+ * Stats of one chain as extracted from a provider's /stats payload.
+ * Fields added after the first release are null on older snapshots.
+ */
+export interface ChainStatsSnapshot {
+  blocks: number;
+  // Blocks mined in the last 24 hours
+  blocks_24h: number | null;
+  // Hashes per second (decimal string, can exceed Number.MAX_SAFE_INTEGER)
+  hashrate: string;
+  difficulty: number | null;
+  mempool_transactions: number;
+  market_price_usd: number;
+  average_transaction_fee_usd_24h: number | null;
+  // Value moved in the last 24 hours, smallest unit (satoshi / wei) as a decimal string
+  volume_24h: string | null;
+  // Suggested fee rate: sat/byte for Bitcoin, gwei for Ethereum
+  suggested_fee: number | null;
+}
+
+export type StatsChain = 'bitcoin' | 'ethereum';
+
+// ChainStatsSnapshot fields prefixed with the chain name, as in the stats table
+type ChainStatsColumns<C extends StatsChain> = {
+  [K in keyof ChainStatsSnapshot as `${C}_${K}`]: ChainStatsSnapshot[K];
+};
+
+/**
+ * One stats snapshot for both chains (GET /api/stats/latest and the SSE `stats` event)
+ */
+export type BlockchainStats = ChainStatsColumns<'bitcoin'> & ChainStatsColumns<'ethereum'> & {
+  timestamp: string;
+};
+
+// Every numeric column of a snapshot, the series the history endpoint can return
+export type StatsMetric = Exclude<keyof BlockchainStats, 'timestamp'>;
+
+export type StatsResolution = '1m' | '1h' | '1d';
+
+/**
+ * One rollup bucket of a metric: the samples taken between `timestamp` and the next bucket
+ */
+export interface StatsHistoryPoint {
+  timestamp: string;
+  min: number;
+  max: number;
+  avg: number;
+  last: number;
+  samples: number;
+}
+
+/**
+ * GET /api/stats/history
+ */
+export interface StatsHistory {
+  resolution: StatsResolution;
+  from: string;
+  to: string;
+  series: Partial<Record<StatsMetric, StatsHistoryPoint[]>>;
+}
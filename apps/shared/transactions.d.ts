@@ -0,0 +1,28 @@
+/**
+ * Transaction DTOs shared by the server and the client.
+ * Declarations only, so both apps can import them as types without a build step.
+ */
+
+/**
+ * Lifecycle of a stored transaction:
+ * pending until mined (confirmed), or until it vanishes from the mempool (dropped)
+ * or a conflicting transaction spending the same inputs / nonce is seen (replaced)
+ */
+export type TransactionStatus = 'pending' | 'confirmed' | 'dropped' | 'replaced';
+
+/**
+ * Payload of the SSE `transaction_confirmed` event, sent when a pending transaction is mined
+ */
+export interface TransactionConfirmedEvent {
+  hash: string;
+  chain: 'BTC' | 'ETH';
+  block_number: number;
+  // ISO timestamp of the block
+  block_time: string;
+}
+
+/**
+ * Finality filter of the transaction endpoints: unconfirmed (0 confirmations),
+ * confirmed (1+) or final (6+)
+ */
+export type TransactionFinality = 'unconfirmed' | 'confirmed' | 'final';
@@ -0,0 +1,91 @@
+/**
+ * Wallet DTOs shared by the server and the client.
+ * Declarations only, so both apps can import them as types without a build step.
+ */
+
+import type { TransactionStatus } from './transactions.js';
+
+/**
+ * A wallet on the watchlist, as returned by GET/POST/PATCH /api/wallets.
+ * The balance fields are null until the first background refresh has stored the address.
+ */
+export interface WatchedWallet {
+  id: number;
+  address: string;
+  chain: 'BTC' | 'ETH';
+  name: string | null;
+  notes: string | null;
+  // ISO timestamp
+  created_at: string;
+  // Smallest unit (satoshi / wei) as a decimal string
+  balance: string | null;
+  transaction_count: number | null;
+  // ISO timestamp of the last background refresh queued for the address
+  refreshed_at: string | null;
+}
+
+/**
+ * Body of POST /api/wallets; the chain is derived from the address when left out
+ */
+export interface NewWatchedWallet {
+  address: string;
+  chain?: 'BTC' | 'ETH';
+  name?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * The state of an address after a stored lookup; it holds until the next snapshot
+ */
+export interface WalletSnapshot {
+  // ISO timestamp of the lookup
+  taken_at: string;
+  // Smallest unit (satoshi / wei) as decimal strings
+  balance: string;
+  received: string;
+  spent: string;
+  transaction_count: number;
+  // Null when the data provider didn't report it
+  balance_usd: number | null;
+}
+
+/**
+ * GET /api/wallets/:address/history, oldest snapshot first.
+ * The first snapshot may be older than from: it is the balance held when the window begins.
+ */
+export interface WalletHistory {
+  address: string;
+  chain: 'BTC' | 'ETH';
+  from: string;
+  to: string;
+  snapshots: WalletSnapshot[];
+}
+
+/**
+ * A transaction of a wallet, from our transactions table, the provider's address history or both
+ */
+export interface WalletTransaction {
+  hash: string;
+  block_number: number | null;
+  // ISO timestamp: block time, or when a pending transaction was first seen
+  time: string;
+  // Net effect on the wallet's balance, smallest unit as a decimal string; negative when it paid
+  balance_change: string;
+  // Status of the row in our transactions table, null for entries only known from the address history
+  status: TransactionStatus | null;
+}
+
+/**
+ * GET /api/wallets/:address/transactions, newest first
+ */
+export interface WalletTransactionsPage {
+  address: string;
+  chain: 'BTC' | 'ETH';
+  transactions: WalletTransaction[];
+  // Cursor of the next page, null when no more transactions are known yet
+  next_cursor: string | null;
+  // Whether the provider's whole history is cached; if not, the lookup fetching more of it
+  history_complete: boolean;
+  request_id: string | null;
+  status_url: string | null;
+}
@@ -1,6 +1,7 @@
 -- Create the blockchain database if it doesn't exist
 -- Note: This is handled by Docker Compose environment variables
 -- This file can be used for seed data or admin user creation
+-- Tables and indexes are created by the server's migrations (apps/server/src/db/migrations)
 
 -- Create admin role if needed
 -- CREATE ROLE blockchain_admin WITH LOGIN PASSWORD 'admin_password';